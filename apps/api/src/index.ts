@@ -71,10 +71,63 @@ type ChatRecord = {
 
 const sopStatusSchema = z.enum(["private", "submitted", "approved", "rejected"]);
 
+const sopIrrPatchSchema = z
+  .object({
+    runoffPct: z.number().min(0).max(100),
+    p1_events: z.number().int().min(0).max(50),
+    p1_pct: z.number().min(0).max(100),
+    p1_ml: z.number().min(0).max(5000),
+    p2_events: z.number().int().min(0).max(100),
+    p2_pct: z.number().min(0).max(100),
+    p2_ml: z.number().min(0).max(5000),
+    vwc_floor: z.number().min(0).max(100),
+  })
+  .partial();
+
+const sopSteeringPatchSchema = z
+  .object({
+    dryback_pct: z.number().min(0).max(100),
+    p1_shot_pct_whc: z.number().min(0).max(100),
+    p2_start_min: z.number().min(0).max(1440),
+    runoff_pct: z.number().min(0).max(100),
+  })
+  .partial();
+
+// Overrides on top of a sidecar SOP bundle; irr keys are "stage|gal|medium" and may use "*" segments.
+const sopBundleOverridesSchema = z.object({
+  extends: z.string().min(2).max(120),
+  whc_start: z.number().optional(),
+  whc_end: z.number().optional(),
+  pump_min_ml: z.number().optional(),
+  pump_max_ml: z.number().optional(),
+  min_p2_interval_min: z.number().optional(),
+  pwec_max: z.number().optional(),
+  sop_temp_c: z.number().optional(),
+  media_fill_factor: z.number().optional(),
+  irr: z.record(z.string().max(80), sopIrrPatchSchema).optional(),
+  steering: z
+    .record(
+      z.string().max(40),
+      z.object({ vegetative: sopSteeringPatchSchema, balanced: sopSteeringPatchSchema, generative: sopSteeringPatchSchema }).partial()
+    )
+    .optional(),
+});
+
+type SopBundleOverrides = z.infer<typeof sopBundleOverridesSchema>;
+
+// A saved SOP's version is its updatedAt, so its parent must be pinned ("Athena Pro@2026-05-24.1")
+// or republishing the parent would change the SOP's values under the same version.
+const pinnedExtendsSchema = z
+  .string()
+  .min(2)
+  .max(120)
+  .regex(/^[^@]+@[^@]+$/, 'extends must pin the parent version as "Profile@version"');
+
 const sopCreateSchema = z.object({
   name: z.string().min(2).max(120),
   stage: z.string().min(2).max(120),
   notes: z.string().max(4000).optional().default(""),
+  bundle: sopBundleOverridesSchema.extend({ extends: pinnedExtendsSchema }).optional(),
 });
 
 type SopRecord = {
@@ -84,6 +137,7 @@ type SopRecord = {
   stage: string;
   notes: string;
   status: z.infer<typeof sopStatusSchema>;
+  bundle?: SopBundleOverrides;
   createdAt: string;
   updatedAt: string;
   submittedAt?: string;
@@ -285,6 +339,7 @@ async function loadSopRecords() {
           stage: z.string(),
           notes: z.string(),
           status: sopStatusSchema,
+          bundle: sopBundleOverridesSchema.optional(),
           createdAt: z.string(),
           updatedAt: z.string(),
           submittedAt: z.string().optional(),
@@ -433,6 +488,12 @@ function persistSensorReadings() {
   return sensorWriteChain;
 }
 
+/** Bundle definition the sidecar solver accepts as `sopBundle`; each edit is a new version. */
+function toSolverBundle(record: SopRecord) {
+  if (!record.bundle) return null;
+  return { profile: record.name, version: record.updatedAt, ...record.bundle };
+}
+
 function getUserIdFromHeaders(headers: Record<string, string | string[] | undefined>) {
   const raw = headers["x-growroom-user-id"];
   if (Array.isArray(raw)) return raw[0] || "anon_user";
@@ -577,10 +638,27 @@ app.get("/v1/sops/my", async (request) => {
   const items = sopRecords
     .filter((record) => record.ownerId === userId)
     .sort((a, b) => (a.updatedAt < b.updatedAt ? 1 : -1))
-    .slice(0, 100);
+    .slice(0, 100)
+    .map((record) => ({ ...record, solverBundle: toSolverBundle(record) }));
   return { ok: true, count: items.length, items };
 });
 
+app.get("/v1/sops/:id/bundle", async (request, reply) => {
+  const id = (request.params as { id?: string })?.id;
+  const userId = getUserIdFromHeaders(request.headers);
+  const record = sopRecords.find(
+    (item) => item.id === id && (item.ownerId === userId || item.status === "approved")
+  );
+  if (!record) {
+    return reply.status(404).send({ ok: false, error: "SOP not found" });
+  }
+  const bundle = toSolverBundle(record);
+  if (!bundle) {
+    return reply.status(422).send({ ok: false, error: "SOP has no solver bundle overrides" });
+  }
+  return { ok: true, bundle };
+});
+
 app.post("/v1/sops/my", async (request, reply) => {
   const parsed = sopCreateSchema.safeParse(request.body);
   if (!parsed.success) {
@@ -602,6 +680,7 @@ app.post("/v1/sops/my", async (request, reply) => {
     name: parsed.data.name,
     stage: parsed.data.stage,
     notes: parsed.data.notes,
+    bundle: parsed.data.bundle,
     status: "private",
     createdAt: now,
     updatedAt: now,
@@ -609,7 +688,7 @@ app.post("/v1/sops/my", async (request, reply) => {
   sopRecords.unshift(record);
   if (sopRecords.length > 1000) sopRecords.length = 1000;
   void persistSopRecords();
-  return { ok: true, item: record };
+  return { ok: true, item: { ...record, solverBundle: toSolverBundle(record) } };
 });
 
 app.post("/v1/sops/:id/submit", async (request, reply) => {
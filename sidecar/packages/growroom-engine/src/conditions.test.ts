@@ -0,0 +1,172 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  compileCondition,
+  conditionScope,
+  evaluateCondition,
+  evaluateGrowroom,
+  evaluateGrowroomSeries,
+  validateConditions,
+  type GrowroomRules,
+  type IntakePayload,
+} from "./index.ts";
+
+const RULES_PATH = join(dirname(fileURLToPath(import.meta.url)), "..", "..", "..", "srv", "rules", "growroom-rules.json");
+const rules = JSON.parse(readFileSync(RULES_PATH, "utf8")) as GrowroomRules;
+
+function check(src: string, intake: IntakePayload, targets: Record<string, unknown> = {}) {
+  return evaluateCondition(compileCondition(src), conditionScope(intake, targets));
+}
+
+describe("compileCondition", () => {
+  it("binds AND tighter than OR and NOT tighter than AND", () => {
+    assert.deepEqual(compileCondition("rh < 50 OR tempC > 28 AND NOT ppfd > 900"), {
+      kind: "or",
+      args: [
+        { kind: "cmp", op: "<", left: { kind: "ref", name: "rh" }, right: { kind: "num", value: 50 }, text: "rh < 50" },
+        {
+          kind: "and",
+          args: [
+            { kind: "cmp", op: ">", left: { kind: "ref", name: "tempC" }, right: { kind: "num", value: 28 }, text: "tempC > 28" },
+            {
+              kind: "not",
+              arg: { kind: "cmp", op: ">", left: { kind: "ref", name: "ppfd" }, right: { kind: "num", value: 900 }, text: "ppfd > 900" },
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("tokenizes keywords case-insensitively, strings, decimals and arithmetic", () => {
+    const expr = compileCondition('vpdKpa > target.vpdKpa + 0.3 * 2 and stage == "Mid Bloom"');
+    assert.equal(expr.kind, "and");
+    const [cmp, eq] = (expr as Extract<typeof expr, { kind: "and" }>).args;
+    // * binds tighter than +: target.vpdKpa + (0.3 * 2)
+    assert.deepEqual(cmp, {
+      kind: "cmp",
+      op: ">",
+      left: { kind: "ref", name: "vpdKpa" },
+      right: {
+        kind: "arith",
+        op: "+",
+        left: { kind: "ref", name: "target.vpdKpa" },
+        right: { kind: "arith", op: "*", left: { kind: "num", value: 0.3 }, right: { kind: "num", value: 2 } },
+      },
+      text: "vpdKpa > target.vpdKpa + 0.3 * 2",
+    });
+    // String literals compare lowercased, like the scope's text metrics.
+    assert.deepEqual((eq as { right: unknown }).right, { kind: "str", value: "mid bloom" });
+  });
+
+  it("groups with parentheses over the default precedence", () => {
+    const grouped = "(rh < 50 OR tempC > 28) AND ppfd > 900";
+    assert.equal(compileCondition(grouped).kind, "and");
+    assert.equal(check(grouped, { rh: 40, tempC: 25, ppfd: 500 }).matched, false);
+    assert.equal(check("rh < 50 OR tempC > 28 AND ppfd > 900", { rh: 40, tempC: 25, ppfd: 500 }).matched, true);
+  });
+
+  it("rejects unknown metrics and syntax errors with the position", () => {
+    assert.throws(() => compileCondition("vpd > 1.5"), /unknown metric "vpd" at 0/);
+    assert.throws(() => compileCondition("trend.rh.median > 1"), /unknown metric "trend\.rh\.median"/);
+    assert.throws(() => compileCondition("rh > "), /expected a metric, number or string at end/);
+    assert.throws(() => compileCondition("rh # 50"), /unexpected "#" at 2/);
+    assert.throws(() => compileCondition("tempC in 30..20"), /empty range 30\.\.20/);
+    assert.throws(() => compileCondition(""), /empty predicate/);
+  });
+
+  it("reports invalid predicates in a rules file and accepts the shipped ones", () => {
+    assert.deepEqual(validateConditions(rules.conditions ?? []), []);
+    assert.deepEqual(validateConditions([{ condition: "typo", when: "rhh > 50" }]), [
+      { condition: "typo", error: 'unknown metric "rhh" at 0 ("rhh")' },
+    ]);
+  });
+});
+
+describe("evaluateCondition", () => {
+  it("matches numeric ranges inclusively", () => {
+    assert.equal(check("tempC in 20..27", { tempC: 20 }).matched, true);
+    assert.equal(check("tempC in 20..27", { tempC: 27 }).matched, true);
+    const outside = check("tempC in 20..27", { tempC: 27.5 });
+    assert.equal(outside.matched, false);
+    assert.equal(outside.clauses[0]!.reason, "tempC 27.5 outside 20–27");
+    assert.equal(check("runoffPhDelta in -0.5..0.5", { runoffPh: 5.6, reservoirPh: 5.9 }).matched, true);
+  });
+
+  it("matches sets of strings and numbers", () => {
+    const set = 'stage in ["mid bloom", "late bloom"]';
+    assert.equal(check(set, { stage: " Late Bloom " }).matched, true);
+    assert.equal(check(set, { stagePhase: "mid bloom", stage: "flush" }).matched, true);
+    const miss = check(set, { stage: "early veg" });
+    assert.equal(miss.matched, false);
+    assert.equal(miss.clauses[0]!.reason, 'stage "early veg" is not one of "mid bloom", "late bloom"');
+    assert.equal(check("photoperiodH in [12, 18]", { photoperiodH: 18 }).matched, true);
+  });
+
+  it("leaves clauses over missing metrics unknown and propagates them through AND/OR/NOT", () => {
+    const missing = check("rh > 70", {});
+    assert.equal(missing.matched, null);
+    assert.equal(missing.clauses[0]!.reason, "no rh");
+
+    // AND: any false decides; otherwise unknown wins over true.
+    assert.equal(check("rh > 70 AND tempC > 28", { tempC: 25 }).matched, false);
+    assert.equal(check("rh > 70 AND tempC > 28", { tempC: 30 }).matched, null);
+    // OR: any true decides; otherwise unknown wins over false.
+    assert.equal(check("rh > 70 OR tempC > 28", { tempC: 30 }).matched, true);
+    assert.equal(check("rh > 70 OR tempC > 28", { tempC: 25 }).matched, null);
+    // NOT of unknown stays unknown.
+    assert.equal(check("NOT rh > 70", {}).matched, null);
+    assert.equal(check("NOT rh > 70", { rh: 60 }).matched, true);
+
+    // Derived metrics and arithmetic are unknown when an input is missing.
+    assert.equal(check("runoffEcDelta > 1", { runoffEc: 4 }).matched, null);
+    assert.equal(check("vpdKpa > target.vpdKpa + 0.3", { vpdKpa: 1.6 }).clauses[0]!.reason, "no target.vpdKpa");
+  });
+
+  it("compares against stage targets and describes both sides", () => {
+    const r = check("vpdKpa > target.vpdKpa + 0.3", { vpdKpa: 1.8 }, { vpdKpa: 1.2 });
+    assert.equal(r.matched, true);
+    assert.equal(r.clauses[0]!.reason, "vpdKpa 1.8 > target.vpdKpa + 0.3 = 1.5");
+  });
+
+  it("defaults lightcycle to day", () => {
+    assert.equal(check('lightcycle == "day"', {}).matched, true);
+    assert.equal(check('lightcycle == "day"', { lightcycle: "Night" }).matched, false);
+  });
+});
+
+describe("rules file conditions", () => {
+  const names = (intake: IntakePayload) => evaluateGrowroom(rules, intake).conditionMatches.map((m) => m.condition);
+
+  it("fires a condition whose predicate holds", () => {
+    const result = evaluateGrowroom(rules, { stage: "mid bloom", runoffPh: 5.2, reservoirTempC: 20 });
+    const acid = result.conditionMatches.find((m) => m.condition.startsWith("Rhizosphere acid stress"));
+    assert.ok(acid, "acid root-zone condition should fire");
+    assert.equal(acid!.gate, "ROOT");
+    assert.deepEqual(acid!.clauses, [{ clause: "runoffPh < 5.4", matched: true, reason: "runoffPh 5.2 < 5.4" }]);
+  });
+
+  it("does not fire a condition whose predicate fails or is unknown", () => {
+    assert.ok(!names({ stage: "mid bloom", reservoirTempC: 20 }).includes("Root-zone thermal stress"));
+    assert.ok(!names({ stage: "mid bloom" }).includes("Root-zone thermal stress"));
+    assert.ok(names({ stage: "mid bloom", reservoirTempC: 25 }).includes("Root-zone thermal stress"));
+  });
+
+  it("lets predicates read series trends", () => {
+    const trendRules = {
+      ...rules,
+      conditions: [{ condition: "Runoff pH climbing", gate: "root", message: "pH drifts up.", when: "trend.runoffPh.slope > 0.05 AND trend.runoffPh.persistence >= 0.7" }],
+    } as GrowroomRules;
+    const day = 86_400_000;
+    const rising = [5.8, 5.9, 6.0, 6.2].map((runoffPh, i) => ({ at: i * day, stage: "mid bloom", runoffPh }));
+    const result = evaluateGrowroomSeries(trendRules, rising);
+    assert.equal(result.series.trends.runoffPh!.persistence, 1);
+    assert.deepEqual(result.conditionMatches.map((m) => m.condition), ["Runoff pH climbing"]);
+
+    // A single snapshot has no trends, so the predicate stays unknown.
+    assert.deepEqual(evaluateGrowroom(trendRules, rising[3]!).conditionMatches, []);
+  });
+});
@@ -0,0 +1,392 @@
+import type { IntakePayload } from "./evaluate.ts";
+import type { MetricTrend } from "./trends.ts";
+
+/**
+ * Condition predicates over intake metrics, e.g.
+ *
+ *   vpdKpa > 1.5 AND rh < 50
+ *   ppfd in 0..300 AND lightcycle == "day"
+ *   stage in ["early veg", "late veg"] AND photoperiodH < 17
+ *   vpdKpa > target.vpdKpa + 0.3 OR vpdKpa > 1.6
+ *   trend.runoffPh.slope > 0.05 AND trend.runoffPh.persistence >= 0.7
+ *
+ * Clauses over a missing metric are unknown rather than false, so a condition only fires when
+ * the intake actually shows it (AND/OR/NOT use three-valued logic).
+ */
+
+type Operand =
+  | { kind: "num"; value: number }
+  | { kind: "str"; value: string }
+  | { kind: "ref"; name: string }
+  | { kind: "arith"; op: "+" | "-" | "*" | "/"; left: Operand; right: Operand };
+
+type CmpOp = ">" | ">=" | "<" | "<=" | "==" | "!=";
+
+export type ConditionExpr =
+  | { kind: "and"; args: ConditionExpr[] }
+  | { kind: "or"; args: ConditionExpr[] }
+  | { kind: "not"; arg: ConditionExpr }
+  | { kind: "cmp"; op: CmpOp; left: Operand; right: Operand; text: string }
+  | { kind: "range"; left: Operand; lo: number; hi: number; text: string }
+  | { kind: "set"; left: Operand; values: Array<string | number>; text: string };
+
+export type ClauseResult = {
+  clause: string;
+  /** null when a metric the clause reads is missing from the intake. */
+  matched: boolean | null;
+  reason: string;
+};
+
+export type ConditionScope = Record<string, number | string | null>;
+
+const NUMERIC_METRICS = [
+  "tempC", "rh", "vpdKpa", "ppfd", "dliMol", "co2", "reservoirEc", "reservoirPh", "runoffPh", "runoffEc",
+  "runoffPct", "reservoirTempC", "pwec", "vwcAtLastIrr", "drybackPct24h", "targetAtFirst", "p1Events",
+  "p2Events", "p1IntervalMin", "p2IntervalMin", "photoperiodH",
+] as const;
+
+/** Metrics computed from the intake rather than read from it. */
+const DERIVED_METRICS = ["irrigations", "runoffEcDelta", "runoffPhDelta", "pwecRatio"] as const;
+const TEXT_METRICS = ["stage", "lightcycle", "medium", "co2Mode"] as const;
+const TARGET_METRICS = ["tempC", "rh", "vpdKpa", "ppfd", "dliMol", "co2"] as const;
+
+/** Numeric metrics a series of intakes is summarised over (see trends.ts). */
+export const TREND_METRICS: string[] = [...NUMERIC_METRICS, ...DERIVED_METRICS];
+export const TREND_STATS = ["slope", "delta", "amplitude", "step", "oscillation", "persistence"] as const;
+
+export const CONDITION_METRICS: string[] = [
+  ...NUMERIC_METRICS,
+  ...DERIVED_METRICS,
+  ...TEXT_METRICS,
+  ...TARGET_METRICS.map((m) => `target.${m}`),
+  ...TREND_METRICS.flatMap((m) => TREND_STATS.map((s) => `trend.${m}.${s}`)),
+];
+
+function num(v: unknown): number | null {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Values a predicate can read: intake metrics, derived metrics, stage/lightcycle, stage targets and,
+ * when evaluating a series, `trend.<metric>.<stat>` (unknown for a single snapshot).
+ */
+export function conditionScope(
+  intake: IntakePayload,
+  targets: Record<string, unknown>,
+  trends: Record<string, MetricTrend> = {}
+): ConditionScope {
+  const scope: ConditionScope = {};
+  for (const m of NUMERIC_METRICS) scope[m] = num(intake[m]);
+  const p1 = scope.p1Events as number | null;
+  const p2 = scope.p2Events as number | null;
+  const feedEc = scope.reservoirEc as number | null;
+  const feedPh = scope.reservoirPh as number | null;
+  const runEc = scope.runoffEc as number | null;
+  const runPh = scope.runoffPh as number | null;
+  const pwec = scope.pwec as number | null;
+  scope.irrigations = p1 != null || p2 != null ? (p1 ?? 0) + (p2 ?? 0) : null;
+  scope.runoffEcDelta = runEc != null && feedEc != null ? runEc - feedEc : null;
+  scope.runoffPhDelta = runPh != null && feedPh != null ? runPh - feedPh : null;
+  scope.pwecRatio = pwec != null && feedEc != null && feedEc > 0 ? pwec / feedEc : null;
+  scope.stage = (intake.stagePhase ?? intake.stage)?.trim().toLowerCase() || null;
+  // Same default as the stage-profile lookup: an intake without a lightcycle describes lights-on.
+  scope.lightcycle = (intake.lightcycle ?? "day").trim().toLowerCase();
+  scope.medium = intake.medium?.trim().toLowerCase() || null;
+  scope.co2Mode = intake.co2Mode?.trim().toLowerCase() || null;
+  for (const m of TARGET_METRICS) scope[`target.${m}`] = num(targets[m]);
+  for (const m of TREND_METRICS) {
+    for (const stat of TREND_STATS) scope[`trend.${m}.${stat}`] = trends[m]?.[stat] ?? null;
+  }
+  return scope;
+}
+
+// ---- parsing ----
+
+type Token = { type: "num" | "str" | "ident" | "op" | "punct" | "kw"; value: string; pos: number };
+
+const KEYWORDS = new Set(["and", "or", "not", "in"]);
+const TOKEN_RE = /\s*(?:(\d+(?:\.\d+)?)|"([^"]*)"|([A-Za-z_][\w.]*)|(>=|<=|==|!=|>|<|\+|-|\*|\/)|(\.\.|[()[\],]))/y;
+
+function tokenize(src: string): Token[] {
+  const out: Token[] = [];
+  TOKEN_RE.lastIndex = 0;
+  while (TOKEN_RE.lastIndex < src.length) {
+    const pos = TOKEN_RE.lastIndex;
+    if (!src.slice(pos).trim()) break;
+    const m = TOKEN_RE.exec(src);
+    if (!m) throw new Error(`unexpected "${src.slice(pos).trim()[0]}" at ${pos}`);
+    if (m[1] != null) out.push({ type: "num", value: m[1], pos });
+    else if (m[2] != null) out.push({ type: "str", value: m[2], pos });
+    else if (m[3] != null) {
+      const lower = m[3].toLowerCase();
+      out.push(KEYWORDS.has(lower) ? { type: "kw", value: lower, pos } : { type: "ident", value: m[3], pos });
+    } else if (m[4] != null) out.push({ type: "op", value: m[4], pos });
+    else out.push({ type: "punct", value: m[5]!, pos });
+  }
+  return out;
+}
+
+/** Recursive-descent parser: or := and (OR and)*, and := not (AND not)*, not := NOT not | atom. */
+function parse(src: string): ConditionExpr {
+  const tokens = tokenize(src);
+  let i = 0;
+  const peek = () => tokens[i];
+  const fail = (msg: string): never => {
+    const t = peek();
+    throw new Error(t ? `${msg} at ${t.pos} ("${t.value}")` : `${msg} at end`);
+  };
+  const accept = (type: Token["type"], value?: string) => {
+    const t = peek();
+    if (t && t.type === type && (value == null || t.value === value)) {
+      i++;
+      return t;
+    }
+    return null;
+  };
+  const expect = (type: Token["type"], value: string) => accept(type, value) ?? fail(`expected "${value}"`);
+  const textFrom = (start: number) => src.slice(tokens[start]!.pos, tokens[i]?.pos ?? src.length).trim();
+
+  function signedNumber(): number {
+    const neg = !!accept("op", "-");
+    const t = accept("num") ?? fail("expected a number");
+    return neg ? -Number(t.value) : Number(t.value);
+  }
+
+  function factor(): Operand {
+    if (accept("op", "-")) return { kind: "arith", op: "-", left: { kind: "num", value: 0 }, right: factor() };
+    if (accept("punct", "(")) {
+      const inner = operand();
+      expect("punct", ")");
+      return inner;
+    }
+    const t = peek();
+    if (t?.type === "num") return i++, { kind: "num", value: Number(t.value) };
+    if (t?.type === "str") return i++, { kind: "str", value: t.value.toLowerCase() };
+    if (t?.type === "ident") {
+      if (!CONDITION_METRICS.includes(t.value)) fail(`unknown metric "${t.value}"`);
+      i++;
+      return { kind: "ref", name: t.value };
+    }
+    return fail("expected a metric, number or string");
+  }
+
+  function term(): Operand {
+    let left = factor();
+    for (let t = peek(); t?.type === "op" && (t.value === "*" || t.value === "/"); t = peek()) {
+      i++;
+      left = { kind: "arith", op: t.value as "*" | "/", left, right: factor() };
+    }
+    return left;
+  }
+
+  function operand(): Operand {
+    let left = term();
+    for (let t = peek(); t?.type === "op" && (t.value === "+" || t.value === "-"); t = peek()) {
+      i++;
+      left = { kind: "arith", op: t.value as "+" | "-", left, right: term() };
+    }
+    return left;
+  }
+
+  function comparison(): ConditionExpr {
+    const start = i;
+    const left = operand();
+    if (accept("kw", "in")) {
+      if (accept("punct", "[")) {
+        const values: Array<string | number> = [];
+        do {
+          const t = accept("str");
+          values.push(t ? t.value.toLowerCase() : signedNumber());
+        } while (accept("punct", ","));
+        expect("punct", "]");
+        return { kind: "set", left, values, text: textFrom(start) };
+      }
+      const lo = signedNumber();
+      expect("punct", "..");
+      const hi = signedNumber();
+      if (lo > hi) fail(`empty range ${lo}..${hi}`);
+      return { kind: "range", left, lo, hi, text: textFrom(start) };
+    }
+    const op = peek();
+    if (op?.type !== "op" || !["<", "<=", ">", ">=", "==", "!="].includes(op.value)) return fail("expected a comparison");
+    i++;
+    const right = operand();
+    return { kind: "cmp", op: op.value as CmpOp, left, right, text: textFrom(start) };
+  }
+
+  function atom(): ConditionExpr {
+    // "(" opens either a grouped predicate or a parenthesised operand; try the predicate first.
+    if (peek()?.type === "punct" && peek()!.value === "(") {
+      const save = i;
+      i++;
+      try {
+        const inner = or();
+        expect("punct", ")");
+        return inner;
+      } catch {
+        i = save;
+      }
+    }
+    return comparison();
+  }
+
+  function not(): ConditionExpr {
+    if (accept("kw", "not")) return { kind: "not", arg: not() };
+    return atom();
+  }
+
+  function chain(kind: "and" | "or", next: () => ConditionExpr): ConditionExpr {
+    const args = [next()];
+    while (accept("kw", kind)) args.push(next());
+    return args.length === 1 ? args[0]! : { kind, args };
+  }
+
+  function and(): ConditionExpr {
+    return chain("and", not);
+  }
+
+  function or(): ConditionExpr {
+    return chain("or", and);
+  }
+
+  if (!tokens.length) fail("empty predicate");
+  const expr = or();
+  if (i < tokens.length) fail("unexpected token");
+  return expr;
+}
+
+const compiled = new Map<string, ConditionExpr>();
+
+/** Parse a predicate (cached); throws with the offending position on a syntax error or unknown metric. */
+export function compileCondition(src: string): ConditionExpr {
+  let expr = compiled.get(src);
+  if (!expr) {
+    expr = parse(src);
+    compiled.set(src, expr);
+  }
+  return expr;
+}
+
+// ---- evaluation ----
+
+function resolve(o: Operand, scope: ConditionScope): number | string | null {
+  switch (o.kind) {
+    case "num":
+    case "str":
+      return o.value;
+    case "ref":
+      return scope[o.name] ?? null;
+    case "arith": {
+      const a = resolve(o.left, scope);
+      const b = resolve(o.right, scope);
+      if (typeof a !== "number" || typeof b !== "number") return null;
+      if (o.op === "+") return a + b;
+      if (o.op === "-") return a - b;
+      if (o.op === "*") return a * b;
+      return b === 0 ? null : a / b;
+    }
+  }
+}
+
+function refs(o: Operand): string[] {
+  if (o.kind === "ref") return [o.name];
+  if (o.kind === "arith") return [...refs(o.left), ...refs(o.right)];
+  return [];
+}
+
+function show(v: number | string): string {
+  return typeof v === "number" ? String(Number(v.toFixed(2))) : `"${v}"`;
+}
+
+function render(o: Operand): string {
+  if (o.kind === "ref") return o.name;
+  if (o.kind === "num") return String(o.value);
+  if (o.kind === "str") return `"${o.value}"`;
+  const side = (x: Operand) => (x.kind === "arith" ? `(${render(x)})` : render(x));
+  return `${side(o.left)} ${o.op} ${side(o.right)}`;
+}
+
+/** "vpdKpa 1.8" for a bare metric, "target.vpdKpa + 0.3 = 1.71" for an expression. */
+function describe(o: Operand, v: number | string): string {
+  if (o.kind === "ref") return `${o.name} ${show(v)}`;
+  if (o.kind === "arith") return `${render(o)} = ${show(v)}`;
+  return show(v);
+}
+
+function missingReason(ops: Operand[], scope: ConditionScope): string {
+  const names = ops.flatMap(refs).filter((n) => scope[n] == null);
+  return names.length ? `no ${[...new Set(names)].join(", ")}` : "not comparable";
+}
+
+function compare(op: CmpOp, a: number | string, b: number | string): boolean | null {
+  if (op === "==") return a === b;
+  if (op === "!=") return a !== b;
+  if (typeof a !== "number" || typeof b !== "number") return null;
+  if (op === ">") return a > b;
+  if (op === ">=") return a >= b;
+  if (op === "<") return a < b;
+  return a <= b;
+}
+
+function leaf(expr: Exclude<ConditionExpr, { kind: "and" | "or" | "not" }>, scope: ConditionScope): ClauseResult {
+  const left = resolve(expr.left, scope);
+  if (expr.kind === "cmp") {
+    const right = resolve(expr.right, scope);
+    const matched = left == null || right == null ? null : compare(expr.op, left, right);
+    if (matched == null) return { clause: expr.text, matched, reason: missingReason([expr.left, expr.right], scope) };
+    const op = matched ? expr.op : negate(expr.op);
+    return { clause: expr.text, matched, reason: `${describe(expr.left, left!)} ${op} ${describe(expr.right, right!)}` };
+  }
+  if (left == null) return { clause: expr.text, matched: null, reason: missingReason([expr.left], scope) };
+  if (expr.kind === "range") {
+    if (typeof left !== "number") return { clause: expr.text, matched: null, reason: "not comparable" };
+    const matched = left >= expr.lo && left <= expr.hi;
+    return { clause: expr.text, matched, reason: `${describe(expr.left, left)} ${matched ? "within" : "outside"} ${expr.lo}–${expr.hi}` };
+  }
+  const matched = expr.values.includes(left);
+  return { clause: expr.text, matched, reason: `${describe(expr.left, left)} ${matched ? "is" : "is not"} one of ${expr.values.map(show).join(", ")}` };
+}
+
+function negate(op: CmpOp): string {
+  return { ">": "≤", ">=": "<", "<": "≥", "<=": ">", "==": "≠", "!=": "=" }[op];
+}
+
+/** Three-valued evaluation; `clauses` lists every leaf comparison with its outcome. */
+export function evaluateCondition(
+  expr: ConditionExpr,
+  scope: ConditionScope
+): { matched: boolean | null; clauses: ClauseResult[] } {
+  const clauses: ClauseResult[] = [];
+  const walk = (e: ConditionExpr): boolean | null => {
+    if (e.kind === "not") {
+      const v = walk(e.arg);
+      return v == null ? null : !v;
+    }
+    if (e.kind === "and" || e.kind === "or") {
+      const vals = e.args.map(walk);
+      const decisive = e.kind === "and" ? false : true;
+      if (vals.includes(decisive)) return decisive;
+      return vals.includes(null) ? null : !decisive;
+    }
+    const r = leaf(e, scope);
+    clauses.push(r);
+    return r.matched;
+  };
+  return { matched: walk(expr), clauses };
+}
+
+/** Syntax or metric errors in the `when` predicates of a rules file, for load-time reporting. */
+export function validateConditions(conditions: Array<{ condition: string; when?: string | null }>): Array<{ condition: string; error: string }> {
+  const out: Array<{ condition: string; error: string }> = [];
+  for (const c of conditions) {
+    if (!c.when) continue;
+    try {
+      compileCondition(c.when);
+    } catch (e) {
+      out.push({ condition: c.condition, error: (e as Error).message });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { evaluateGrowroom, type EngineEvaluateResult, type GrowroomRules } from "./index.ts";
+
+const RULES_PATH = join(dirname(fileURLToPath(import.meta.url)), "..", "..", "..", "srv", "rules", "growroom-rules.json");
+const shipped = JSON.parse(readFileSync(RULES_PATH, "utf8")) as GrowroomRules;
+
+/** Round numbers: each band is 10 wide, so a reading 5 past it deviates by 0.5. */
+const rules: GrowroomRules = {
+  metrics: [
+    { metric: "Canopy temp (°C)", gate: "ENV", min: 20, max: 30, weight: 1 },
+    { metric: "RH (%)", gate: "ENV", min: 50, max: 60, weight: 2 },
+    { metric: "Runoff pH", gate: "ROOT", min: 0, max: 10 },
+    { metric: "Reservoir EC (mS/cm)", gate: "ROOT", min: 0, max: 10 },
+  ],
+  stageProfiles: [],
+};
+
+function gate(result: EngineEvaluateResult, name: string) {
+  return result.gatePct.find((g) => g.gate === name)!;
+}
+
+describe("evaluateGrowroom scoring", () => {
+  it("scores a single flag by its own deviation", () => {
+    const env = gate(evaluateGrowroom(rules, { tempC: 35, rh: 55 }), "ENV");
+    assert.equal(env.flagged, 1);
+    assert.equal(env.pct, 0.5);
+  });
+
+  it("combines flags with a weighted noisy-OR", () => {
+    // RH at weight 2 counts as two flags: 1 − (1 − 0.5)².
+    assert.equal(gate(evaluateGrowroom(rules, { tempC: 25, rh: 65 }), "ENV").pct, 0.75);
+    // Both out: 1 − 0.5 · 0.5².
+    const both = evaluateGrowroom(rules, { tempC: 35, rh: 65 });
+    assert.equal(gate(both, "ENV").pct, 0.875);
+    assert.deepEqual(
+      both.top3ByGate.ENV.map((r) => r[0]),
+      ["Canopy temp (°C)", "RH (%)"]
+    );
+  });
+
+  it("reports confidence as the share of metric weight supplied", () => {
+    const env = gate(evaluateGrowroom(rules, { tempC: 25 }), "ENV");
+    assert.equal(env.expected, 2);
+    assert.equal(env.supplied, 1);
+    assert.equal(env.confidence, 1 / 3);
+    assert.equal(env.pct, 0);
+  });
+
+  it("averages gate headroom by confidence into the health score", () => {
+    const result = evaluateGrowroom(rules, { tempC: 35, runoffPh: 6 });
+    // ENV: headroom 0.5 at confidence 1/3; ROOT: headroom 1 at 1/2; IRR: no metrics.
+    assert.equal(gate(result, "IRR").confidence, 0);
+    assert.equal(result.health.score, 80);
+    assert.ok(Math.abs(result.health.confidence - (1 / 3 + 1 / 2) / 3) < 1e-12);
+
+    assert.deepEqual(evaluateGrowroom(rules, {}).health, { score: null, confidence: 0 });
+  });
+
+  it("keeps feed EC under its rule's gate unless a nutrient week resolves", () => {
+    const plain = evaluateGrowroom(rules, { reservoirEc: 15 });
+    assert.equal(plain.nutrient, null);
+    assert.deepEqual(
+      plain.top3ByGate.ROOT.map((r) => r[0]),
+      ["Reservoir EC (mS/cm)"]
+    );
+    assert.deepEqual(plain.top3ByGate.IRR, []);
+
+    const fed = evaluateGrowroom(shipped, { profile: "Athena Pro", stage: "Mid Bloom", week: 4, reservoirEc: 5 });
+    assert.ok(fed.nutrient);
+    assert.ok(fed.top3ByGate.IRR.some((r) => r[0] === "Reservoir EC (mS/cm)"));
+    assert.ok(!fed.top3ByGate.ROOT.some((r) => r[0] === "Reservoir EC (mS/cm)"));
+
+    const unfed = evaluateGrowroom(shipped, { stage: "Mid Bloom", nutrientLine: "no-such-line", reservoirEc: 5 });
+    assert.equal(unfed.nutrient, null);
+    assert.ok(unfed.top3ByGate.ROOT.some((r) => r[0] === "Reservoir EC (mS/cm)"));
+  });
+});
@@ -1,9 +1,24 @@
-import { buildObserved, stageTargetsFromProfile } from "./observed.ts";
+import { localizeMetric, type UnitPrefs } from "../../units/src/index.ts";
+import { compileCondition, conditionScope, evaluateCondition, type ClauseResult } from "./conditions.ts";
+import { resolveNutrientPlan, type NutrientPlan, type NutrientRules } from "./nutrients.ts";
+import { buildObserved } from "./observed.ts";
+import { resolveStageTargets, type StageProfileRow, type StageTargets } from "./targets.ts";
+import type { MetricTrend } from "./trends.ts";
 
 export type ConditionRule = {
   condition: string;
   gate: string | null;
   message: string | null;
+  /** Predicate over intake metrics (see conditions.ts); rows without one never match. */
+  when?: string | null;
+};
+
+export type ConditionMatch = {
+  condition: string;
+  gate: string;
+  message: string;
+  when: string;
+  clauses: ClauseResult[];
 };
 
 export type GrowroomRules = {
@@ -12,19 +27,12 @@ export type GrowroomRules = {
     min: number | null;
     max: number | null;
     gate: string | null;
+    /** Relative importance within its gate (default 1). */
+    weight?: number;
   }>;
   conditions?: ConditionRule[];
-  stageProfiles: Array<{
-    key?: string;
-    phase?: string;
-    lightcycle?: string;
-    tair_c?: number;
-    rh_percent?: number;
-    vpd_air_kpa?: number;
-    ppfd_umol?: number;
-    co2_ppm?: number;
-  }>;
-};
+  stageProfiles: StageProfileRow[];
+} & NutrientRules;
 
 export type IntakePayload = {
   tempC?: number;
@@ -54,6 +62,12 @@ export type IntakePayload = {
   lightcycle?: string;
   photoperiodH?: number;
   co2Mode?: string;
+  /** Crop week (1–13), for blending stage targets between phases. */
+  weekIndex?: number;
+  /** Week within the stage's phase block, for the nutrient schedule. */
+  week?: number;
+  nutrientLine?: string;
+  reservoirL?: number;
 };
 
 export type Top3Row = [string, string, number];
@@ -67,12 +81,18 @@ export type ObservedResult = {
 export type EngineEvaluateResult = {
   ok: boolean;
   version: string;
-  gatePct: Array<{ gate: string; pct: number }>;
+  gatePct: GateScore[];
   top3ByGate: { ENV: Top3Row[]; ROOT: Top3Row[]; IRR: Top3Row[] };
   scores: { env: number; root: number; irr: number };
   gateStatus: Array<{ gate: string; status: string }>;
+  /** 0–100, higher is healthier; `confidence` is the mean gate confidence. */
+  health: { score: number | null; confidence: number };
+  /** SOP climate targets for the stage; they replace the flat ENV bands (±PROFILE_TOL). */
+  targets: StageTargets | null;
+  /** Active nutrient line/week; its feed EC/pH window replaces the flat IRR bands. */
+  nutrient: NutrientPlan | null;
   observed: ObservedResult;
-  conditionMatches: Array<{ condition: string; gate: string; message: string }>;
+  conditionMatches: ConditionMatch[];
 };
 
 function normalizeLabel(label: string): string {
@@ -85,161 +105,226 @@ function scoreToSeverity(score: number): "high" | "medium" | "low" {
   return "low";
 }
 
-function findStageProfile(
-  rules: GrowroomRules,
-  stage?: string,
-  sop?: string,
-  lc?: string
-): GrowroomRules["stageProfiles"][0] | null {
-  if (!stage) return null;
-  const phase = stage.toLowerCase();
-  const sopN = (sop || "sharkmousefarms").toLowerCase();
-  const lcN = (lc || "day").toLowerCase();
-  for (const p of rules.stageProfiles) {
-    if (
-      p.phase?.toLowerCase() === phase &&
-      p.key?.toLowerCase().includes(sopN) &&
-      p.lightcycle?.toLowerCase() === lcN
-    )
-      return p;
-  }
-  for (const p of rules.stageProfiles) {
-    if (p.phase?.toLowerCase() === phase && p.key?.toLowerCase().includes(sopN)) return p;
-  }
-  return null;
+/** Normalized metric label → intake field; a rule row is scored under its own gate. */
+const METRIC_FIELDS: Record<string, keyof IntakePayload> = {
+  "canopy temp": "tempC",
+  rh: "rh",
+  vpd: "vpdKpa",
+  ppfd: "ppfd",
+  dli: "dliMol",
+  co2: "co2",
+  "reservoir temp": "reservoirTempC",
+  vwc: "vwcAtLastIrr",
+  pwec: "pwec",
+  "runoff ec": "runoffEc",
+  "runoff ph": "runoffPh",
+  "reservoir ec": "reservoirEc",
+  "feed ec": "reservoirEc",
+  "reservoir ph": "reservoirPh",
+  "feed ph": "reservoirPh",
+  "overnight dryback": "drybackPct24h",
+  "overnight dryback target": "drybackPct24h",
+  dryback: "drybackPct24h",
+};
+
+/** Metrics whose band follows the stage targets (±PROFILE_TOL) when they resolve. */
+const PROFILE_FIELDS = new Set<keyof IntakePayload>(["tempC", "rh", "vpdKpa", "ppfd", "dliMol", "co2"]);
+const PROFILE_TOL = 0.1;
+
+/** Feed strength and pH are irrigation settings: scored under IRR against the nutrient week when one resolves. */
+const FEED_BANDS: Partial<Record<keyof IntakePayload, [keyof NutrientPlan, keyof NutrientPlan]>> = {
+  reservoirEc: ["minEc", "maxEc"],
+  reservoirPh: ["phMin", "phMax"],
+};
+
+export type GateScore = {
+  gate: string;
+  /** Composite deviation 0–1 over every flagged metric (see gateScore). */
+  pct: number;
+  /** Share of the gate's metric weight the intake actually supplied, 0–1. */
+  confidence: number;
+  flagged: number;
+  supplied: number;
+  expected: number;
+};
+
+type GateEval = { flags: Top3Row[]; score: GateScore };
+
+/**
+ * Noisy-OR of the weighted deviations: 1 − Π(1 − score)^weight. One flag scores its own deviation
+ * (at weight 1), every further flag pushes the gate closer to 1, and a weight > 1 counts a metric
+ * as if it were flagged that many times.
+ */
+function gateScore(rows: Array<{ score: number; weight: number }>): number {
+  const healthy = rows.reduce((p, r) => p * Math.pow(1 - Math.min(1, r.score), r.weight), 1);
+  return 1 - healthy;
 }
 
-function gateFlagsFor(
+function evaluateGate(
   rules: GrowroomRules,
   gate: string,
-  intake: IntakePayload
-): Top3Row[] {
-  const gateMetricMap: Record<string, Record<string, number | undefined>> = {
-    ENV: {
-      "canopy temp": intake.tempC,
-      rh: intake.rh,
-      vpd: intake.vpdKpa,
-      ppfd: intake.ppfd,
-      dli: intake.dliMol,
-      co2: intake.co2,
-    },
-    ROOT: {
-      "reservoir temp": intake.reservoirTempC,
-      vwc: intake.vwcAtLastIrr,
-      pwec: intake.pwec,
-      "runoff ec": intake.runoffEc,
-      "runoff ph": intake.runoffPh,
-    },
-    IRR: {
-      "reservoir ec": intake.reservoirEc,
-      "feed ec": intake.reservoirEc,
-      "reservoir ph": intake.reservoirPh,
-      "feed ph": intake.reservoirPh,
-      "overnight dryback": intake.drybackPct24h,
-      dryback: intake.drybackPct24h,
-    },
-  };
-
-  const fields = gateMetricMap[gate] ?? {};
-  const profile = findStageProfile(
-    rules,
-    intake.stagePhase ?? intake.stage,
-    intake.profile,
-    intake.lightcycle
-  );
-  const TOL = 0.1;
-  const profileTargets: Record<string, number | null> = profile
-    ? {
-        tempC: profile.tair_c ?? null,
-        rh: profile.rh_percent ?? null,
-        vpdKpa: profile.vpd_air_kpa ?? null,
-        ppfd: profile.ppfd_umol ?? null,
-        co2: profile.co2_ppm ?? null,
-      }
-    : {};
-
-  const gateFlags: Top3Row[] = [];
-  for (const rule of rules.metrics.filter((m) => m.gate?.toUpperCase() === gate)) {
-    const normName = normalizeLabel(rule.metric);
-    const value = fields[normName];
-    if (value == null || !Number.isFinite(value)) continue;
+  intake: IntakePayload,
+  units?: UnitPrefs,
+  nutrient?: NutrientPlan | null,
+  targets?: StageTargets | null
+): GateEval {
+  const flags: Array<{ row: Top3Row; weight: number }> = [];
+  let expectedWeight = 0;
+  let suppliedWeight = 0;
+  let expected = 0;
+  let supplied = 0;
+  for (const rule of rules.metrics) {
+    const field = METRIC_FIELDS[normalizeLabel(rule.metric)];
+    if (!field) continue;
+    const feed = FEED_BANDS[field];
+    const ruleGate = feed && nutrient ? "IRR" : rule.gate?.toUpperCase();
+    if (ruleGate !== gate) continue;
 
     let min = rule.min;
     let max = rule.max;
-    const metricKeyMap: Record<string, string> = {
-      "canopy temp": "tempC",
-      rh: "rh",
-      vpd: "vpdKpa",
-      ppfd: "ppfd",
-      co2: "co2",
-    };
-    const pKey = metricKeyMap[normName];
-    if (pKey && profileTargets[pKey] != null) {
-      const t = profileTargets[pKey]!;
-      min = t * (1 - TOL);
-      max = t * (1 + TOL);
+    const target = PROFILE_FIELDS.has(field) ? targets?.[field as keyof StageTargets] : null;
+    if (typeof target === "number") {
+      min = target * (1 - PROFILE_TOL);
+      max = target * (1 + PROFILE_TOL);
+    }
+    if (feed && nutrient) {
+      min = nutrient[feed[0]] as number;
+      max = nutrient[feed[1]] as number;
     }
-
     if (min == null || max == null) continue;
+
+    const weight = rule.weight ?? 1;
+    expected++;
+    expectedWeight += weight;
+    const value = intake[field] as number | undefined;
+    if (value == null || !Number.isFinite(value)) continue;
+    supplied++;
+    suppliedWeight += weight;
+
     if (value < min || value > max) {
       const deviation = value < min ? min - value : value - max;
       const range = max - min || 1;
       const score = Math.min(1, deviation / range);
       const direction = value < min ? "low" : "high";
-      const reason = `${rule.metric} is ${direction} (${value} vs ${min.toFixed?.(1) ?? min}–${max.toFixed?.(1) ?? max})`;
-      gateFlags.push([rule.metric, reason, score]);
+      const reason = units ? localizedReason(rule.metric, direction, value, min, max, units) : `${rule.metric} is ${direction} (${value} vs ${min.toFixed?.(1) ?? min}–${max.toFixed?.(1) ?? max})`;
+      flags.push({ row: [rule.metric, reason, score], weight });
     }
   }
-  gateFlags.sort((a, b) => b[2] - a[2]);
-  return gateFlags.slice(0, 3);
+  flags.sort((a, b) => b.row[2] - a.row[2]);
+  return {
+    flags: flags.map((f) => f.row),
+    score: {
+      gate,
+      pct: gateScore(flags.map((f) => ({ score: f.row[2], weight: f.weight }))),
+      confidence: expectedWeight > 0 ? suppliedWeight / expectedWeight : 0,
+      flagged: flags.length,
+      supplied,
+      expected,
+    },
+  };
+}
+
+/**
+ * Room health 0–100: the gates' headroom (1 − pct) averaged with each gate weighted by its
+ * confidence, so a gate with no supplied metrics neither helps nor hurts. Null when nothing was.
+ */
+function roomHealth(gates: GateScore[]): { score: number | null; confidence: number } {
+  const weight = gates.reduce((sum, g) => sum + g.confidence, 0);
+  const headroom = gates.reduce((sum, g) => sum + g.confidence * (1 - g.pct), 0);
+  return {
+    score: weight > 0 ? Math.round((headroom / weight) * 1000) / 10 : null,
+    confidence: gates.length ? weight / gates.length : 0,
+  };
+}
+
+function localizedReason(metric: string, direction: string, value: number, min: number, max: number, units: UnitPrefs): string {
+  const v = localizeMetric(metric, value, units);
+  const lo = localizeMetric(metric, min, units).value;
+  const hi = localizeMetric(metric, max, units).value;
+  return `${v.label} is ${direction} (${v.value} vs ${lo.toFixed(1)}–${hi.toFixed(1)})`;
 }
 
-function matchConditions(rules: GrowroomRules, intake: IntakePayload) {
-  const out: Array<{ condition: string; gate: string; message: string }> = [];
+const MAX_CONDITION_MATCHES = 5;
+
+/**
+ * Conditions whose `when` predicate holds for the intake, most specific first (more matched
+ * clauses). Rows repeated under one name report once; unparseable predicates are skipped here and
+ * reported by validateConditions at load.
+ */
+function matchConditions(
+  rules: GrowroomRules,
+  intake: IntakePayload,
+  targets: StageTargets | null,
+  trends?: Record<string, MetricTrend>
+): ConditionMatch[] {
+  const scope = conditionScope(intake, targets ?? {}, trends);
+  const seen = new Set<string>();
+  const out: Array<ConditionMatch & { score: number }> = [];
   for (const c of rules.conditions ?? []) {
-    if (!c.message) continue;
-    const gate = (c.gate || "ENV").toUpperCase();
-    const msg = c.message.toLowerCase();
-    if (msg.includes("vpd") && intake.vpdKpa != null && intake.vpdKpa > 1.5) {
-      out.push({ condition: c.condition, gate, message: c.message });
-    }
-    if (msg.includes("dryback") && intake.drybackPct24h != null && intake.drybackPct24h > 25) {
-      out.push({ condition: c.condition, gate, message: c.message });
+    if (!c.when || !c.message || seen.has(c.condition)) continue;
+    let result: ReturnType<typeof evaluateCondition>;
+    try {
+      result = evaluateCondition(compileCondition(c.when), scope);
+    } catch {
+      continue;
     }
+    if (result.matched !== true) continue;
+    seen.add(c.condition);
+    out.push({
+      condition: c.condition,
+      gate: (c.gate || "ENV").toUpperCase(),
+      message: c.message,
+      when: c.when,
+      clauses: result.clauses,
+      score: result.clauses.filter((r) => r.matched).length,
+    });
   }
-  return out.slice(0, 5);
+  return out
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CONDITION_MATCHES)
+    .map(({ score: _score, ...m }) => m);
 }
 
+/**
+ * Evaluate a canonical-unit intake; `units` only changes how reasons are worded. `trends` comes from
+ * evaluateGrowroomSeries and only feeds condition predicates.
+ */
 export function evaluateGrowroom(
   rules: GrowroomRules,
   intake: IntakePayload,
-  version = "growroom-engine-v1"
+  version = "growroom-engine-v1",
+  units?: UnitPrefs,
+  trends?: Record<string, MetricTrend>
 ): EngineEvaluateResult {
-  const env = gateFlagsFor(rules, "ENV", intake);
-  const root = gateFlagsFor(rules, "ROOT", intake);
-  const irr = gateFlagsFor(rules, "IRR", intake);
-
-  const maxScore = (rows: Top3Row[]) => (rows.length ? rows[0][2] : 0);
-  const envS = maxScore(env);
-  const rootS = maxScore(root);
-  const irrS = maxScore(irr);
-
-  const gatePct = [
-    { gate: "ENV", pct: envS },
-    { gate: "ROOT", pct: rootS },
-    { gate: "IRR", pct: irrS },
-  ];
-
-  const gateStatus = (["ENV", "ROOT", "IRR"] as const).map((g) => {
-    const rows = g === "ENV" ? env : g === "ROOT" ? root : irr;
-    const status =
-      rows.length === 0 ? "ok" : scoreToSeverity(rows[0][2]) === "high" ? "alert" : "warn";
-    return { gate: g, status };
+  const nutrient = resolveNutrientPlan(rules, {
+    profile: intake.profile,
+    stage: intake.stagePhase ?? intake.stage,
+    week: intake.week,
+    lineId: intake.nutrientLine,
+    reservoirL: intake.reservoirL,
+    reservoirEc: intake.reservoirEc,
+    reservoirPh: intake.reservoirPh,
+  });
+  const targets = resolveStageTargets(rules, {
+    stage: intake.stagePhase ?? intake.stage,
+    profile: intake.profile,
+    lightcycle: intake.lightcycle,
+    photoperiodH: intake.photoperiodH,
+    co2Mode: intake.co2Mode,
+    weekIndex: intake.weekIndex,
+  });
+  const gates = (["ENV", "ROOT", "IRR"] as const).map((g) => evaluateGate(rules, g, intake, units, nutrient, targets));
+  const [env, root, irr] = gates.map((g) => g.flags.slice(0, 3));
+  const gatePct = gates.map((g) => g.score);
+  const [envS, rootS, irrS] = gatePct.map((g) => g.pct);
+
+  const gateStatus = gatePct.map((g) => {
+    const status = g.flagged === 0 ? "ok" : scoreToSeverity(g.pct) === "high" ? "alert" : "warn";
+    return { gate: g.gate, status };
   });
 
-  const targets = stageTargetsFromProfile(rules, intake);
-  const observed = buildObserved(intake, targets);
-  const conditionMatches = matchConditions(rules, intake);
+  const observed = buildObserved(intake, targets ?? {});
+  const conditionMatches = matchConditions(rules, intake, targets, trends);
 
   return {
     ok: true,
@@ -248,6 +333,9 @@ export function evaluateGrowroom(
     top3ByGate: { ENV: env, ROOT: root, IRR: irr },
     scores: { env: envS, root: rootS, irr: irrS },
     gateStatus,
+    health: roomHealth(gatePct),
+    targets,
+    nutrient,
     observed,
     conditionMatches,
   };
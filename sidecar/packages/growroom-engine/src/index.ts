@@ -1,9 +1,53 @@
 export {
   evaluateGrowroom,
+  type ConditionMatch,
+  type ConditionRule,
   type EngineEvaluateResult,
   type GrowroomRules,
   type IntakePayload,
   type ObservedResult,
 } from "./evaluate.ts";
-export { buildObserved, stageTargetsFromProfile } from "./observed.ts";
+export {
+  compileCondition,
+  conditionScope,
+  evaluateCondition,
+  validateConditions,
+  CONDITION_METRICS,
+  TREND_METRICS,
+  TREND_STATS,
+  type ClauseResult,
+  type ConditionExpr,
+} from "./conditions.ts";
+export {
+  evaluateGrowroomSeries,
+  orderSamples,
+  summarizeSeries,
+  type EngineSeriesResult,
+  type IntakeSample,
+  type MetricTrend,
+  type SeriesSummary,
+} from "./trends.ts";
+export {
+  ecWindow,
+  resolveNutrientPlan,
+  type NutrientBottle,
+  type NutrientPlan,
+  type NutrientQuery,
+  type NutrientRules,
+} from "./nutrients.ts";
+export {
+  checkAgainstBatch,
+  planMix,
+  type BatchCheck,
+  type MixAddition,
+  type MixInput,
+  type MixPlan,
+} from "./mixing.ts";
+export {
+  resolveStageTargets,
+  type StageProfileRow,
+  type StageTargets,
+  type TargetQuery,
+} from "./targets.ts";
+export { buildObserved } from "./observed.ts";
 export { labelsToIntake, labelToKey, key2label } from "./labels.ts";
@@ -42,6 +42,9 @@ export const label2key: Record<string, string> = Object.fromEntries(
 
 export const labelAliases: Record<string, string> = {
   "Dryback last 24h (%)": "drybackPct24h",
+  "Canopy temp (°F)": "tempF",
+  "Reservoir temp (°F)": "reservoirTempF",
+  Container_L: "containerL",
 };
 
 export function labelToKey(label: string): string | undefined {
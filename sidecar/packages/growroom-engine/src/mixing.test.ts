@@ -0,0 +1,133 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { galToL, localizeUnits, resolveUnitPrefs } from "../../units/src/index.ts";
+import { checkAgainstBatch, planMix, type NutrientPlan } from "./index.ts";
+
+/** Two dose bottles, one range bottle and pH up, at 2.0 mS/cm; gallon-exact volumes keep ml round. */
+const plan: NutrientPlan = {
+  lineId: "test",
+  lineLabel: "Test line",
+  profile: "Athena Pro",
+  stageId: "mid_bloom",
+  phaseBlock: "flower",
+  week: 4,
+  weekSource: "intake",
+  stageWeeks: [1, 9],
+  bottles: [
+    { bottleId: "bloom", label: "Bloom", role: "dose", mlPerGal: 4, mlPerLitre: null, mlTotal: null },
+    { bottleId: "core", label: "Core", role: "dose", mlPerGal: 2, mlPerLitre: null, mlTotal: null },
+    { bottleId: "cleanse", label: "Cleanse", role: "range", mlPerGal: 1, mlPerGalMin: 0.5, mlPerGalMax: 1.5, mlPerLitre: null, mlTotal: null },
+    { bottleId: "phup", label: "pH Up", role: "ph-up", mlPerGal: null, mlPerLitre: null, mlTotal: null },
+  ],
+  reservoirL: null,
+  targetEc: 2,
+  minEc: 1.8,
+  maxEc: 2.2,
+  ppm500: 1000,
+  ppm700: 1400,
+  phMin: 5.8,
+  phMax: 6.2,
+  measured: {},
+  notes: [],
+};
+
+const TANK_L = galToL(10);
+const HALF_L = galToL(5);
+
+function ml(result: ReturnType<typeof planMix>): Record<string, number> {
+  return Object.fromEntries(result.additions.map((a) => [a.bottleId, a.ml]));
+}
+
+describe("planMix", () => {
+  it("mixes a fresh batch at label strength", () => {
+    const r = planMix({ plan, capacityL: TANK_L });
+    assert.equal(r.ok, true);
+    assert.equal(r.strength, 1);
+    assert.equal(r.drainL, 0);
+    assert.equal(r.addWaterL, 37.9);
+    assert.equal(r.finalVolumeL, 37.9);
+    assert.equal(r.expectedEc, 2);
+    assert.deepEqual(ml(r), { bloom: 40, core: 20, cleanse: 10 });
+    assert.deepEqual(r.notes, ["Adjust pH to 5.8–6.2 after all bottles are in."]);
+  });
+
+  it("strengthens the top-off when the remaining solution is too weak", () => {
+    const r = planMix({ plan, capacityL: TANK_L, remainingL: HALF_L, currentEc: 1 });
+    assert.equal(r.ok, true);
+    // 5 gal at 1.0 + 5 gal at 3.0 → 10 gal at 2.0
+    assert.equal(r.strength, 1.5);
+    assert.equal(r.drainL, 0);
+    assert.equal(r.addWaterL, 18.9);
+    assert.equal(r.expectedEc, 2);
+    // Range bottles follow the added water, not the strength.
+    assert.deepEqual(ml(r), { bloom: 30, core: 15, cleanse: 5 });
+    assert.deepEqual(
+      r.additions.map((a) => a.mlPerGal),
+      [6, 3, 1]
+    );
+  });
+
+  it("drains when the remaining solution is too strong to dilute in place", () => {
+    const r = planMix({ plan, capacityL: TANK_L, remainingL: HALF_L, currentEc: 5 });
+    assert.equal(r.ok, true);
+    // Keep 4 gal at 5.0 and add 6 gal of plain water → 10 gal at 2.0.
+    assert.equal(r.strength, 0);
+    assert.equal(r.drainL, 3.8);
+    assert.equal(r.addWaterL, 22.7);
+    assert.equal(r.finalVolumeL, 37.9);
+    assert.equal(r.expectedEc, 2);
+    assert.deepEqual(ml(r), { cleanse: 6 });
+    assert.match(r.notes[0]!, /too strong to top off; drain 3\.8 L/);
+  });
+
+  it("adds nothing to a full tank and flags an off-target EC", () => {
+    const onTarget = planMix({ plan, capacityL: TANK_L, remainingL: TANK_L, currentEc: 2.1 });
+    assert.equal(onTarget.ok, true);
+    assert.equal(onTarget.addWaterL, 0);
+    assert.deepEqual(onTarget.additions, []);
+    assert.equal(onTarget.expectedEc, 2.1);
+    assert.ok(!onTarget.notes.some((n) => n.startsWith("Tank is full")));
+
+    const high = planMix({ plan, capacityL: TANK_L, remainingL: TANK_L, currentEc: 2.6 });
+    assert.equal(high.strength, 0);
+    assert.equal(high.expectedEc, 2.6);
+    assert.equal(high.notes[0], "Tank is full; drain some solution before correcting its EC.");
+  });
+
+  it("accounts for fill water EC and rejects water at or above the target", () => {
+    const r = planMix({ plan, capacityL: TANK_L, sourceEc: 0.4 });
+    assert.equal(r.ok, true);
+    assert.equal(r.strength, 1);
+    assert.equal(r.expectedEc, 2);
+
+    const tooSalty = planMix({ plan, capacityL: TANK_L, sourceEc: 2 });
+    assert.equal(tooSalty.ok, false);
+    assert.equal(tooSalty.error, "fill water EC 2 is at or above the target EC 2");
+    assert.deepEqual(tooSalty.additions, []);
+  });
+
+  it("rejects a missing capacity or more solution than the tank holds", () => {
+    assert.equal(planMix({ plan, capacityL: 0 }).error, "capacityL must be > 0");
+    assert.match(planMix({ plan, capacityL: HALF_L, remainingL: TANK_L }).error!, /exceeds capacity/);
+  });
+});
+
+describe("checkAgainstBatch", () => {
+  it("grades a reading against the batch's expected EC window", () => {
+    const batch = { id: "b1", mixedAt: "2026-10-01T00:00:00.000Z", expectedEc: 2 };
+    assert.equal(checkAgainstBatch(batch, 2.1).status, "ok");
+    assert.equal(checkAgainstBatch(batch, 1.7).status, "low");
+    const high = checkAgainstBatch(batch, 2.5);
+    assert.equal(high.status, "high");
+    assert.equal(high.deltaEc, 0.5);
+  });
+
+  it("reports the difference on the caller's EC scale", () => {
+    const check = checkAgainstBatch({ id: "b1", mixedAt: "2026-10-01T00:00:00.000Z", expectedEc: 2 }, 2.5);
+    const ppm = localizeUnits({ batch: check }, resolveUnitPrefs({ ec: "ppm500" }));
+    assert.deepEqual(
+      { expectedEc: ppm.batch.expectedEc, measuredEc: ppm.batch.measuredEc, deltaEc: ppm.batch.deltaEc },
+      { expectedEc: 1000, measuredEc: 1250, deltaEc: 250 }
+    );
+  });
+});
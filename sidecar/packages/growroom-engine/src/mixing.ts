@@ -0,0 +1,170 @@
+import { lToGal } from "../../units/src/index.ts";
+import { ecWindow, type NutrientPlan } from "./nutrients.ts";
+
+export type MixInput = {
+  plan: NutrientPlan;
+  /** Full reservoir volume to mix up to. */
+  capacityL: number;
+  /** Solution already in the tank (0 or omitted for a fresh batch). */
+  remainingL?: number;
+  /** EC of the remaining solution; assumed on target when omitted. */
+  currentEc?: number;
+  currentPh?: number;
+  /** EC of the fill water (RO ≈ 0). */
+  sourceEc?: number;
+};
+
+export type MixAddition = {
+  bottleId: string;
+  label: string;
+  role: "dose" | "range";
+  ml: number;
+  mlPerGal: number;
+};
+
+export type MixPlan = {
+  ok: boolean;
+  error?: string;
+  capacityL: number;
+  remainingL: number;
+  /** Solution to dump before topping off when the remaining tank is too strong to dilute in place. */
+  drainL: number;
+  addWaterL: number;
+  finalVolumeL: number;
+  /** Nutrient strength of the added water relative to the schedule's full dose (1 = label rate). */
+  strength: number;
+  targetEc: number;
+  expectedEc: number;
+  minEc: number;
+  maxEc: number;
+  phMin: number;
+  phMax: number;
+  additions: MixAddition[];
+  notes: string[];
+};
+
+/** Top-offs stronger than this many label doses are flagged; salts may not dissolve evenly. */
+const MAX_STRENGTH = 2;
+
+function round(n: number, digits = 2): number {
+  return Number(n.toFixed(digits));
+}
+
+/**
+ * How much water and of each bottle to add to bring the tank to `capacityL` at the week's target EC.
+ * EC is treated as linear in concentration: a full label dose in fill water reads `targetEc`, and
+ * mixing volumes averages their EC. Range bottles (e.g. Cleanse) scale with the added water only.
+ */
+export function planMix(input: MixInput): MixPlan {
+  const { plan } = input;
+  const capacity = input.capacityL;
+  const remaining = Math.max(0, input.remainingL ?? 0);
+  const waterEc = Math.max(0, input.sourceEc ?? 0);
+  const target = plan.targetEc;
+  const current = input.currentEc ?? target;
+  const notes: string[] = [];
+  const base = {
+    capacityL: round(capacity, 1),
+    remainingL: round(remaining, 1),
+    targetEc: target,
+    ...ecWindow(target),
+    phMin: plan.phMin,
+    phMax: plan.phMax,
+  };
+  const fail = (error: string): MixPlan => ({
+    ok: false,
+    error,
+    ...base,
+    drainL: 0,
+    addWaterL: 0,
+    finalVolumeL: round(remaining, 1),
+    strength: 0,
+    expectedEc: current,
+    additions: [],
+    notes,
+  });
+
+  if (!(capacity > 0)) return fail("capacityL must be > 0");
+  if (remaining > capacity) return fail(`remaining ${round(remaining)} L exceeds capacity ${round(capacity)} L`);
+  if (target <= waterEc) return fail(`fill water EC ${waterEc} is at or above the target EC ${target}`);
+  if (input.currentEc == null && remaining > 0) notes.push("No EC for the remaining solution; assumed on target.");
+
+  let drain = 0;
+  let kept = remaining;
+  let water = capacity - remaining;
+  let strength: number;
+  if (water <= 0) {
+    if (Math.abs(current - target) > base.maxEc - target) {
+      notes.push("Tank is full; drain some solution before correcting its EC.");
+    }
+    strength = 0;
+  } else {
+    // target·V = current·kept + (waterEc + s·(target − waterEc))·water, solved for s.
+    strength = ((target * capacity - current * kept) / water - waterEc) / (target - waterEc);
+    if (strength < 0) {
+      // Even plain water cannot dilute the remaining solution down to target: dump some first.
+      kept = ((target - waterEc) * capacity) / (current - waterEc);
+      drain = remaining - kept;
+      water = capacity - kept;
+      strength = 0;
+      notes.push(`Remaining solution is too strong to top off; drain ${round(drain, 1)} L, then top off without base nutrients.`);
+    } else if (strength > MAX_STRENGTH) {
+      notes.push(`Top-off is ${round(strength, 1)}× label strength; consider draining and mixing a fresh batch.`);
+    }
+  }
+
+  const gallons = lToGal(Math.max(0, water));
+  const additions: MixAddition[] = [];
+  for (const b of plan.bottles) {
+    if (b.role === "ph-up" || b.mlPerGal == null) continue;
+    const perGal = b.role === "dose" ? b.mlPerGal * strength : b.mlPerGal;
+    const ml = round(perGal * gallons, 1);
+    if (ml > 0) additions.push({ bottleId: b.bottleId, label: b.label, role: b.role, ml, mlPerGal: round(perGal) });
+  }
+
+  const finalVolume = kept + Math.max(0, water);
+  const expectedEc =
+    finalVolume > 0 ? (current * kept + (waterEc + strength * (target - waterEc)) * Math.max(0, water)) / finalVolume : 0;
+  if (input.currentPh != null && (input.currentPh < plan.phMin || input.currentPh > plan.phMax)) {
+    notes.push(`Remaining pH ${input.currentPh} is outside ${plan.phMin}–${plan.phMax}; re-check pH after mixing.`);
+  }
+  notes.push(`Adjust pH to ${plan.phMin}–${plan.phMax} after all bottles are in.`);
+
+  return {
+    ok: true,
+    ...base,
+    drainL: round(drain, 1),
+    addWaterL: round(Math.max(0, water), 1),
+    finalVolumeL: round(finalVolume, 1),
+    strength: round(strength, 3),
+    expectedEc: round(expectedEc),
+    additions,
+    notes,
+  };
+}
+
+export type BatchCheck = {
+  batchId: string;
+  mixedAt: string;
+  expectedEc: number;
+  measuredEc: number;
+  /** measuredEc − expectedEc, in mS/cm like the other EC fields. */
+  deltaEc: number;
+  status: "low" | "ok" | "high";
+};
+
+/** Compare a reservoir EC reading with the batch that was mixed into the tank. */
+export function checkAgainstBatch(
+  batch: { id: string; mixedAt: string; expectedEc: number },
+  measuredEc: number
+): BatchCheck {
+  const { minEc, maxEc } = ecWindow(batch.expectedEc);
+  return {
+    batchId: batch.id,
+    mixedAt: batch.mixedAt,
+    expectedEc: batch.expectedEc,
+    measuredEc,
+    deltaEc: round(measuredEc - batch.expectedEc),
+    status: measuredEc < minEc ? "low" : measuredEc > maxEc ? "high" : "ok",
+  };
+}
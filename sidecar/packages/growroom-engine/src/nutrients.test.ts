@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { galToL } from "../../units/src/index.ts";
+import { ecWindow, evaluateGrowroom, resolveNutrientPlan, type GrowroomRules } from "./index.ts";
+
+const RULES_PATH = join(dirname(fileURLToPath(import.meta.url)), "..", "..", "..", "srv", "rules", "growroom-rules.json");
+const rules = JSON.parse(readFileSync(RULES_PATH, "utf8")) as GrowroomRules;
+const LINE = "athena_pro_fade_imperial";
+
+describe("resolveNutrientPlan", () => {
+  it("resolves the profile's default line and the stage's default week", () => {
+    const plan = resolveNutrientPlan(rules, { profile: "Athena Pro", stage: "Mid Bloom" })!;
+    assert.equal(plan.lineId, LINE);
+    assert.equal(plan.stageId, "mid_bloom");
+    assert.equal(plan.phaseBlock, "flower");
+    assert.equal(plan.week, 4);
+    assert.equal(plan.weekSource, "stage-default");
+    assert.deepEqual(plan.stageWeeks, [3, 6]);
+    assert.deepEqual(plan.notes, []);
+
+    assert.equal(resolveNutrientPlan(rules, { profile: "Athena Pro" }), null);
+    assert.equal(resolveNutrientPlan(rules, { profile: "Athena Pro", stage: "Mid Bloom", lineId: "nope" }), null);
+    assert.equal(resolveNutrientPlan(rules, { profile: "Unknown SOP", stage: "Mid Bloom" }), null);
+  });
+
+  it("takes the intake week, noting one outside the stage's block", () => {
+    const inBlock = resolveNutrientPlan(rules, { profile: "Athena Pro", stage: "Mid Bloom", week: 5 })!;
+    assert.equal(inBlock.week, 5);
+    assert.equal(inBlock.weekSource, "intake");
+    assert.deepEqual(inBlock.notes, []);
+
+    const early = resolveNutrientPlan(rules, { profile: "Athena Pro", stage: "mid-bloom", week: 2 })!;
+    assert.equal(early.week, 2);
+    assert.equal(early.weekSource, "intake");
+    assert.deepEqual(early.notes, ["Week 2 is outside mid-bloom (flower weeks 3–6)."]);
+
+    const missing = resolveNutrientPlan(rules, { profile: "Athena Pro", stage: "Mid Bloom", week: 12 })!;
+    assert.equal(missing.week, 4);
+    assert.equal(missing.weekSource, "stage-default");
+    assert.deepEqual(missing.notes, ["No flower week 12 in Athena Pro – Fade (Imperial); using week 4."]);
+  });
+
+  it("lists dose, range and pH-up bottles and sizes them for the reservoir", () => {
+    const plan = resolveNutrientPlan(rules, { profile: "Athena Pro", stage: "Mid Bloom", week: 4, reservoirL: galToL(10) })!;
+    const byId = Object.fromEntries(plan.bottles.map((b) => [b.bottleId, b]));
+    assert.deepEqual(
+      plan.bottles.map((b) => [b.bottleId, b.role]),
+      [
+        ["balance", "ph-up"],
+        ["pro_balance", "ph-up"],
+        ["bloom", "dose"],
+        ["core", "dose"],
+        ["cleanse", "range"],
+      ]
+    );
+    assert.equal(byId.bloom!.mlPerGal, 32);
+    assert.equal(byId.bloom!.mlTotal, 320);
+    assert.equal(byId.core!.mlTotal, 190);
+    // Range bottles dose their midpoint.
+    assert.equal(byId.cleanse!.mlPerGalMin, 2);
+    assert.equal(byId.cleanse!.mlPerGalMax, 5);
+    assert.equal(byId.cleanse!.mlPerGal, 3.5);
+    assert.equal(byId.cleanse!.mlTotal, 35);
+    assert.equal(byId.balance!.mlTotal, null);
+    assert.equal(byId.balance!.note, "Use as pH up");
+
+    const unsized = resolveNutrientPlan(rules, { profile: "Athena Pro", stage: "Mid Bloom", week: 4 })!;
+    assert.equal(unsized.reservoirL, null);
+    assert.ok(unsized.bottles.every((b) => b.mlTotal == null));
+  });
+
+  it("grades measured reservoir EC and pH against the week's window", () => {
+    const plan = resolveNutrientPlan(rules, { profile: "Athena Pro", stage: "Mid Bloom", reservoirEc: 3.5, reservoirPh: 6 })!;
+    assert.equal(plan.targetEc, 3);
+    assert.deepEqual([plan.minEc, plan.maxEc], [2.7, 3.3]);
+    assert.deepEqual(plan.measured.reservoirEc, { status: "high", deltaEc: 0.5 });
+    assert.deepEqual(plan.measured.reservoirPh, { status: "ok", deltaPh: 0 });
+  });
+
+  it("uses the flush week's EC 0.1 in place of the flat IRR band", () => {
+    const plan = resolveNutrientPlan(rules, { profile: "Athena Pro", stage: "Flush" })!;
+    assert.equal(plan.phaseBlock, "flush");
+    assert.equal(plan.targetEc, 0.1);
+    assert.deepEqual({ minEc: plan.minEc, maxEc: plan.maxEc }, ecWindow(0.1));
+    assert.deepEqual(
+      plan.bottles.map((b) => [b.bottleId, b.mlPerGal]),
+      [["cleanse", 10]]
+    );
+
+    // 1.0 mS/cm sits inside the rules file's flat band but far above the flush window.
+    const result = evaluateGrowroom(rules, { profile: "Athena Pro", stage: "Flush", reservoirEc: 1 });
+    assert.equal(result.nutrient!.targetEc, 0.1);
+    assert.deepEqual(result.top3ByGate.IRR[0]!.slice(0, 2), [
+      "Reservoir EC (mS/cm)",
+      "Reservoir EC (mS/cm) is high (1 vs 0.0–0.3)",
+    ]);
+  });
+});
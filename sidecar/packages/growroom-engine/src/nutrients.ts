@@ -0,0 +1,249 @@
+import { lToGal, mlPerGalToMlPerL } from "../../units/src/index.ts";
+
+export type NutrientLine = {
+  line_id: string;
+  sop_profile: string;
+  label: string;
+  brand?: string;
+  enabled?: boolean;
+  is_default_for_profile?: boolean;
+};
+
+export type NutrientStageMapping = {
+  line_id: string;
+  stage_id: string;
+  phase_block: string;
+  week_index_start: number;
+  week_index_end: number;
+  default_week_index: number;
+  active?: boolean;
+};
+
+export type NutrientScheduleRow = {
+  line_id: string;
+  phase_block: string;
+  week_index: number;
+  bottle_id: string;
+  bottle_label: string;
+  ml_per_gal: number | null;
+  cleanse_min_ml_per_gal: number | null;
+  cleanse_max_ml_per_gal: number | null;
+  ec_target: number | null;
+  ppm_500: number | null;
+  ppm_700: number | null;
+  ph_min: number | null;
+  ph_max: number | null;
+  notes: string | null;
+};
+
+export type NutrientRules = {
+  nutrientLines?: NutrientLine[];
+  nutrientStageMapping?: NutrientStageMapping[];
+  nutrientSchedule?: NutrientScheduleRow[];
+};
+
+export type NutrientQuery = {
+  profile?: string;
+  stage?: string;
+  /** Week within the stage's phase block (flower week 1–9); defaults to the stage's default week. */
+  week?: number;
+  lineId?: string;
+  reservoirL?: number;
+  reservoirEc?: number;
+  reservoirPh?: number;
+};
+
+export type NutrientBottle = {
+  bottleId: string;
+  label: string;
+  /** "dose": fixed ml/gal; "range": dose anywhere in mlPerGalMin–Max; "ph-up": used only to raise pH. */
+  role: "dose" | "range" | "ph-up";
+  mlPerGal: number | null;
+  mlPerGalMin?: number;
+  mlPerGalMax?: number;
+  mlPerLitre: number | null;
+  /** ml for the whole reservoir (range bottles: the midpoint); null without a reservoir size. */
+  mlTotal: number | null;
+  note?: string;
+};
+
+export type NutrientReading = {
+  status: "low" | "ok" | "high";
+};
+
+/** `deltaEc` is reading minus target in mS/cm, so localizeUnits converts it with the other EC keys. */
+export type EcReading = NutrientReading & { deltaEc: number };
+export type PhReading = NutrientReading & { deltaPh: number };
+
+export type NutrientPlan = {
+  lineId: string;
+  lineLabel: string;
+  profile: string;
+  stageId: string;
+  phaseBlock: string;
+  week: number;
+  weekSource: "intake" | "stage-default";
+  stageWeeks: [number, number];
+  bottles: NutrientBottle[];
+  reservoirL: number | null;
+  targetEc: number;
+  minEc: number;
+  maxEc: number;
+  ppm500: number | null;
+  ppm700: number | null;
+  phMin: number;
+  phMax: number;
+  measured: { reservoirEc?: EcReading; reservoirPh?: PhReading };
+  notes: string[];
+};
+
+/** Feed EC window around the schedule's target: ±EC_TOL_FRAC, never narrower than ±EC_TOL_MIN mS/cm. */
+const EC_TOL_FRAC = 0.1;
+const EC_TOL_MIN = 0.2;
+
+function norm(s: unknown): string {
+  return String(s ?? "").toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+function stageId(stage: string): string {
+  return stage.trim().toLowerCase().replace(/[\s-]+/g, "_");
+}
+
+function round(n: number, digits = 2): number {
+  return Number(n.toFixed(digits));
+}
+
+/** "Fade_optional_W7_9_cultivar_dependent" → "Fade optional W7 9 cultivar dependent". */
+function noteText(note: string | null): string | undefined {
+  return note ? note.replace(/_/g, " ") : undefined;
+}
+
+/** Acceptable feed EC around a target, in mS/cm. */
+export function ecWindow(targetEc: number): { minEc: number; maxEc: number } {
+  const tol = Math.max(targetEc * EC_TOL_FRAC, EC_TOL_MIN);
+  return { minEc: round(Math.max(0, targetEc - tol)), maxEc: round(targetEc + tol) };
+}
+
+function finite(value: number | undefined): value is number {
+  return value != null && Number.isFinite(value);
+}
+
+function grade(value: number, min: number, max: number): NutrientReading["status"] {
+  return value < min ? "low" : value > max ? "high" : "ok";
+}
+
+/** Explicit line, else the profile's enabled default line, else its first enabled line. */
+function resolveLine(rules: NutrientRules, q: NutrientQuery): NutrientLine | null {
+  const lines = (rules.nutrientLines ?? []).filter((l) => l.enabled !== false);
+  if (q.lineId) return lines.find((l) => l.line_id === q.lineId) ?? null;
+  const forProfile = lines.filter((l) => norm(l.sop_profile) === norm(q.profile));
+  return forProfile.find((l) => l.is_default_for_profile) ?? forProfile[0] ?? null;
+}
+
+/**
+ * Active nutrient line, stage week and bottle mix for a room, with the feed EC/pH window and the
+ * measured reservoir compared against it. Null when no line or stage mapping applies.
+ */
+export function resolveNutrientPlan(rules: NutrientRules, q: NutrientQuery): NutrientPlan | null {
+  if (!q.stage) return null;
+  const line = resolveLine(rules, q);
+  if (!line) return null;
+  const sid = stageId(q.stage);
+  const mapping = (rules.nutrientStageMapping ?? []).find(
+    (m) => m.line_id === line.line_id && m.stage_id === sid && m.active !== false
+  );
+  if (!mapping) return null;
+
+  const notes: string[] = [];
+  const rowsFor = (week: number) =>
+    (rules.nutrientSchedule ?? []).filter(
+      (r) => r.line_id === line.line_id && r.phase_block === mapping.phase_block && r.week_index === week
+    );
+
+  let week = mapping.default_week_index;
+  let weekSource: NutrientPlan["weekSource"] = "stage-default";
+  const asked = q.week != null && Number.isFinite(q.week) ? Math.round(q.week) : null;
+  if (asked != null) {
+    if (rowsFor(asked).length) {
+      week = asked;
+      weekSource = "intake";
+      if (asked < mapping.week_index_start || asked > mapping.week_index_end) {
+        notes.push(`Week ${asked} is outside ${q.stage} (${mapping.phase_block} weeks ${mapping.week_index_start}–${mapping.week_index_end}).`);
+      }
+    } else {
+      notes.push(`No ${mapping.phase_block} week ${asked} in ${line.label}; using week ${week}.`);
+    }
+  }
+
+  const rows = rowsFor(week);
+  if (!rows.length) return null;
+  const head = rows.find((r) => r.ec_target != null) ?? rows[0]!;
+  const targetEc = head.ec_target ?? 0;
+  const { minEc, maxEc } = ecWindow(targetEc);
+  const phMin = head.ph_min ?? 5.8;
+  const phMax = head.ph_max ?? 6.2;
+  const gallons = q.reservoirL != null && q.reservoirL > 0 ? lToGal(q.reservoirL) : null;
+
+  const bottles: NutrientBottle[] = [];
+  for (const r of rows) {
+    const note = noteText(r.notes);
+    const total = (mlPerGal: number) => (gallons != null ? round(mlPerGal * gallons, 1) : null);
+    if (r.ml_per_gal != null) {
+      bottles.push({
+        bottleId: r.bottle_id,
+        label: r.bottle_label,
+        role: "dose",
+        mlPerGal: r.ml_per_gal,
+        mlPerLitre: round(mlPerGalToMlPerL(r.ml_per_gal)),
+        mlTotal: total(r.ml_per_gal),
+        note,
+      });
+    } else if (r.cleanse_min_ml_per_gal != null || r.cleanse_max_ml_per_gal != null) {
+      const lo = r.cleanse_min_ml_per_gal ?? r.cleanse_max_ml_per_gal!;
+      const hi = r.cleanse_max_ml_per_gal ?? lo;
+      const mid = (lo + hi) / 2;
+      bottles.push({
+        bottleId: r.bottle_id,
+        label: r.bottle_label,
+        role: "range",
+        mlPerGal: round(mid),
+        mlPerGalMin: lo,
+        mlPerGalMax: hi,
+        mlPerLitre: round(mlPerGalToMlPerL(mid)),
+        mlTotal: total(mid),
+        note,
+      });
+    } else if (/ph_up/i.test(r.notes ?? "")) {
+      bottles.push({ bottleId: r.bottle_id, label: r.bottle_label, role: "ph-up", mlPerGal: null, mlPerLitre: null, mlTotal: null, note });
+    }
+  }
+
+  return {
+    lineId: line.line_id,
+    lineLabel: line.label,
+    profile: line.sop_profile,
+    stageId: sid,
+    phaseBlock: mapping.phase_block,
+    week,
+    weekSource,
+    stageWeeks: [mapping.week_index_start, mapping.week_index_end],
+    bottles,
+    reservoirL: q.reservoirL != null && q.reservoirL > 0 ? q.reservoirL : null,
+    targetEc,
+    minEc,
+    maxEc,
+    ppm500: head.ppm_500,
+    ppm700: head.ppm_700,
+    phMin,
+    phMax,
+    measured: {
+      reservoirEc: finite(q.reservoirEc)
+        ? { status: grade(q.reservoirEc, minEc, maxEc), deltaEc: round(q.reservoirEc - targetEc) }
+        : undefined,
+      reservoirPh: finite(q.reservoirPh)
+        ? { status: grade(q.reservoirPh, phMin, phMax), deltaPh: round(q.reservoirPh - (phMin + phMax) / 2) }
+        : undefined,
+    },
+    notes,
+  };
+}
@@ -15,7 +15,7 @@ function num(v: unknown): number | null {
 /** Compare intake to stage-profile targets (simplified from d25eea3 observedFromIntakeAndTargets). */
 export function buildObserved(
   intake: IntakePayload,
-  targets: Record<string, number | null | undefined>
+  targets: Record<string, unknown>
 ): ObservedResult {
   const eps = { vpd: 0.03, dli: 0.5, co2: 30, fc: 1, start: 1, runoff: 0.5, events: 0.5, minutes: 1 };
 
@@ -72,45 +72,3 @@ export function buildObserved(
 
   return { level, count, drivers, notes };
 }
-
-export function stageTargetsFromProfile(
-  rules: { stageProfiles: Array<Record<string, unknown>> },
-  intake: IntakePayload
-): Record<string, number | null> {
-  const stage = (intake.stagePhase ?? intake.stage ?? "").toLowerCase();
-  const sop = (intake.profile ?? "sharkmousefarms").toLowerCase();
-  const lc = (intake.lightcycle ?? "day").toLowerCase();
-  let profile: Record<string, unknown> | null = null;
-  for (const p of rules.stageProfiles) {
-    if (
-      String(p.phase ?? "").toLowerCase() === stage &&
-      String(p.key ?? "").toLowerCase().includes(sop) &&
-      String(p.lightcycle ?? "").toLowerCase() === lc
-    ) {
-      profile = p;
-      break;
-    }
-  }
-  if (!profile) {
-    for (const p of rules.stageProfiles) {
-      if (String(p.phase ?? "").toLowerCase() === stage && String(p.key ?? "").toLowerCase().includes(sop)) {
-        profile = p;
-        break;
-      }
-    }
-  }
-  return {
-    vpdKpa: num(profile?.vpd_air_kpa),
-    dliMol: null,
-    co2: num(profile?.co2_ppm),
-    fc_vwc: null,
-    targetAtFirst: null,
-    runoffPct: null,
-    p1Events: null,
-    p2Events: null,
-    p1IntervalMin: null,
-    p2IntervalMin: null,
-    tempC: num(profile?.tair_c),
-    rh: num(profile?.rh_percent),
-  };
-}
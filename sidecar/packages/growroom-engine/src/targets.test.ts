@@ -0,0 +1,114 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { resolveStageTargets, type StageProfileRow } from "./index.ts";
+
+function row(phase: string, photoperiod: number, lc: "Day" | "Night", co2: "co2" | "no_co2", sop: string, tair: number, extra: Partial<StageProfileRow> = {}): StageProfileRow {
+  return {
+    key: `${phase}|${photoperiod}|${lc.toLowerCase()}|${co2}|${sop}`,
+    phase,
+    photoperiod_h: photoperiod,
+    lightcycle: lc,
+    co2_mode: co2,
+    tair_c: tair,
+    rh_percent: 50,
+    vpd_air_kpa: 1.4,
+    ppfd_umol: lc === "Day" ? 1000 : 0,
+    co2_ppm: co2 === "co2" ? 1200 : 450,
+    dli_mol: 43.2,
+    ...extra,
+  };
+}
+
+/** Mid bloom (week 7) and late bloom (week 10) rows for the default SOP plus one Athena row. */
+const rules = {
+  stageProfiles: [
+    row("mid bloom", 12, "Day", "no_co2", "sharkmousefarms", 25),
+    row("mid bloom", 12, "Day", "co2", "sharkmousefarms", 27),
+    row("mid bloom", 11, "Day", "co2", "sharkmousefarms", 28),
+    row("mid bloom", 12, "Night", "co2", "sharkmousefarms", 21, { rh_percent: 45 }),
+    row("late bloom", 12, "Day", "co2", "sharkmousefarms", 24, { rh_percent: 41, co2_ppm: 900 }),
+    row("mid bloom", 12, "Day", "co2", "athena pro", 26),
+    // Substrate rows share the table but are not climate rows.
+    row("mid bloom", 1, "Day", "co2", "sharkmousefarms", 3, { lightcycle: "coco" }),
+  ],
+};
+
+describe("resolveStageTargets", () => {
+  it("prefers the row matching both photoperiod and CO2 mode, photoperiod first", () => {
+    const both = resolveStageTargets(rules, { stage: "Mid Bloom", photoperiodH: 12, co2Mode: "enriched" })!;
+    assert.equal(both.key, "mid bloom|12|day|co2|sharkmousefarms");
+    assert.deepEqual(both.matched, { profile: true, photoperiod: true, co2Mode: true });
+    assert.equal(both.tempC, 27);
+
+    const ambient = resolveStageTargets(rules, { stage: "mid_bloom", photoperiodH: 12, co2Mode: "ambient" })!;
+    assert.equal(ambient.key, "mid bloom|12|day|no_co2|sharkmousefarms");
+
+    // An 11 h CO2 room: the photoperiod match outweighs the first row's CO2 miss.
+    const eleven = resolveStageTargets(rules, { stage: "mid bloom", photoperiodH: 11, co2Mode: "no co2" })!;
+    assert.equal(eleven.key, "mid bloom|11|day|co2|sharkmousefarms");
+    assert.deepEqual(eleven.matched, { profile: true, photoperiod: true, co2Mode: false });
+
+    const open = resolveStageTargets(rules, { stage: "mid bloom" })!;
+    assert.equal(open.key, "mid bloom|12|day|no_co2|sharkmousefarms");
+    assert.deepEqual(open.matched, { profile: true, photoperiod: null, co2Mode: null });
+  });
+
+  it("uses the query's SOP and falls back to the default SOP for the rest", () => {
+    const athena = resolveStageTargets(rules, { stage: "Mid Bloom", profile: "Athena Pro" })!;
+    assert.equal(athena.profile, "athena pro");
+    assert.equal(athena.matched.profile, true);
+    assert.equal(athena.tempC, 26);
+
+    const unknown = resolveStageTargets(rules, { stage: "Mid Bloom", profile: "My SOP", co2Mode: "co2" })!;
+    assert.equal(unknown.profile, "sharkmousefarms");
+    assert.equal(unknown.matched.profile, false);
+    assert.equal(unknown.tempC, 27);
+
+    assert.equal(resolveStageTargets(rules, { stage: "Flush" }), null);
+    assert.equal(resolveStageTargets(rules, {}), null);
+  });
+
+  it("blends toward the next phase between their first weeks", () => {
+    const q = { stage: "Mid Bloom", photoperiodH: 12, co2Mode: "co2" };
+    const start = resolveStageTargets(rules, { ...q, weekIndex: 7 })!;
+    assert.equal(start.blend, null);
+    assert.equal(start.tempC, 27);
+
+    const wk8 = resolveStageTargets(rules, { ...q, weekIndex: 8 })!;
+    assert.deepEqual(wk8.blend, { phase: "late bloom", key: "late bloom|12|day|co2|sharkmousefarms", t: 0.333 });
+    assert.equal(wk8.tempC, 26);
+    assert.equal(wk8.rh, 47);
+    assert.equal(wk8.co2, 1100);
+    assert.equal(wk8.dliMol, 43.2);
+
+    // With no stage the week picks the phase.
+    const byWeek = resolveStageTargets(rules, { weekIndex: 7.5, photoperiodH: 12, co2Mode: "co2" })!;
+    assert.equal(byWeek.phase, "mid bloom");
+    assert.equal(byWeek.blend!.t, 0.167);
+  });
+
+  it("returns the night row's targets for a lights-off query", () => {
+    const night = resolveStageTargets(rules, { stage: "Mid Bloom", lightcycle: "off" })!;
+    assert.equal(night.lightcycle, "night");
+    assert.equal(night.key, "mid bloom|12|night|co2|sharkmousefarms");
+    assert.equal(night.tempC, 21);
+    assert.equal(night.rh, 45);
+    assert.equal(night.ppfd, 0);
+    assert.equal(resolveStageTargets(rules, { stage: "Mid Bloom", lightcycle: "day" })!.lightcycle, "day");
+  });
+
+  it("fills dliMol from the row and leaves missing values null", () => {
+    const t = resolveStageTargets(rules, { stage: "Mid Bloom" })!;
+    assert.equal(t.dliMol, 43.2);
+    assert.equal(t.vpdKpa, 1.4);
+    assert.equal(t.ppfd, 1000);
+
+    const sparse = resolveStageTargets(
+      { stageProfiles: [row("late bloom", 12, "Day", "co2", "sharkmousefarms", 24, { dli_mol: undefined, rh_percent: undefined })] },
+      { stage: "Late Bloom" }
+    )!;
+    assert.equal(sparse.dliMol, null);
+    assert.equal(sparse.rh, null);
+    assert.equal(sparse.tempC, 24);
+  });
+});
@@ -0,0 +1,175 @@
+import { STAGE_WEEK_ANCHORS, stageFromWeekIndex } from "../../irr-physics/src/index.ts";
+
+/** One stageProfiles row; climate rows are keyed `phase|photoperiod_h|lightcycle|co2_mode|sop`. */
+export type StageProfileRow = {
+  key?: string;
+  phase?: string;
+  lightcycle?: string;
+  photoperiod_h?: number;
+  co2_mode?: string;
+  tair_c?: number;
+  rh_percent?: number;
+  vpd_air_kpa?: number;
+  ppfd_umol?: number;
+  co2_ppm?: number;
+  dli_mol?: number;
+};
+
+export type TargetQuery = {
+  stage?: string;
+  /** SOP profile ("Athena Pro", "SharkMouseFarms", …); DEFAULT_SOP when omitted or unknown. */
+  profile?: string;
+  lightcycle?: string;
+  photoperiodH?: number;
+  co2Mode?: string;
+  /** Crop week (1–13); between two phases' first weeks the targets are interpolated. */
+  weekIndex?: number;
+};
+
+export type StageTargets = {
+  phase: string;
+  lightcycle: "day" | "night";
+  /** SOP of the row used; differs from the query when it fell back to DEFAULT_SOP. */
+  profile: string;
+  key: string;
+  /** Next phase the targets were blended toward, with its weight `t` (0–1). */
+  blend: { phase: string; key: string; t: number } | null;
+  /** Whether the row agrees with each query facet; null when the query left it open. */
+  matched: { profile: boolean; photoperiod: boolean | null; co2Mode: boolean | null };
+  tempC: number | null;
+  rh: number | null;
+  vpdKpa: number | null;
+  ppfd: number | null;
+  dliMol: number | null;
+  co2: number | null;
+};
+
+type TargetField = "tempC" | "rh" | "vpdKpa" | "ppfd" | "dliMol" | "co2";
+
+const TARGET_FIELDS: Record<TargetField, keyof StageProfileRow> = {
+  tempC: "tair_c",
+  rh: "rh_percent",
+  vpdKpa: "vpd_air_kpa",
+  ppfd: "ppfd_umol",
+  dliMol: "dli_mol",
+  co2: "co2_ppm",
+};
+
+const DEFAULT_SOP = "sharkmousefarms";
+/** Phases in crop order. */
+const PHASES = Object.keys(STAGE_WEEK_ANCHORS);
+
+function num(v: unknown): number | null {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function phaseText(s: unknown): string {
+  return String(s ?? "").toLowerCase().replace(/[\s_-]+/g, " ").trim();
+}
+
+/** "Mid Bloom" / "mid_bloom" / "mid-bloom wk 5" → "mid bloom". */
+function phaseOf(stage?: string): string | null {
+  const s = phaseText(stage);
+  if (!s) return null;
+  return PHASES.find((p) => p === s) ?? PHASES.find((p) => s.includes(p)) ?? null;
+}
+
+function sopKey(s: unknown): string {
+  return String(s ?? "").toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+/** Rows spell the modes "co2" / "no_co2"; accept "no co2", "ambient", "enriched" and the like. */
+function co2Key(mode?: string): string | null {
+  const k = sopKey(mode);
+  if (!k) return null;
+  return /^(no|non|ambient|off)/.test(k) ? "no_co2" : "co2";
+}
+
+function lightcycleOf(lc?: string): "day" | "night" {
+  return /^(night|off|dark)/.test((lc ?? "").trim().toLowerCase()) ? "night" : "day";
+}
+
+type RowPick = { row: StageProfileRow; matched: StageTargets["matched"] };
+
+/**
+ * Closest climate row for one phase and lightcycle: the query's SOP (else DEFAULT_SOP), then the
+ * same photoperiod, then the same CO2 mode; ties keep the rules file order.
+ */
+function pickRow(rows: StageProfileRow[], phase: string, lc: "day" | "night", q: TargetQuery): RowPick | null {
+  const climate = rows.filter((p) => phaseText(p.phase) === phase && p.lightcycle?.toLowerCase() === lc);
+  const sopOf = (p: StageProfileRow) => sopKey(p.key?.split("|").pop());
+  const wanted = sopKey(q.profile) || DEFAULT_SOP;
+  let pool = climate.filter((p) => sopOf(p) === wanted);
+  const profileMatched = pool.length > 0;
+  if (!profileMatched) pool = climate.filter((p) => sopOf(p) === DEFAULT_SOP);
+
+  const photoperiod = num(q.photoperiodH);
+  const co2 = co2Key(q.co2Mode);
+  let best: StageProfileRow | null = null;
+  let bestScore = -1;
+  for (const p of pool) {
+    const score = (photoperiod != null && p.photoperiod_h === photoperiod ? 2 : 0) + (co2 && p.co2_mode?.toLowerCase() === co2 ? 1 : 0);
+    if (score > bestScore) {
+      best = p;
+      bestScore = score;
+    }
+  }
+  if (!best) return null;
+  return {
+    row: best,
+    matched: {
+      profile: profileMatched,
+      photoperiod: photoperiod != null ? best.photoperiod_h === photoperiod : null,
+      co2Mode: co2 ? best.co2_mode?.toLowerCase() === co2 : null,
+    },
+  };
+}
+
+/**
+ * SOP climate targets (temp, RH, VPD, PPFD, DLI, CO2) for a stage. The phase comes from `stage`, or
+ * from `weekIndex` when no stage is given; a `weekIndex` past the phase's first week blends linearly
+ * toward the next phase, reaching it at that phase's first week (see STAGE_WEEK_ANCHORS).
+ */
+export function resolveStageTargets(
+  rules: { stageProfiles?: StageProfileRow[] },
+  q: TargetQuery
+): StageTargets | null {
+  const week = num(q.weekIndex);
+  const phase = phaseOf(q.stage) ?? (week != null ? stageFromWeekIndex(week) : null);
+  if (!phase) return null;
+  const rows = rules.stageProfiles ?? [];
+  const lc = lightcycleOf(q.lightcycle);
+  const base = pickRow(rows, phase, lc, q);
+  if (!base) return null;
+
+  let next: { phase: string; pick: RowPick; t: number } | null = null;
+  const nextPhase = PHASES[PHASES.indexOf(phase) + 1];
+  if (week != null && nextPhase) {
+    const from = STAGE_WEEK_ANCHORS[phase]!;
+    const to = STAGE_WEEK_ANCHORS[nextPhase]!;
+    const pick = week > from && week < to ? pickRow(rows, nextPhase, lc, q) : null;
+    if (pick) next = { phase: nextPhase, pick, t: (week - from) / (to - from) };
+  }
+
+  const value = (field: TargetField): number | null => {
+    const a = num(base.row[TARGET_FIELDS[field]]);
+    const b = next ? num(next.pick.row[TARGET_FIELDS[field]]) : null;
+    return a != null && b != null ? a + (b - a) * next!.t : a;
+  };
+  return {
+    phase,
+    lightcycle: lc,
+    profile: base.row.key?.split("|").pop() ?? DEFAULT_SOP,
+    key: base.row.key ?? "",
+    blend: next ? { phase: next.phase, key: next.pick.row.key ?? "", t: Number(next.t.toFixed(3)) } : null,
+    matched: base.matched,
+    tempC: value("tempC"),
+    rh: value("rh"),
+    vpdKpa: value("vpdKpa"),
+    ppfd: value("ppfd"),
+    dliMol: value("dliMol"),
+    co2: value("co2"),
+  };
+}
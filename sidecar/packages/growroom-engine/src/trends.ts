@@ -0,0 +1,116 @@
+import type { UnitPrefs } from "../../units/src/index.ts";
+import { conditionScope, TREND_METRICS } from "./conditions.ts";
+import { evaluateGrowroom, type EngineEvaluateResult, type GrowroomRules, type IntakePayload } from "./evaluate.ts";
+
+/** One intake in a series; `at` is an ISO time or epoch ms. */
+export type IntakeSample = IntakePayload & { at?: string | number };
+
+export type MetricTrend = {
+  n: number;
+  first: number;
+  last: number;
+  /** Least-squares change per day. */
+  slope: number;
+  delta: number;
+  /** max − min over the series. */
+  amplitude: number;
+  /** Largest change between two consecutive samples. */
+  step: number;
+  /** Share of direction changes between consecutive non-zero steps, 0–1. */
+  oscillation: number;
+  /** Share of steps moving the same way as `slope`, 0–1. */
+  persistence: number;
+};
+
+export type SeriesSummary = {
+  samples: number;
+  spanDays: number;
+  /** False when any sample lacks `at`; samples are then taken as DEFAULT_STEP_DAYS apart. */
+  timestamped: boolean;
+  trends: Record<string, MetricTrend>;
+};
+
+export type EngineSeriesResult = EngineEvaluateResult & { series: SeriesSummary };
+
+const MIN_TREND_SAMPLES = 3;
+const DEFAULT_STEP_DAYS = 1;
+const DAY_MS = 86_400_000;
+
+function timeOf(s: IntakeSample): number | null {
+  if (s.at == null || s.at === "") return null;
+  const t = typeof s.at === "number" ? s.at : Date.parse(s.at);
+  return Number.isFinite(t) ? t : null;
+}
+
+function round(n: number): number {
+  return Number(n.toFixed(4));
+}
+
+/** Chronological order; untimed series keep the order they were given in. */
+export function orderSamples(samples: IntakeSample[]): IntakeSample[] {
+  if (!samples.every((s) => timeOf(s) != null)) return [...samples];
+  return [...samples].sort((a, b) => timeOf(a)! - timeOf(b)!);
+}
+
+function trendOf(points: Array<{ t: number; v: number }>): MetricTrend {
+  const n = points.length;
+  const meanT = points.reduce((s, p) => s + p.t, 0) / n;
+  const meanV = points.reduce((s, p) => s + p.v, 0) / n;
+  const sxx = points.reduce((s, p) => s + (p.t - meanT) ** 2, 0);
+  const sxy = points.reduce((s, p) => s + (p.t - meanT) * (p.v - meanV), 0);
+  const slope = sxx > 0 ? sxy / sxx : 0;
+
+  const steps = points.slice(1).map((p, i) => p.v - points[i]!.v);
+  const signs = steps.map(Math.sign).filter((s) => s !== 0);
+  const reversals = signs.slice(1).filter((s, i) => s !== signs[i]).length;
+  const values = points.map((p) => p.v);
+  return {
+    n,
+    first: values[0]!,
+    last: values[n - 1]!,
+    slope: round(slope),
+    delta: round(values[n - 1]! - values[0]!),
+    amplitude: round(Math.max(...values) - Math.min(...values)),
+    step: round(Math.max(...steps.map(Math.abs))),
+    oscillation: signs.length > 1 ? round(reversals / (signs.length - 1)) : 0,
+    persistence: slope !== 0 ? round(steps.filter((d) => Math.sign(d) === Math.sign(slope)).length / steps.length) : 0,
+  };
+}
+
+/** Per-metric slope, amplitude, oscillation and persistence over an ordered series. */
+export function summarizeSeries(samples: IntakeSample[]): SeriesSummary {
+  const times = samples.map(timeOf);
+  const timestamped = samples.length > 0 && times.every((t) => t != null);
+  const days = samples.map((_, i) => (timestamped ? (times[i]! - times[0]!) / DAY_MS : i * DEFAULT_STEP_DAYS));
+  const scopes = samples.map((s) => conditionScope(s, {}));
+
+  const trends: Record<string, MetricTrend> = {};
+  for (const metric of TREND_METRICS) {
+    const points = scopes
+      .map((scope, i) => ({ t: days[i]!, v: scope[metric] }))
+      .filter((p): p is { t: number; v: number } => typeof p.v === "number");
+    if (points.length >= MIN_TREND_SAMPLES) trends[metric] = trendOf(points);
+  }
+  return {
+    samples: samples.length,
+    spanDays: samples.length ? round(days[days.length - 1]! - days[0]!) : 0,
+    timestamped,
+    trends,
+  };
+}
+
+/**
+ * Evaluate the latest intake of a series, letting condition predicates read the series trends
+ * (`trend.<metric>.<stat>`) so temporal conditions can fire.
+ */
+export function evaluateGrowroomSeries(
+  rules: GrowroomRules,
+  samples: IntakeSample[],
+  version = "growroom-engine-v1",
+  units?: UnitPrefs
+): EngineSeriesResult {
+  const ordered = orderSamples(samples);
+  const series = summarizeSeries(ordered);
+  const latest = ordered[ordered.length - 1] ?? {};
+  return { ...evaluateGrowroom(rules, latest, version, units, series.trends), series };
+}
@@ -0,0 +1,60 @@
+import { clamp, irrKey, norm, profileKey } from "./util.ts";
+import type { SopBaselineMatch, SopBundle, SopIrrBaseline } from "./types.ts";
+
+type Sized = { gal: number; key: string; sop: SopIrrBaseline };
+
+/**
+ * SOP baseline for a stage/medium at any container size. Exact keys win; between two bundle sizes
+ * ml/event, % and events are interpolated; outside the listed sizes the nearest baseline is kept
+ * and ml/event scales with volume (same % of WHC).
+ */
+export function resolveSopBaseline(
+  bundle: SopBundle,
+  stage: string,
+  sizeGal: number,
+  medium: string,
+  profile: string
+): SopBaselineMatch | null {
+  const key = irrKey(stage, String(sizeGal), medium, profile);
+  const exact = bundle.irr[key];
+  if (exact) return { sop: exact, key, source: "exact", from: [key], size_gal: Number(sizeGal.toFixed(3)) };
+
+  const prefix = `${norm(stage)}|`;
+  const suffix = `|${norm(medium)}|${profileKey(profile)}`;
+  const sizes: Sized[] = Object.entries(bundle.irr)
+    .filter(([k]) => k.startsWith(prefix) && k.endsWith(suffix))
+    .map(([k, sop]) => ({ gal: Number(k.slice(prefix.length, k.length - suffix.length)), key: k, sop }))
+    .filter((s) => Number.isFinite(s.gal) && s.gal > 0)
+    .sort((a, b) => a.gal - b.gal);
+  if (!sizes.length) return null;
+
+  const lo = [...sizes].reverse().find((s) => s.gal <= sizeGal);
+  const hi = sizes.find((s) => s.gal >= sizeGal);
+  if (lo && hi) {
+    const t = hi.gal > lo.gal ? clamp((sizeGal - lo.gal) / (hi.gal - lo.gal), 0, 1) : 0;
+    return { sop: lerpBaseline(lo.sop, hi.sop, t), key, source: "interpolated", from: [lo.key, hi.key], size_gal: Number(sizeGal.toFixed(3)) };
+  }
+
+  const nearest = (lo ?? hi)!;
+  return { sop: scaleBaseline(nearest.sop, sizeGal / nearest.gal), key, source: "scaled", from: [nearest.key], size_gal: Number(sizeGal.toFixed(3)) };
+}
+
+/** Field-wise blend of two baselines at t ∈ [0, 1]; events round to whole shots. */
+export function lerpBaseline(a: SopIrrBaseline, b: SopIrrBaseline, t: number): SopIrrBaseline {
+  const lerp = (x: number, y: number) => x + (y - x) * t;
+  const out: SopIrrBaseline = {
+    runoffPct: Number(lerp(a.runoffPct, b.runoffPct).toFixed(1)),
+    p1_events: Math.round(lerp(a.p1_events, b.p1_events)),
+    p1_pct: Number(lerp(a.p1_pct, b.p1_pct).toFixed(1)),
+    p1_ml: Math.round(lerp(a.p1_ml, b.p1_ml)),
+    p2_events: Math.round(lerp(a.p2_events, b.p2_events)),
+    p2_pct: Number(lerp(a.p2_pct, b.p2_pct).toFixed(1)),
+    p2_ml: Math.round(lerp(a.p2_ml, b.p2_ml)),
+  };
+  if (a.vwc_floor != null && b.vwc_floor != null) out.vwc_floor = Number(lerp(a.vwc_floor, b.vwc_floor).toFixed(1));
+  return out;
+}
+
+function scaleBaseline(sop: SopIrrBaseline, ratio: number): SopIrrBaseline {
+  return { ...sop, p1_ml: Math.round(sop.p1_ml * ratio), p2_ml: Math.round(sop.p2_ml * ratio) };
+}
@@ -0,0 +1,45 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { diffBundles, lintBundle, loadSopBundle, sopBundleDir, validateBundle, type SopBundle } from "./index.ts";
+
+const bundle = loadSopBundle("Athena Pro")!;
+
+describe("validateBundle / lintBundle / diffBundles", () => {
+  it("validates, lints and diffs SOP bundles", () => {
+    const good = validateBundle(bundle, sopBundleDir());
+    assert.equal(good.ok, true);
+    // Athena Pro ships rockwool for 1 gal only; the full grid reports the 2 gal holes.
+    assert.deepEqual(
+      good.warnings.map((w) => w.path),
+      lintBundle(bundle).stages.map((stage) => `irr.${stage}|2|rockwool|athenapro`)
+    );
+    assert.ok(good.warnings.every((w) => w.code === "IRR_MISSING"));
+
+    const broken: SopBundle = structuredClone(bundle);
+    broken.whc_end = 70;
+    broken.pump_min_ml = 2000;
+    broken.dryback_table_pct_hr = [1, 1, 1];
+    // A string where the schema wants a number, as a hand-edited file might have it.
+    Object.assign(broken.irr["mid bloom|1|coco|athenapro"]!, { p1_ml: "200" });
+    delete broken.irr["flush|2|coco|athenapro"];
+    const bad = validateBundle(broken, sopBundleDir());
+    assert.equal(bad.ok, false);
+    const codes = bad.errors.map((e) => e.code);
+    for (const code of ["WHC_ORDER", "PUMP_RANGE", "DRYBACK_TABLE_LENGTH", "SCHEMA_TYPE"]) assert.ok(codes.includes(code), code);
+    assert.ok(lintBundle(broken).missing_irr.includes("flush|2|coco|athenapro"));
+
+    const next = structuredClone(bundle);
+    next.version = "next";
+    next.irr["mid bloom|1|coco|athenapro"]!.p1_ml += 20;
+    const d = diffBundles(bundle, next);
+    assert.equal(d.changed.length, 1);
+    assert.equal(d.changed[0]!.field, "p1_ml");
+    assert.equal(d.changed[0]!.delta, 20);
+  });
+
+  it("orders steering strategies per stage", () => {
+    const row = bundle.steering!["mid bloom"]!.generative!;
+    const patched = validateBundle({ ...bundle, steering: { "mid bloom": { vegetative: { ...row, dryback_pct: 30 }, generative: row } } });
+    assert.ok(patched.warnings.some((w) => w.code === "STEERING_ORDER"));
+  });
+});
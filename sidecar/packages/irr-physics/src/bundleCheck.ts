@@ -0,0 +1,262 @@
+import { readFileSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { norm, profileKey, STAGE_WEEK_ANCHORS } from "./util.ts";
+import { STEERING_MODES } from "./steering.ts";
+import type { BaselineChange, BundleDiff, BundleIssue, BundleLint, BundleReport, SopBundle, SteeringTarget } from "./types.ts";
+
+type JsonSchema = {
+  type?: string;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: JsonSchema | boolean;
+  items?: JsonSchema;
+};
+
+const BASELINE_FIELDS = ["runoffPct", "p1_events", "p1_pct", "p1_ml", "p2_events", "p2_pct", "p2_ml", "vwc_floor"] as const;
+const SETTING_FIELDS = [
+  "media_fill_factor",
+  "total_weeks",
+  "whc_start",
+  "whc_end",
+  "whc_k",
+  "min_db_pct_hr",
+  "max_db_pct_hr",
+  "sop_temp_c",
+  "pump_min_ml",
+  "pump_max_ml",
+  "min_p2_interval_min",
+  "pwec_max",
+] as const;
+const STEERING_FIELDS = ["dryback_pct", "p1_shot_pct_whc", "p2_start_min", "runoff_pct"] as const;
+
+/** Read per validation (bundles are validated once per load), so schema edits apply on reload. */
+function loadSchema(dir: string): JsonSchema | null {
+  const path = join(dir, "schema.json");
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, "utf8")) as JsonSchema;
+  } catch {
+    return null;
+  }
+}
+
+function typeOk(value: unknown, type: string): boolean {
+  switch (type) {
+    case "object":
+      return value != null && typeof value === "object" && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/** The draft-07 subset schema.json uses: type, required, properties, additionalProperties, items. */
+function checkSchema(value: unknown, schema: JsonSchema, path: string, out: BundleIssue[]) {
+  if (schema.type && !typeOk(value, schema.type)) {
+    out.push({ severity: "error", code: "SCHEMA_TYPE", path, message: `${path || "bundle"} must be ${schema.type}` });
+    return;
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((v, i) => checkSchema(v, schema.items!, `${path}[${i}]`, out));
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) return;
+  const obj = value as Record<string, unknown>;
+  for (const key of schema.required ?? []) {
+    if (obj[key] == null) out.push({ severity: "error", code: "SCHEMA_REQUIRED", path: join2(path, key), message: `missing ${join2(path, key)}` });
+  }
+  for (const [key, v] of Object.entries(obj)) {
+    const child = schema.properties?.[key] ?? (typeof schema.additionalProperties === "object" ? schema.additionalProperties : undefined);
+    if (child && v != null) checkSchema(v, child, join2(path, key), out);
+  }
+}
+
+function join2(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Schema plus the semantic rules the solver relies on. Errors make the bundle unusable; warnings
+ * (coverage gaps, odd keys) still solve, via interpolation or a failed plan for that combination.
+ */
+export function validateBundle(raw: unknown, dataDir?: string): BundleReport {
+  const errors: BundleIssue[] = [];
+  const warnings: BundleIssue[] = [];
+  const schema = dataDir ? loadSchema(dataDir) : null;
+  if (schema) checkSchema(raw, schema, "", errors);
+  else if (!typeOk(raw, "object")) errors.push({ severity: "error", code: "SCHEMA_TYPE", path: "", message: "bundle must be object" });
+
+  const b = (typeOk(raw, "object") ? raw : {}) as SopBundle;
+  if (!typeOk(b.irr, "object")) {
+    if (!errors.some((e) => e.path === "irr")) errors.push({ severity: "error", code: "SCHEMA_REQUIRED", path: "irr", message: "missing irr" });
+    return { ok: false, profile: b.profile, version: b.version, errors, warnings };
+  }
+
+  if (b.whc_start != null && b.whc_end != null && !(b.whc_start > b.whc_end)) {
+    errors.push({ severity: "error", code: "WHC_ORDER", path: "whc_start", message: `whc_start (${b.whc_start}) must exceed whc_end (${b.whc_end})` });
+  }
+  if (b.dryback_table_pct_hr && b.total_weeks != null && b.dryback_table_pct_hr.length !== b.total_weeks) {
+    errors.push({
+      severity: "error",
+      code: "DRYBACK_TABLE_LENGTH",
+      path: "dryback_table_pct_hr",
+      message: `dryback_table_pct_hr has ${b.dryback_table_pct_hr.length} rows, total_weeks is ${b.total_weeks}`,
+    });
+  }
+  if (b.pump_min_ml != null && b.pump_max_ml != null && !(b.pump_min_ml < b.pump_max_ml)) {
+    errors.push({ severity: "error", code: "PUMP_RANGE", path: "pump_min_ml", message: `pump_min_ml (${b.pump_min_ml}) must be below pump_max_ml (${b.pump_max_ml})` });
+  }
+  if (b.min_db_pct_hr != null && b.max_db_pct_hr != null && !(b.min_db_pct_hr < b.max_db_pct_hr)) {
+    errors.push({ severity: "error", code: "DRYBACK_RANGE", path: "min_db_pct_hr", message: `min_db_pct_hr (${b.min_db_pct_hr}) must be below max_db_pct_hr (${b.max_db_pct_hr})` });
+  }
+
+  for (const [key, sop] of Object.entries(b.irr)) {
+    if (!sop || typeof sop !== "object") continue;
+    const path = `irr.${key}`;
+    for (const f of BASELINE_FIELDS) {
+      const v = sop[f];
+      if (typeof v === "number" && v < 0) errors.push({ severity: "error", code: "NEGATIVE_VALUE", path: `${path}.${f}`, message: `${key} ${f} is negative` });
+    }
+    if (sop.p1_pct > 100 || sop.p2_pct > 100 || sop.runoffPct > 100) {
+      errors.push({ severity: "error", code: "PCT_RANGE", path, message: `${key} has a percentage above 100` });
+    }
+  }
+
+  checkSteering(b, errors, warnings);
+
+  const lint = lintBundle(b);
+  for (const key of lint.missing_irr) {
+    warnings.push({ severity: "warn", code: "IRR_MISSING", path: `irr.${key}`, message: `no baseline for ${key}` });
+  }
+  for (const key of lint.unknown_irr) {
+    warnings.push({ severity: "warn", code: "IRR_UNKNOWN_KEY", path: `irr.${key}`, message: `${key} does not match stage|gal|medium|${profileKey(b.profile ?? "")}` });
+  }
+
+  return { ok: errors.length === 0, profile: b.profile, version: b.version, errors, warnings };
+}
+
+/** Known stages and modes, sane ranges, and dryback growing from vegetative to generative. */
+function checkSteering(b: SopBundle, errors: BundleIssue[], warnings: BundleIssue[]) {
+  const stages = Object.keys(STAGE_WEEK_ANCHORS);
+  for (const [stage, modes] of Object.entries(b.steering ?? {})) {
+    if (!modes || typeof modes !== "object") continue;
+    const path = `steering.${stage}`;
+    if (stage !== "*" && !stages.includes(norm(stage))) {
+      warnings.push({ severity: "warn", code: "STEERING_UNKNOWN_STAGE", path, message: `${stage} is not a known stage` });
+    }
+    for (const [mode, t] of Object.entries(modes) as Array<[string, SteeringTarget]>) {
+      if (!STEERING_MODES.includes(mode as (typeof STEERING_MODES)[number])) {
+        errors.push({ severity: "error", code: "STEERING_MODE", path: `${path}.${mode}`, message: `${mode} is not one of ${STEERING_MODES.join(", ")}` });
+        continue;
+      }
+      for (const f of STEERING_FIELDS) {
+        if (typeof t?.[f] === "number" && t[f] < 0) errors.push({ severity: "error", code: "NEGATIVE_VALUE", path: `${path}.${mode}.${f}`, message: `${stage} ${mode} ${f} is negative` });
+      }
+      if (t && (t.dryback_pct > 100 || t.p1_shot_pct_whc > 100 || t.runoff_pct > 100)) {
+        errors.push({ severity: "error", code: "PCT_RANGE", path: `${path}.${mode}`, message: `${stage} ${mode} has a percentage above 100` });
+      }
+    }
+    const db = STEERING_MODES.map((m) => modes[m]?.dryback_pct).filter((v): v is number => typeof v === "number");
+    if (db.some((v, i) => i > 0 && v < db[i - 1]!)) {
+      warnings.push({ severity: "warn", code: "STEERING_ORDER", path, message: `${stage} dryback should grow from vegetative to generative` });
+    }
+  }
+}
+
+/**
+ * Stage × container × medium grid the bundle implies and the holes in it. Sizes and media are each
+ * the union over all keys, so a medium with no rows at some size still reports that size missing.
+ */
+export function lintBundle(bundle: SopBundle): BundleLint {
+  const stages = Object.keys(STAGE_WEEK_ANCHORS);
+  const pk = profileKey(bundle.profile ?? "");
+  const sizes = new Set<string>();
+  const media = new Set<string>();
+  const unknown: string[] = [];
+  for (const key of Object.keys(bundle.irr ?? {})) {
+    const [stage, gal, medium, profile] = key.split("|");
+    if (!stage || !medium || !stages.includes(norm(stage)) || !(Number(gal) > 0) || profile !== pk) {
+      unknown.push(key);
+      continue;
+    }
+    sizes.add(gal!);
+    media.add(medium);
+  }
+  const sortedSizes = [...sizes].sort((a, b) => Number(a) - Number(b));
+  const missing: string[] = [];
+  for (const medium of media) {
+    for (const stage of stages) {
+      for (const gal of sortedSizes) {
+        const key = `${stage}|${gal}|${medium}|${pk}`;
+        if (!bundle.irr[key]) missing.push(key);
+      }
+    }
+  }
+  return {
+    profile: bundle.profile,
+    stages,
+    sizes: sortedSizes,
+    media: [...media],
+    missing_irr: missing,
+    unknown_irr: unknown,
+  };
+}
+
+function change(key: string, field: string, from: unknown, to: unknown): BaselineChange | null {
+  const a = typeof from === "number" ? from : null;
+  const b = typeof to === "number" ? to : null;
+  if (a === b) return null;
+  const delta = a != null && b != null ? Number((b - a).toFixed(3)) : null;
+  const pct = a != null && b != null && a !== 0 ? Number((((b - a) / a) * 100).toFixed(1)) : null;
+  return { key, field, from: a, to: b, delta, pct };
+}
+
+/** Baselines and solver settings that differ between two bundle versions. Keys match across profiles by stage|gal|medium. */
+export function diffBundles(from: SopBundle, to: SopBundle): BundleDiff {
+  const strip = (k: string) => k.split("|").slice(0, 3).join("|");
+  const a = new Map(Object.entries(from.irr ?? {}).map(([k, v]) => [strip(k), v]));
+  const b = new Map(Object.entries(to.irr ?? {}).map(([k, v]) => [strip(k), v]));
+
+  const changed: BaselineChange[] = [];
+  for (const [key, before] of a) {
+    const after = b.get(key);
+    if (!after) continue;
+    for (const f of BASELINE_FIELDS) {
+      const c = change(key, f, before[f], after[f]);
+      if (c) changed.push(c);
+    }
+  }
+  const settings: BaselineChange[] = [];
+  for (const f of SETTING_FIELDS) {
+    const c = change("bundle", f, from[f], to[f]);
+    if (c) settings.push(c);
+  }
+  const fromTable = from.dryback_table_pct_hr ?? [];
+  const toTable = to.dryback_table_pct_hr ?? [];
+  for (let i = 0; i < Math.max(fromTable.length, toTable.length); i++) {
+    const c = change("bundle", `dryback_table_pct_hr[${i}]`, fromTable[i], toTable[i]);
+    if (c) settings.push(c);
+  }
+  const stages = new Set([...Object.keys(from.steering ?? {}), ...Object.keys(to.steering ?? {})]);
+  for (const stage of stages) {
+    for (const mode of STEERING_MODES) {
+      for (const f of STEERING_FIELDS) {
+        const c = change(`steering.${stage}.${mode}`, f, from.steering?.[stage]?.[mode]?.[f], to.steering?.[stage]?.[mode]?.[f]);
+        if (c) settings.push(c);
+      }
+    }
+  }
+
+  return {
+    from_version: from.version,
+    to_version: to.version,
+    added: [...b.keys()].filter((k) => !a.has(k)),
+    removed: [...a.keys()].filter((k) => !b.has(k)),
+    changed,
+    settings,
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildCropCalendar, loadSopBundle } from "./index.ts";
+
+const bundle = loadSopBundle("Athena Pro")!;
+
+describe("buildCropCalendar", () => {
+  it("crop calendar covers total_weeks and lands flip on early bloom", () => {
+    const cal = buildCropCalendar({ sopBundle: bundle, flipDate: "2026-11-02" });
+    assert.equal(cal.ok, true);
+    assert.equal(cal.days.length, (bundle.total_weeks ?? 13) * 7);
+    const flip = cal.days.find((d) => d.date === "2026-11-02")!;
+    assert.equal(flip.stage, "early bloom");
+    assert.equal(flip.baseline.p1_ml, bundle.irr["early bloom|1|coco|athenapro"]!.p1_ml);
+  });
+
+  it("crop calendar stretches the stage weeks over the bundle's total_weeks", () => {
+    const daysPerStage = (totalWeeks: number) => {
+      const cal = buildCropCalendar({ sopBundle: { ...bundle, total_weeks: totalWeeks }, flipDate: "2026-11-02" });
+      assert.equal(cal.ok, true);
+      assert.equal(cal.days.find((d) => d.date === "2026-11-02")!.stage, "early bloom");
+      assert.equal(cal.days.at(-1)!.stage, "flush");
+      const counts: Record<string, number> = {};
+      for (const d of cal.days) counts[d.stage] = (counts[d.stage] ?? 0) + 1;
+      return counts;
+    };
+    const long = daysPerStage(16);
+    assert.equal(long.flush, 7);
+    assert.ok(long["late bloom"]! > daysPerStage(13)["late bloom"]!);
+    const short = daysPerStage(9);
+    assert.deepEqual(Object.keys(short), ["early veg", "late veg", "early bloom", "mid bloom", "late bloom", "flush"]);
+    assert.equal(short.flush, 7);
+  });
+});
@@ -0,0 +1,96 @@
+import { baseDrybackPctHr, whcPct } from "./curves.ts";
+import { lerpBaseline, resolveSopBaseline } from "./baseline.ts";
+import { resolveMediaDef } from "./media.ts";
+import { clamp, irrKey, normalizeContainerGal, SOLVER_VERSION, stageFromWeekIndex, stageWeekAnchors } from "./util.ts";
+import type { CalendarDay, CalendarInput, CropCalendar, SopIrrBaseline } from "./types.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Anchor = { week: number; sop: SopIrrBaseline };
+
+/** Expand a SOP bundle into a day-by-day plan for the whole run. */
+export function buildCropCalendar(input: CalendarInput): CropCalendar {
+  const { sopBundle: bundle } = input;
+  const totalWeeks = bundle.total_weeks ?? 13;
+  const container = input.container || "1";
+  const medium = input.medium || "coco";
+  const profile = input.profile || bundle.profile;
+
+  const stageWeeks = stageWeekAnchors(totalWeeks);
+  // First whole day in early bloom; scaled anchors may fall mid-week.
+  const flipDay = Math.ceil((stageWeeks["early bloom"]! - 1) * 7 - 1e-9);
+  let start = parseDate(input.startDate);
+  if (start == null && input.flipDate) {
+    const flip = parseDate(input.flipDate);
+    if (flip != null) start = flip - flipDay * DAY_MS;
+  }
+  if (start == null) {
+    return fail("startDate or flipDate (YYYY-MM-DD) required");
+  }
+
+  const sizeGal = Number(normalizeContainerGal(container));
+  const sopMedium = resolveMediaDef({ medium }).sop_medium ?? medium;
+  const anchors: Anchor[] = [];
+  for (const [stage, week] of Object.entries(stageWeeks)) {
+    const match = resolveSopBaseline(bundle, stage, sizeGal, sopMedium, profile);
+    if (match) anchors.push({ week, sop: match.sop });
+  }
+  if (!anchors.length) {
+    return fail(`No SOP irrigation baselines for ${irrKey("*", container, sopMedium, profile)}`);
+  }
+
+  const days: CalendarDay[] = [];
+  for (let d = 0; d < totalWeeks * 7; d++) {
+    const weekIndex = 1 + d / 7;
+    days.push({
+      date: isoDate(start + d * DAY_MS),
+      day: d + 1,
+      week: Math.floor(d / 7) + 1,
+      day_of_week: (d % 7) + 1,
+      week_index: Number(weekIndex.toFixed(3)),
+      stage: stageFromWeekIndex(weekIndex, totalWeeks),
+      whc_pct: Number(whcPct(weekIndex, bundle).toFixed(2)),
+      dryback_pct_hr: Number(baseDrybackPctHr(weekIndex, bundle).toFixed(3)),
+      baseline: interpolateBaseline(anchors, weekIndex),
+    });
+  }
+
+  return {
+    ok: true,
+    sop_bundle_version: bundle.version,
+    solver_version: SOLVER_VERSION,
+    start_date: isoDate(start),
+    flip_date: isoDate(start + flipDay * DAY_MS),
+    total_weeks: totalWeeks,
+    days,
+  };
+}
+
+function interpolateBaseline(anchors: Anchor[], weekIndex: number): SopIrrBaseline {
+  let lo = anchors[0]!;
+  let hi = anchors[anchors.length - 1]!;
+  for (let i = 0; i < anchors.length; i++) {
+    if (anchors[i]!.week <= weekIndex) lo = anchors[i]!;
+    if (anchors[i]!.week >= weekIndex) {
+      hi = anchors[i]!;
+      break;
+    }
+  }
+  if (weekIndex >= hi.week) lo = hi;
+  const t = hi.week > lo.week ? clamp((weekIndex - lo.week) / (hi.week - lo.week), 0, 1) : 0;
+  return lerpBaseline(lo.sop, hi.sop, t);
+}
+
+function parseDate(s?: string): number | null {
+  if (!s || !/^\d{4}-\d{2}-\d{2}/.test(s)) return null;
+  const t = Date.parse(`${s.slice(0, 10)}T00:00:00Z`);
+  return Number.isFinite(t) ? t : null;
+}
+
+function isoDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function fail(error: string): CropCalendar {
+  return { ok: false, error, solver_version: SOLVER_VERSION, total_weeks: 0, days: [] };
+}
@@ -15,8 +15,10 @@ export function whcPct(weekIndex: number, bundle: SopBundle): number {
 export function baseDrybackPctHr(weekIndex: number, bundle: SopBundle): number {
   const table = bundle.dryback_table_pct_hr;
   if (table?.length) {
-    const i = clamp(weekIndex - 1, 0, table.length - 1);
-    return table[i]!;
+    const x = clamp(weekIndex - 1, 0, table.length - 1);
+    const lo = Math.floor(x);
+    const hi = Math.min(table.length - 1, lo + 1);
+    return table[lo]! + (table[hi]! - table[lo]!) * (x - lo);
   }
   const total = bundle.total_weeks ?? 13;
   const min = bundle.min_db_pct_hr ?? 0.2;
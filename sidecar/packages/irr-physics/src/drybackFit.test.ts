@@ -0,0 +1,34 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { intake } from "./fixtures.ts";
+import { fitDrybackModel, loadSopBundle, solveIrr, type VwcReading } from "./index.ts";
+
+const bundle = loadSopBundle("Athena Pro")!;
+
+describe("fitDrybackModel", () => {
+  it("fits a room dryback curve and the solver prefers it", () => {
+    const t0 = Date.parse("2026-06-01T06:00:00Z");
+    const readings: VwcReading[] = [];
+    for (let day = 0; day < 3; day++) {
+      for (let i = 0; i <= 24; i++) {
+        // 12 h drydown at 2.5 pts/hr, sampled every 30 min, then a refill
+        readings.push({ t: t0 + day * 86_400_000 + i * 1_800_000, vwc: 45 - 2.5 * (i / 2) });
+      }
+    }
+    const fit = fitDrybackModel({ readings, intake, sopBundle: bundle });
+    assert.equal(fit.ok, true);
+    assert.equal(fit.n_segments, 3);
+    assert.ok(Math.abs(fit.dryback_pct_hr - 2.5) < 0.01);
+    assert.equal(fit.confidence_label, "HIGH");
+
+    const plan = solveIrr({ intake, sopBundle: bundle, drybackFit: fit });
+    assert.equal(plan.demand.dryback_source, "fitted");
+    assert.ok(Math.abs(plan.demand.dryback_pct_hr - 2.5) < 0.01);
+
+    // Other stages keep the bundle's stage curve, scaled by the fitted week's ratio.
+    const flushIntake = { ...intake, stage: "flush" };
+    const flushBundle = solveIrr({ intake: flushIntake, sopBundle: bundle });
+    const flushFitted = solveIrr({ intake: flushIntake, sopBundle: bundle, drybackFit: fit });
+    assert.ok(Math.abs(flushFitted.demand.dryback_pct_hr / flushBundle.demand.dryback_pct_hr - fit.ratio_to_bundle!) < 0.01);
+  });
+});
@@ -0,0 +1,133 @@
+import { baseDrybackPctHr } from "./curves.ts";
+import { demandScalars } from "./solve.ts";
+import { clamp, num, SOLVER_VERSION, weekIndexFromStage } from "./util.ts";
+import type { DrybackFit, DrybackFitInput, DrybackSegment } from "./types.ts";
+
+/** VWC rise (points) between readings that marks an irrigation and starts a new segment. */
+const RISE_BREAK_PTS = 0.5;
+/** Reading gap (h) that splits a segment (sensor offline). */
+const MAX_GAP_H = 3;
+const MIN_SEGMENT_POINTS = 3;
+const MIN_SEGMENT_H = 0.5;
+/** Points needed for full coverage credit in the confidence score. */
+const FULL_COVERAGE_POINTS = 48;
+const FULL_COVERAGE_SEGMENTS = 3;
+
+type Point = { tMs: number; vwc: number };
+
+/** Fit a room dryback rate (VWC points/hr) from logged VWC readings. */
+export function fitDrybackModel(input: DrybackFitInput): DrybackFit {
+  const points: Point[] = (input.readings ?? [])
+    .map((r) => ({ tMs: typeof r.t === "number" ? r.t : Date.parse(String(r.t)), vwc: Number(r.vwc) }))
+    .filter((p) => Number.isFinite(p.tMs) && Number.isFinite(p.vwc))
+    .sort((a, b) => a.tMs - b.tMs);
+
+  const segments: DrybackSegment[] = [];
+  let current: Point[] = [];
+  const flush = () => {
+    const seg = regressSegment(current);
+    if (seg) segments.push(seg);
+    current = [];
+  };
+  for (const p of points) {
+    const prev = current[current.length - 1];
+    if (prev && (p.vwc - prev.vwc > RISE_BREAK_PTS || (p.tMs - prev.tMs) / 3.6e6 > MAX_GAP_H)) flush();
+    current.push(p);
+  }
+  flush();
+
+  const drying = segments.filter((s) => s.slope_pct_hr < 0);
+  if (!drying.length) {
+    return {
+      ok: false,
+      error: `No usable dryback segments in ${points.length} readings`,
+      solver_version: SOLVER_VERSION,
+      dryback_pct_hr: 0,
+      base_pct_hr: 0,
+      r2: 0,
+      n_points: points.length,
+      n_segments: 0,
+      hours: 0,
+      confidence: 0,
+      confidence_label: "LOW",
+      segments,
+    };
+  }
+
+  const hours = drying.reduce((a, s) => a + s.hours, 0);
+  const rate = drying.reduce((a, s) => a + -s.slope_pct_hr * s.hours, 0) / hours;
+  const r2 = drying.reduce((a, s) => a + s.r2 * s.hours, 0) / hours;
+  const nPoints = drying.reduce((a, s) => a + s.points, 0);
+
+  const spread =
+    drying.length > 1
+      ? Math.sqrt(drying.reduce((a, s) => a + (-s.slope_pct_hr - rate) ** 2 * s.hours, 0) / hours) / rate
+      : 0;
+  const coverage =
+    0.5 * Math.min(1, nPoints / FULL_COVERAGE_POINTS) + 0.5 * Math.min(1, drying.length / FULL_COVERAGE_SEGMENTS);
+  const confidence = clamp(r2 * coverage * (1 / (1 + spread)), 0, 1);
+
+  // Normalize the observed rate back to SOP conditions so the solver can re-apply demand factors.
+  let base = rate;
+  let bundleBase: number | undefined;
+  if (input.sopBundle) {
+    const intake = input.intake ?? {};
+    const s = demandScalars(intake, input.sopBundle);
+    base = rate / (s.tempFactor * s.vpdFactor * s.dliFactor * s.co2Factor);
+    const weekIdx = num(intake.weekIndex) ?? weekIndexFromStage(intake.stage || "", input.sopBundle.total_weeks ?? 13);
+    bundleBase = baseDrybackPctHr(weekIdx, input.sopBundle);
+  }
+
+  return {
+    ok: true,
+    solver_version: SOLVER_VERSION,
+    sop_bundle_version: input.sopBundle?.version,
+    dryback_pct_hr: round3(rate),
+    base_pct_hr: round3(base),
+    bundle_base_pct_hr: bundleBase != null ? round3(bundleBase) : undefined,
+    ratio_to_bundle: bundleBase ? round3(base / bundleBase) : undefined,
+    r2: round3(r2),
+    n_points: nPoints,
+    n_segments: drying.length,
+    hours: round3(hours),
+    confidence: round3(confidence),
+    confidence_label: confidence >= 0.66 ? "HIGH" : confidence >= 0.33 ? "MED" : "LOW",
+    segments,
+  };
+}
+
+function regressSegment(pts: Point[]): DrybackSegment | null {
+  if (pts.length < MIN_SEGMENT_POINTS) return null;
+  const t0 = pts[0]!.tMs;
+  const xs = pts.map((p) => (p.tMs - t0) / 3.6e6);
+  const ys = pts.map((p) => p.vwc);
+  const hours = xs[xs.length - 1]!;
+  if (hours < MIN_SEGMENT_H) return null;
+
+  const n = pts.length;
+  const mx = xs.reduce((a, b) => a + b, 0) / n;
+  const my = ys.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i]! - mx) * (ys[i]! - my);
+    sxx += (xs[i]! - mx) ** 2;
+    syy += (ys[i]! - my) ** 2;
+  }
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const r2 = sxx > 0 && syy > 0 ? (sxy * sxy) / (sxx * syy) : 0;
+
+  return {
+    start: new Date(t0).toISOString(),
+    end: new Date(pts[n - 1]!.tMs).toISOString(),
+    hours: round3(hours),
+    points: n,
+    slope_pct_hr: round3(slope),
+    r2: round3(r2),
+  };
+}
+
+function round3(n: number): number {
+  return Number(n.toFixed(3));
+}
@@ -0,0 +1,24 @@
+import type { IntakeIrr } from "./types.ts";
+
+/** Mid-bloom coco intake on 1 gal pots under the Athena Pro SOP, shared by the solver tests. */
+export const intake: IntakeIrr = {
+  stage: "mid bloom",
+  medium: "coco",
+  container: "1",
+  profile: "Athena Pro",
+  photoperiodH: 18,
+  tempC: 26,
+  vpdKpa: 1.2,
+  dliMol: 35,
+  co2: 900,
+  co2Mode: "co2",
+  runoffPct: 10,
+  drybackPct24h: 18,
+  targetAtFirst: 40,
+  p1Events: 4,
+  p1IntervalMin: 30,
+  p1MlPerEvent: 200,
+  p2Events: 9,
+  p2IntervalMin: 60,
+  p2MlPerEvent: 90,
+};
@@ -0,0 +1,118 @@
+/**
+ * Golden snapshots of solveIrr and flattenSolvePlan for every irr key in the shipped bundles.
+ *
+ *   npm run golden:irr    rewrite packages/irr-physics/golden/*.json after an intended change
+ *
+ * Rewriting refuses while SOLVER_VERSION and the bundle version are both unchanged, so any change
+ * to solver output ships with a version bump and a reviewable golden diff.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { flattenSolvePlan, loadSopBundle, solveIrr, SOLVER_VERSION, type IntakeIrr, type SopBundle } from "./index.ts";
+
+const GOLDEN_DIR = join(dirname(fileURLToPath(import.meta.url)), "..", "golden");
+const UPDATE = process.env.UPDATE_GOLDEN === "1";
+const BUNDLES = ["Athena Pro", "SharkMouseFarms"];
+const MAX_REPORTED = 12;
+
+type Golden = {
+  solver_version: string;
+  bundle_version: string;
+  cases: Record<string, { intake: IntakeIrr; plan: unknown; flat: unknown }>;
+};
+
+/** Fixed climate per stage so snapshots move only when the solver or the bundle does. */
+function caseIntake(key: string, bundle: SopBundle): IntakeIrr {
+  const [stage, gal, medium] = key.split("|");
+  const veg = stage!.includes("veg");
+  return {
+    stage,
+    container: gal,
+    medium,
+    profile: bundle.profile,
+    photoperiodH: veg ? 18 : 12,
+    tempC: veg ? 26 : 25,
+    vpdKpa: veg ? 1.0 : 1.3,
+    dliMol: veg ? 30 : 40,
+    co2: 900,
+    co2Mode: "co2",
+    targetAtFirst: 45,
+    drybackPct24h: 15,
+  };
+}
+
+/** 6 significant digits keeps float noise out of the diff. */
+function canonical(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value, (_k, v) => (typeof v === "number" ? Number(v.toPrecision(6)) : v)));
+}
+
+/** flattenSolvePlan spreads the plan; keep only the legacy keys it adds or rewrites. */
+function legacyView(flat: Record<string, unknown>, plan: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(flat).filter(([k, v]) => !(k in plan) || JSON.stringify(v) !== JSON.stringify(plan[k]))
+  );
+}
+
+function snapshot(profile: string): Golden {
+  const bundle = loadSopBundle(profile)!;
+  const cases: Golden["cases"] = {};
+  for (const key of Object.keys(bundle.irr).sort()) {
+    const intake = caseIntake(key, bundle);
+    const plan = solveIrr({ intake, sopBundle: bundle });
+    const flat = flattenSolvePlan(plan);
+    cases[key] = {
+      intake,
+      plan: canonical(plan),
+      flat: canonical(legacyView(flat, plan as unknown as Record<string, unknown>)),
+    };
+  }
+  return { solver_version: SOLVER_VERSION, bundle_version: bundle.version, cases };
+}
+
+/** JSON paths that differ, for a readable failure instead of a full deep-equal dump. */
+function diffPaths(a: unknown, b: unknown, path = "", out: string[] = []): string[] {
+  if (out.length >= MAX_REPORTED) return out;
+  if (a && b && typeof a === "object" && typeof b === "object") {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const k of keys) {
+      diffPaths((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k], path ? `${path}.${k}` : k, out);
+    }
+  } else if (JSON.stringify(a) !== JSON.stringify(b)) {
+    out.push(`${path}: ${JSON.stringify(a)} → ${JSON.stringify(b)}`);
+  }
+  return out;
+}
+
+describe("irr-physics golden snapshots", () => {
+  for (const profile of BUNDLES) {
+    const file = join(GOLDEN_DIR, `${profile.toLowerCase().replace(/[^a-z0-9]+/g, "")}.json`);
+
+    it(`${profile} matches ${file.slice(GOLDEN_DIR.length + 1)}`, () => {
+      const actual = snapshot(profile);
+      const expected = existsSync(file) ? (JSON.parse(readFileSync(file, "utf8")) as Golden) : null;
+      const diffs = expected ? diffPaths(expected.cases, actual.cases) : ["(no golden file)"];
+
+      if (UPDATE) {
+        const sameVersions =
+          !!expected && expected.solver_version === actual.solver_version && expected.bundle_version === actual.bundle_version;
+        if (!diffs.length && sameVersions) return;
+        assert.ok(!sameVersions, `solver output changed without a SOLVER_VERSION or bundle version bump:\n${diffs.join("\n")}`);
+        mkdirSync(GOLDEN_DIR, { recursive: true });
+        writeFileSync(file, JSON.stringify(actual, null, 2) + "\n", "utf8");
+        return;
+      }
+
+      assert.ok(expected, `missing ${file}; run npm run golden:irr`);
+      assert.deepEqual(
+        diffs,
+        [],
+        `solver output drifted from the golden file; bump SOLVER_VERSION and run npm run golden:irr if intended`
+      );
+      assert.equal(actual.solver_version, expected!.solver_version, "SOLVER_VERSION bumped; regenerate goldens");
+      assert.equal(actual.bundle_version, expected!.bundle_version, `${profile} bundle version changed; regenerate goldens`);
+    });
+  }
+});
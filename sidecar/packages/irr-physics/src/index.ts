@@ -1,11 +1,38 @@
 export * from "./types.ts";
 export { solveIrr, buildRealityDelta } from "./solve.ts";
+export { simulateVwc } from "./simulate.ts";
+export { deriveSchedule } from "./inverse.ts";
+export { buildCropCalendar } from "./calendar.ts";
+export { fitDrybackModel } from "./drybackFit.ts";
+export { estimateTranspiration, type TranspirationEstimate } from "./transpiration.ts";
+export { solveRoom } from "./room.ts";
+export { projectSalt } from "./salt.ts";
+export { sweepSensitivity, SWEEP_INPUTS } from "./sensitivity.ts";
+export { planLightcycle, nightDrybackPctHr, NIGHT_DRYBACK_FRAC } from "./lightcycle.ts";
+export { resolveSteering, steeringMode, STEERING_MODES } from "./steering.ts";
+export { resolveSopBaseline } from "./baseline.ts";
+export { MEDIA_LIBRARY, blendMedia, resolveMediaDef } from "./media.ts";
+export { renderIssue, renderIssues } from "./messages.ts";
+export { buildSchedule, scheduleToCsv, scheduleToIcs } from "./schedule.ts";
 export { SOLVER_VERSION } from "./util.ts";
-export { loadSopBundle, clearBundleCache } from "./loadBundle.ts";
+export {
+  loadSopBundle,
+  clearBundleCache,
+  reloadSopBundles,
+  archiveSopBundle,
+  sopBundleDir,
+  listSopBundles,
+  listSopBundleVersions,
+  resolveSopBundleDef,
+} from "./loadBundle.ts";
+export { mergeBundle } from "./inherit.ts";
+export { validateBundle, lintBundle, diffBundles } from "./bundleCheck.ts";
 export {
   irrKey,
   profileKey,
   weekIndexFromStage,
+  stageFromWeekIndex,
   normalizeContainerGal,
+  STAGE_WEEK_ANCHORS,
 } from "./util.ts";
 export { flattenSolvePlan } from "./legacyFlat.ts";
@@ -0,0 +1,109 @@
+import { norm, profileKey } from "./util.ts";
+import type { SopBundle, SopBundleDef, SopIrrBaseline, SteeringMode, SteeringTarget } from "./types.ts";
+
+/** Chain bookkeeping and keyed maps that merge entry-by-entry instead of being replaced whole. */
+const STRUCTURAL = new Set(["profile", "version", "extends", "irr", "media", "tolerances", "steering", "lineage", "provenance"]);
+
+export function bundleSource(b: { profile: string; version: string }): string {
+  return `${b.profile}@${b.version}`;
+}
+
+/** `"Athena Pro@2026-05-24.1"` → profile + optional exact version. */
+export function parseExtends(ref: string): { profile: string; version?: string } {
+  const at = ref.lastIndexOf("@");
+  return at > 0 ? { profile: ref.slice(0, at), version: ref.slice(at + 1) } : { profile: ref };
+}
+
+/** Every effective value of a standalone bundle comes from the bundle itself. */
+function ownProvenance(b: SopBundle): Record<string, string> {
+  const src = bundleSource(b);
+  const out: Record<string, string> = {};
+  for (const [field, value] of Object.entries(b)) {
+    if (STRUCTURAL.has(field) || value === undefined) continue;
+    out[field] = src;
+  }
+  for (const field of Object.keys(b.tolerances ?? {})) out[`tolerances.${field}`] = src;
+  for (const key of Object.keys(b.media ?? {})) out[`media.${key}`] = src;
+  for (const [stage, modes] of Object.entries(b.steering ?? {})) {
+    for (const mode of Object.keys(modes)) out[`steering.${stage}.${mode}`] = src;
+  }
+  for (const [key, sop] of Object.entries(b.irr ?? {})) {
+    for (const field of Object.keys(sop)) out[`irr.${key}.${field}`] = src;
+  }
+  return out;
+}
+
+function matchesKey(pattern: string[], key: string[]): boolean {
+  return pattern.every((seg, i) => seg === "*" || seg === key[i]);
+}
+
+/**
+ * Apply a child definition on top of its resolved parent. Parent `irr` entries are re-keyed to the
+ * child's profile; child `irr` entries patch field-by-field (wildcards patch every match) and keys
+ * the parent lacks are added as-is.
+ */
+export function mergeBundle(parent: SopBundle, child: SopBundleDef): SopBundle {
+  const src = bundleSource(child);
+  const pk = profileKey(child.profile);
+  const parentProv = parent.provenance ?? ownProvenance(parent);
+  const provenance: Record<string, string> = {};
+  const out: SopBundle = { ...parent, profile: child.profile, version: child.version, extends: child.extends, irr: {} };
+
+  for (const [field, value] of Object.entries(parentProv)) {
+    if (!field.startsWith("irr.")) provenance[field] = value;
+  }
+  for (const [field, value] of Object.entries(child)) {
+    if (STRUCTURAL.has(field) || value === undefined) continue;
+    (out as Record<string, unknown>)[field] = value;
+    provenance[field] = src;
+  }
+  if (child.tolerances) {
+    out.tolerances = { ...parent.tolerances, ...child.tolerances };
+    for (const field of Object.keys(child.tolerances)) provenance[`tolerances.${field}`] = src;
+  }
+  if (child.media) {
+    out.media = { ...parent.media };
+    for (const [key, m] of Object.entries(child.media)) {
+      out.media[key] = { ...parent.media?.[key], ...m };
+      provenance[`media.${key}`] = src;
+    }
+  }
+
+  if (child.steering) {
+    out.steering = { ...parent.steering };
+    for (const [stage, modes] of Object.entries(child.steering)) {
+      const merged = { ...parent.steering?.[stage] };
+      for (const [mode, t] of Object.entries(modes)) {
+        merged[mode as SteeringMode] = { ...parent.steering?.[stage]?.[mode as SteeringMode], ...t } as SteeringTarget;
+        provenance[`steering.${stage}.${mode}`] = src;
+      }
+      out.steering[stage] = merged;
+    }
+  }
+
+  const parentPk = profileKey(parent.profile);
+  for (const [key, sop] of Object.entries(parent.irr)) {
+    const parts = key.split("|");
+    const rekeyed = parts[3] === parentPk ? [...parts.slice(0, 3), pk].join("|") : key;
+    out.irr[rekeyed] = { ...sop };
+    for (const field of Object.keys(sop)) {
+      provenance[`irr.${rekeyed}.${field}`] = parentProv[`irr.${key}.${field}`] ?? bundleSource(parent);
+    }
+  }
+
+  for (const [rawKey, patch] of Object.entries(child.irr ?? {})) {
+    const pattern = rawKey.split("|").map((seg) => (seg === "*" ? seg : norm(seg)));
+    if (pattern.length === 3) pattern.push(pk);
+    const targets = pattern.includes("*")
+      ? Object.keys(out.irr).filter((k) => matchesKey(pattern, k.split("|")))
+      : [pattern.join("|")];
+    for (const key of targets) {
+      out.irr[key] = { ...out.irr[key], ...patch } as SopIrrBaseline;
+      for (const field of Object.keys(patch)) provenance[`irr.${key}.${field}`] = src;
+    }
+  }
+
+  out.lineage = [...(parent.lineage ?? [bundleSource(parent)]), src];
+  out.provenance = provenance;
+  return out;
+}
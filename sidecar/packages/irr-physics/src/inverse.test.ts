@@ -0,0 +1,34 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { intake } from "./fixtures.ts";
+import { deriveSchedule, loadSopBundle, solveIrr } from "./index.ts";
+
+const bundle = loadSopBundle("Athena Pro")!;
+
+describe("deriveSchedule", () => {
+  it("derived schedule round-trips through solveIrr within tolerance", () => {
+    const derived = deriveSchedule({
+      intake: { ...intake, drybackPct24h: 12, targetAtFirst: 35 },
+      sopBundle: bundle,
+    });
+    assert.equal(derived.ok, true);
+    assert.ok(Number(derived.schedule.p1Events) >= 1);
+    assert.ok(Number(derived.schedule.p2Events) > 0);
+    const plan = solveIrr({ intake: { ...intake, ...derived.schedule }, sopBundle: bundle });
+    assert.ok(Math.abs(plan.p1.delta_day_ml) <= 100);
+    assert.ok(Math.abs(plan.p2.delta_day_ml) <= 100);
+  });
+
+  it("derived schedule respects pump limits and handwater mode", () => {
+    const derived = deriveSchedule({ intake: { ...intake, mode: "handwater" }, sopBundle: bundle });
+    assert.equal(derived.schedule.p2Events, 0);
+    assert.ok(Number(derived.schedule.p1MlPerEvent) <= (bundle.pump_max_ml ?? 1500));
+
+    // Caller limits override the bundle's.
+    const rig = deriveSchedule({ intake, sopBundle: bundle, pumpMaxMl: 60, minP2IntervalMin: 40 });
+    assert.equal(rig.ok, true);
+    assert.ok(Number(rig.schedule.p1MlPerEvent) <= 60);
+    assert.ok(Number(rig.schedule.p2IntervalMin) >= 40);
+    assert.equal(deriveSchedule({ intake, sopBundle: bundle, pumpMinMl: 100, pumpMaxMl: 50 }).ok, false);
+  });
+});
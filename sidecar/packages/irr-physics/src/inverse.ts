@@ -0,0 +1,176 @@
+import { whcPct } from "./curves.ts";
+import { resolveSopBaseline } from "./baseline.ts";
+import { resolveMedia } from "./media.ts";
+import { demandScalars, solveIrr } from "./solve.ts";
+import { nightDrybackPctHr } from "./lightcycle.ts";
+import { estimateTranspiration } from "./transpiration.ts";
+import { resolveSteering } from "./steering.ts";
+import { clamp, irrKey, norm, num, SOLVER_VERSION, weekIndexFromStage } from "./util.ts";
+import type { DeriveScheduleInput, IntakeIrr, IrrSchedulePlan } from "./types.ts";
+
+const P1_INTERVAL_MIN = 30;
+const P1_MAX_EVENTS = 12;
+/** Largest P1 shot as % of WHC before we split refill into more events. */
+const P1_MAX_SHOT_PCT_WHC = 8;
+const P2_DEFAULT_INTERVAL_MIN = 60;
+
+/** Inverse of solveIrr: derive P1/P2 counts, intervals and ml/event from dryback/runoff targets. */
+export function deriveSchedule(input: DeriveScheduleInput): IrrSchedulePlan {
+  const { intake, sopBundle: bundle } = input;
+
+  const phase = intake.stage || "mid bloom";
+  const profile = intake.profile || "Athena Pro";
+  const weekIdx = intake.weekIndex ?? weekIndexFromStage(phase, bundle.total_weeks ?? 13);
+  const media = resolveMedia(intake, bundle, whcPct(weekIdx, bundle));
+  const baseline = resolveSopBaseline(bundle, phase, media.sizeGal, media.sopMedium, profile);
+  const key = baseline?.key ?? irrKey(phase, String(media.sizeGal), media.sopMedium, profile);
+  if (!baseline) {
+    return {
+      ok: false,
+      error: `No SOP irrigation baseline for ${key}`,
+      solver_version: SOLVER_VERSION,
+      schedule: {},
+      notes: [],
+    };
+  }
+  const { sop } = baseline;
+  const { mediaMl, fc_vwc } = media;
+  const whcMl = mediaMl * (fc_vwc / 100);
+  const { dryback_pct_hr } = demandScalars(intake, bundle, input.drybackFit);
+
+  // Explicit targets win; a steering strategy fills the ones left blank before the generic defaults.
+  const steer = resolveSteering(bundle, phase, intake.steering)?.target;
+  const photoperiodH = clamp(num(intake.photoperiodH, 12) ?? 12, 1, 24);
+  const defaultDryback = steer?.dryback_pct ?? 15;
+  const drybackTarget = clamp(
+    num(intake.drybackPct24h, num(intake.targetAtFirst) != null ? fc_vwc - intake.targetAtFirst! : defaultDryback) ??
+      defaultDryback,
+    0,
+    fc_vwc
+  );
+  const targetAtFirst = num(intake.targetAtFirst, fc_vwc - drybackTarget) ?? fc_vwc - drybackTarget;
+  const sopRunoff = steer?.runoff_pct ?? sop.runoffPct;
+  const runoffPct = num(intake.runoffPct, sopRunoff) ?? sopRunoff;
+  const runoffFrac = clamp(runoffPct / 100, 0, 0.5);
+  const handwater = norm(intake.mode || "") === "handwater";
+
+  const pumpMin = num(input.pumpMinMl, bundle.pump_min_ml ?? 20) ?? 20;
+  const pumpMax = num(input.pumpMaxMl, bundle.pump_max_ml ?? 1500) ?? 1500;
+  const minP2Interval = num(input.minP2IntervalMin, bundle.min_p2_interval_min ?? 15) ?? 15;
+  if (!(pumpMin > 0 && pumpMin < pumpMax) || !(minP2Interval > 0)) {
+    return {
+      ok: false,
+      error: `Invalid limits: pump_min_ml ${pumpMin} must be > 0 and below pump_max_ml ${pumpMax}; min_p2_interval_min ${minP2Interval} must be > 0`,
+      solver_version: SOLVER_VERSION,
+      schedule: {},
+      notes: [],
+    };
+  }
+  const notes: string[] = [];
+
+  // P1: fewest events whose per-shot volume stays inside pump limits and the WHC shot cap.
+  const refillMl = mediaMl * (Math.max(0, fc_vwc - targetAtFirst) / 100);
+  const p1ShotPct = steer?.p1_shot_pct_whc ?? P1_MAX_SHOT_PCT_WHC;
+  const p1ShotCap = Math.max(pumpMin, Math.min(pumpMax, whcMl * (p1ShotPct / 100)));
+  const p1Required = (n: number) =>
+    refillMl + mediaMl * (dryback_pct_hr / 100) * (((n - 1) * P1_INTERVAL_MIN) / 60);
+  let p1Events = 1;
+  while (p1Events < P1_MAX_EVENTS && p1Required(p1Events) / p1Events > p1ShotCap) p1Events++;
+  if (p1Required(p1Events) / p1Events > p1ShotCap) {
+    notes.push(`P1 refill needs more than ${P1_MAX_EVENTS} events at the shot cap; shots exceed ${Math.round(p1ShotCap)} ml.`);
+  }
+  const p1MlPerEvent = Math.round(p1Required(p1Events) / p1Events);
+  if (p1MlPerEvent < pumpMin) notes.push(`P1 refill is below pump minimum (${pumpMin} ml); raise dryback or skip P1.`);
+  const p1DurationH = ((p1Events - 1) * P1_INTERVAL_MIN) / 60;
+
+  // Irrigation window: lights-off dries at the night rate, so only the rest of the dryback target
+  // has to happen between the last shot and lights-off.
+  const night = nightDrybackPctHr(intake, dryback_pct_hr, mediaMl, "heuristic", estimateTranspiration(intake));
+  const darkDryback = night.rate * (24 - photoperiodH);
+  const litTailH = dryback_pct_hr > 0 ? Math.max(0, drybackTarget - darkDryback) / dryback_pct_hr : photoperiodH;
+  const irrigationH = clamp(photoperiodH - litTailH, p1DurationH, photoperiodH);
+  if (darkDryback > drybackTarget) {
+    notes.push(`Lights-off dryback alone (${darkDryback.toFixed(1)}% at ${night.rate.toFixed(2)} %/hr) exceeds the ${drybackTarget.toFixed(1)}% target; P2 window capped at the ${photoperiodH} h photoperiod.`);
+  } else if (photoperiodH - litTailH < p1DurationH) {
+    notes.push(`Dryback target ${drybackTarget.toFixed(1)}% needs more than the lights-off period plus ${(photoperiodH - p1DurationH).toFixed(1)} h at ${dryback_pct_hr.toFixed(2)} %/hr; no room for P2.`);
+  }
+  const p2WindowH = Math.max(0, irrigationH - p1DurationH);
+
+  // P2: maintenance shots sized to replace interval dryback plus the runoff target.
+  const p2EventMl = (intervalMin: number) =>
+    (mediaMl * ((dryback_pct_hr * (intervalMin / 60)) / 100)) / (1 - runoffFrac);
+  let p2Interval = P2_DEFAULT_INTERVAL_MIN;
+  if (p2EventMl(p2Interval) < pumpMin) {
+    p2Interval = Math.ceil((pumpMin * (1 - runoffFrac) * 60 * 100) / (mediaMl * Math.max(dryback_pct_hr, 1e-6)));
+  } else if (p2EventMl(p2Interval) > pumpMax) {
+    p2Interval = Math.max(minP2Interval, Math.floor((pumpMax * (1 - runoffFrac) * 60 * 100) / (mediaMl * dryback_pct_hr)));
+  }
+  p2Interval = Math.max(minP2Interval, p2Interval);
+  // P2 normally follows P1 by one interval; a steering strategy sets its own start.
+  const lastP1Min = (p1Events - 1) * P1_INTERVAL_MIN;
+  const p2StartMin = steer ? Math.max(lastP1Min, steer.p2_start_min) : lastP1Min + p2Interval;
+  const irrigationMin = irrigationH * 60;
+  let p2Events = 0;
+  if (!handwater && steer) {
+    p2Events = irrigationMin >= p2StartMin ? Math.floor((irrigationMin - p2StartMin) / p2Interval) + 1 : 0;
+  } else if (!handwater) {
+    p2Events = Math.floor((p2WindowH * 60) / p2Interval);
+  }
+  if (p2EventMl(p2Interval) > pumpMax && p2Events > 0) {
+    notes.push(`P2 shots exceed pump maximum (${pumpMax} ml) even at the ${minP2Interval} min minimum interval.`);
+  }
+  if (handwater) notes.push("Handwater mode: P2 automation disabled.");
+  const p2MlPerEvent = p2Events > 0 ? Math.round(p2EventMl(p2Interval)) : 0;
+
+  const schedule: Partial<IntakeIrr> = {
+    p1Events,
+    p1IntervalMin: P1_INTERVAL_MIN,
+    p1MlPerEvent,
+    p1Pct: Number(((p1MlPerEvent / whcMl) * 100).toFixed(1)),
+    p2Events,
+    p2IntervalMin: p2Interval,
+    ...(steer ? { p2StartMin } : {}),
+    p2MlPerEvent,
+    p2Pct: Number(((p2MlPerEvent / whcMl) * 100).toFixed(1)),
+    runoffPct,
+    targetAtFirst: Number(targetAtFirst.toFixed(1)),
+    drybackPct24h: Number(drybackTarget.toFixed(1)),
+  };
+
+  // Check against the same limits the schedule was sized for, so warnings agree with it.
+  const limits = { ...bundle, pump_min_ml: pumpMin, pump_max_ml: pumpMax, min_p2_interval_min: minP2Interval };
+  const check = solveIrr({ intake: { ...intake, ...schedule }, sopBundle: limits, drybackFit: input.drybackFit });
+
+  return {
+    ok: true,
+    base_key_effective: check.base_key_effective,
+    cfg_key_effective: key,
+    sop_bundle_version: bundle.version,
+    solver_version: SOLVER_VERSION,
+    targets: {
+      fc_vwc,
+      target_at_first: targetAtFirst,
+      dryback_pct_24h: drybackTarget,
+      runoff_target_frac: runoffFrac,
+      dryback_pct_hr,
+      night_dryback_pct_hr: night.rate,
+      photoperiod_h: photoperiodH,
+    },
+    window: {
+      p1_duration_h: p1DurationH,
+      p2_window_h: p2WindowH,
+      irrigation_h: irrigationH,
+      overnight_h: 24 - irrigationH,
+    },
+    schedule,
+    check: {
+      p1_delta_day_ml: check.p1.delta_day_ml,
+      p2_delta_day_ml: check.p2.delta_day_ml,
+      estimated_runoff_frac: check.p2.estimated_runoff_frac,
+      total_required_day_ml: check.total_required_day_ml,
+      issues: check.issues,
+      warnings: check.warnings,
+    },
+    notes,
+  };
+}
@@ -7,6 +7,7 @@ export function flattenSolvePlan(plan: IrrSolvePlan): Record<string, unknown> {
   }
 
   const whcMl = plan.media.whc_ml || 0;
+  const shots = plan.shot_seconds;
   const p1Pct =
     whcMl > 0 && plan.p1.ml_event_reconciled > 0
       ? Number(((plan.p1.ml_event_reconciled / whcMl) * 100).toFixed(3))
@@ -33,12 +34,17 @@ export function flattenSolvePlan(plan: IrrSolvePlan): Record<string, unknown> {
     dbPct_interval: plan.demand.dbPct_interval,
     w_maint_event_ml: plan.p2.maintenance_event_ml,
     p2_runoff_frac: plan.p2.runoff_target_frac,
+    seconds_per_p1_event: shots?.p1.reconciled ?? null,
+    seconds_per_p2_event: shots?.p2.reconciled ?? null,
     p1: {
       events: plan.p1.events_user,
       pct_whc_ideal: p1Pct,
       ml_event_ideal: plan.p1.ml_event_reconciled,
       ml_event_ideal_raw: plan.p1.ml_event_user,
       pct_whc_ideal_raw: p1Pct,
+      seconds_event_ideal: shots?.p1.reconciled ?? null,
+      seconds_event_ideal_raw: shots?.p1.user ?? null,
+      seconds_event_sop: shots?.p1.sop ?? null,
     },
     p2: {
       events: plan.p2.events_user,
@@ -46,6 +52,9 @@ export function flattenSolvePlan(plan: IrrSolvePlan): Record<string, unknown> {
       ml_event_ideal: plan.p2.ml_event_reconciled,
       ml_event_ideal_raw: plan.p2.ml_event_user,
       pct_whc_ideal_raw: p2Pct,
+      seconds_event_ideal: shots?.p2.reconciled ?? null,
+      seconds_event_ideal_raw: shots?.p2.user ?? null,
+      seconds_event_sop: shots?.p2.sop ?? null,
     },
     observed: {
       level: plan.coherence.length ? "PARTIAL" : "NONE",
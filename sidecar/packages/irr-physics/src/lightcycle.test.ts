@@ -0,0 +1,35 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { intake } from "./fixtures.ts";
+import { loadSopBundle, simulateVwc, solveIrr } from "./index.ts";
+
+const bundle = loadSopBundle("Athena Pro")!;
+
+describe("lightcycle", () => {
+  it("splits the day into lights-on and lights-off dryback", () => {
+    const lit = { ...intake, photoperiodH: 12 };
+    const base = solveIrr({ intake: lit, sopBundle: bundle });
+    assert.equal(base.lightcycle?.night_source, "default");
+    assert.equal(base.lightcycle?.dark_h, 12);
+    assert.equal(base.lightcycle?.last_shot_min, 90 + 9 * 60);
+    assert.equal(base.lightcycle?.fits_photoperiod, true);
+
+    const night = solveIrr({ intake: { ...lit, nightTempC: 22, nightRh: 60 }, sopBundle: bundle });
+    const lc = night.lightcycle!;
+    assert.equal(lc.night_source, "intake");
+    assert.equal(lc.night_climate?.temp_c, 22);
+    assert.ok(lc.night_dryback_pct_hr < lc.day_dryback_pct_hr);
+    const expected = lc.day_dryback_pct_hr * (12 - 10.5) + lc.night_dryback_pct_hr * 12;
+    assert.ok(Math.abs(lc.predicted_dryback_pct - expected) < 1e-9);
+    const mismatch = night.issues.find((i) => i.code === "OVERNIGHT_DRYBACK_MISMATCH");
+    assert.equal(mismatch?.data.actual, 18);
+
+    const sim = simulateVwc({ intake: { ...lit, nightTempC: 22, nightRh: 60 }, sopBundle: bundle });
+    assert.equal(sim.dryback_pct_hr?.night, lc.night_dryback_pct_hr);
+
+    const late = solveIrr({ intake: { ...lit, p2Events: 14 }, sopBundle: bundle });
+    const overflow = late.issues.find((i) => i.code === "SHOTS_AFTER_LIGHTS_OFF");
+    assert.equal(overflow?.data.overflow_min, 90 + 14 * 60 - 720);
+    assert.deepEqual(overflow?.fix, { field: "p2Events", value: 10 });
+  });
+});
@@ -0,0 +1,92 @@
+import { clamp, num } from "./util.ts";
+import type { TranspirationEstimate } from "./transpiration.ts";
+import type { DemandModel, IntakeIrr, LightcyclePlan } from "./types.ts";
+
+/** Lights-off dryback as a fraction of the lights-on rate when no night climate is known. */
+export const NIGHT_DRYBACK_FRAC = 0.35;
+/** Substrate evaporation and residual stomatal loss keep lights-off dryback above this fraction. */
+const MIN_NIGHT_FRAC = 0.1;
+
+function nightSource(intake: IntakeIrr): LightcyclePlan["night_source"] {
+  if (intake.nightProfileKey) return "stage-profile";
+  const fields = [intake.nightTempC, intake.nightRh, intake.nightVpdKpa, intake.nightCo2];
+  return fields.some((v) => num(v) != null) ? "intake" : "default";
+}
+
+/**
+ * Lights-off dryback in VWC points/hr. With a night climate the day rate is scaled by the
+ * Penman-Monteith night/day transpiration ratio (or taken straight from physics under that model),
+ * kept between MIN_NIGHT_FRAC of the lights-on rate and the lights-on rate itself.
+ */
+export function nightDrybackPctHr(
+  intake: IntakeIrr,
+  dayRate: number,
+  mediaMl: number,
+  model: DemandModel,
+  et: TranspirationEstimate
+): { rate: number; source: LightcyclePlan["night_source"] } {
+  const source = nightSource(intake);
+  if (source === "default") return { rate: dayRate * NIGHT_DRYBACK_FRAC, source };
+  let rate: number;
+  if (model === "penman-monteith") {
+    rate = mediaMl > 0 ? (et.et_ml_plant_night_hr / mediaMl) * 100 : 0;
+  } else {
+    rate = et.et_ml_plant_hr > 0 ? dayRate * (et.et_ml_plant_night_hr / et.et_ml_plant_hr) : dayRate * NIGHT_DRYBACK_FRAC;
+  }
+  return { rate: clamp(rate, dayRate * MIN_NIGHT_FRAC, dayRate), source };
+}
+
+/**
+ * Split the day into lights-on and lights-off windows, check the P1/P2 shots (same offsets as
+ * `shotOffsetsMin` from lights-on) end before lights-off, and predict the dryback from the last
+ * shot, assumed to leave the media at FC, to the next lights-on.
+ */
+export function planLightcycle(
+  intake: IntakeIrr,
+  ctx: {
+    dayRate: number;
+    mediaMl: number;
+    fcVwc: number;
+    model: DemandModel;
+    et: TranspirationEstimate;
+    p1Events: number;
+    p1IntervalMin: number;
+    p2Events: number;
+    p2IntervalMin: number;
+    p2StartMin: number;
+  }
+): LightcyclePlan {
+  const photoperiodH = clamp(num(intake.photoperiodH, 12) ?? 12, 0, 24);
+  const darkH = 24 - photoperiodH;
+  const night = nightDrybackPctHr(intake, ctx.dayRate, ctx.mediaMl, ctx.model, ctx.et);
+
+  const lastP1Min = Math.max(0, ctx.p1Events - 1) * ctx.p1IntervalMin;
+  const lastShotMin = ctx.p2Events > 0 ? ctx.p2StartMin + (ctx.p2Events - 1) * ctx.p2IntervalMin : lastP1Min;
+  const photoperiodMin = photoperiodH * 60;
+  const maxP2Events =
+    ctx.p2StartMin <= photoperiodMin ? Math.floor((photoperiodMin - ctx.p2StartMin) / ctx.p2IntervalMin) + 1 : 0;
+
+  // Time from the last shot to the next lights-on, split by whether the lights are on.
+  const lastShotH = Math.min(lastShotMin / 60, 24);
+  const litTailH = Math.max(0, photoperiodH - lastShotH);
+  const darkTailH = Math.min(darkH, 24 - lastShotH);
+  const predicted = ctx.dayRate * litTailH + night.rate * darkTailH;
+
+  return {
+    photoperiod_h: photoperiodH,
+    dark_h: darkH,
+    day_dryback_pct_hr: ctx.dayRate,
+    night_dryback_pct_hr: night.rate,
+    night_source: night.source,
+    night_profile_key: intake.nightProfileKey,
+    night_climate:
+      night.source === "default"
+        ? undefined
+        : { temp_c: ctx.et.night.temp_c, vpd_kpa: ctx.et.night.vpd_kpa, co2: ctx.et.night.co2 },
+    last_shot_min: lastShotMin,
+    fits_photoperiod: lastShotMin <= photoperiodMin,
+    max_p2_events: maxP2Events,
+    predicted_dryback_pct: predicted,
+    predicted_vwc_at_first: Math.max(0, ctx.fcVwc - predicted),
+  };
+}
@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { copyFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { intake } from "./fixtures.ts";
+import {
+  listSopBundleVersions,
+  loadSopBundle,
+  reloadSopBundles,
+  resolveSopBundleDef,
+  solveIrr,
+  sopBundleDir,
+  type SopBundle,
+} from "./index.ts";
+
+describe("loadSopBundle", () => {
+  it("keeps pinned SOP bundle versions resolvable across a hot reload", () => {
+    const dir = mkdtempSync(join(tmpdir(), "sop-bundles-"));
+    try {
+      copyFileSync(join(sopBundleDir(), "schema.json"), join(dir, "schema.json"));
+      const v1 = JSON.parse(readFileSync(join(sopBundleDir(), "athenapro.json"), "utf8")) as SopBundle;
+      writeFileSync(join(dir, "athenapro.json"), JSON.stringify(v1));
+      assert.equal(loadSopBundle("Athena Pro", dir)?.version, v1.version);
+
+      const v2 = structuredClone(v1);
+      v2.version = "2026-10-01.1";
+      v2.irr["mid bloom|1|coco|athenapro"]!.p1_ml += 25;
+      writeFileSync(join(dir, "athenapro.json"), JSON.stringify(v2));
+      assert.equal(loadSopBundle("Athena Pro", dir)?.version, v1.version, "cached until reload");
+
+      const listed = reloadSopBundles(dir);
+      assert.deepEqual(listed[0]?.versions, [v1.version, v2.version].sort());
+      assert.equal(listSopBundleVersions("Athena Pro", dir).current_version, v2.version);
+
+      const pinned = loadSopBundle("Athena Pro", dir, v1.version)!;
+      const current = loadSopBundle("Athena Pro", dir)!;
+      const old = solveIrr({ intake, sopBundle: pinned });
+      const now = solveIrr({ intake, sopBundle: current });
+      assert.equal(old.sop_bundle_version, v1.version);
+      assert.equal(now.sop_bundle_version, v2.version);
+      assert.equal(loadSopBundle("Athena Pro", dir, "1999-01-01.1"), null);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("resolves bundle inheritance with per-value provenance", () => {
+    // SharkMouseFarms pins its parent, so republishing Athena Pro leaves it unchanged.
+    const athena = loadSopBundle("Athena Pro", undefined, "2026-05-24.1")!;
+    const shark = loadSopBundle("SharkMouseFarms")!;
+    assert.deepEqual(shark.lineage, [`Athena Pro@${athena.version}`, `SharkMouseFarms@${shark.version}`]);
+    assert.deepEqual(shark.irr["mid bloom|1|coco|sharkmousefarms"], athena.irr["mid bloom|1|coco|athenapro"]);
+
+    const custom = resolveSopBundleDef({
+      profile: "Athena Late Runoff",
+      version: "1",
+      extends: "SharkMouseFarms",
+      pwec_max: 5,
+      irr: { "late bloom|*|*": { runoffPct: 15 } },
+    });
+    assert.equal(custom.ok, true);
+    const b = custom.bundle!;
+    assert.equal(b.irr["late bloom|1|rockwool|athenalaterunoff"]!.runoffPct, 15);
+    assert.equal(b.irr["late bloom|1|rockwool|athenalaterunoff"]!.p1_ml, athena.irr["late bloom|1|rockwool|athenapro"]!.p1_ml);
+    assert.equal(b.provenance!["irr.late bloom|1|coco|athenalaterunoff.runoffPct"], "Athena Late Runoff@1");
+    assert.equal(b.provenance!["irr.late bloom|1|coco|athenalaterunoff.p1_ml"], `Athena Pro@${athena.version}`);
+    assert.equal(b.provenance!.pwec_max, "Athena Late Runoff@1");
+    assert.equal(b.provenance!.whc_start, `Athena Pro@${athena.version}`);
+
+    const plan = solveIrr({ intake: { ...intake, stage: "late bloom", profile: b.profile }, sopBundle: b });
+    assert.equal(plan.ok, true);
+    assert.equal(plan.sop_baseline?.provenance?.runoffPct, "Athena Late Runoff@1");
+    assert.equal(plan.sop_lineage?.length, 3);
+
+    const loop = resolveSopBundleDef({ profile: "Loop", version: "1", extends: "Loop" });
+    assert.equal(loop.ok, false);
+    assert.match(loop.error!, /cycle/);
+  });
+
+  it("rejects shipped bundles that extend an unpinned parent", () => {
+    const dir = mkdtempSync(join(tmpdir(), "sop-bundles-"));
+    try {
+      copyFileSync(join(sopBundleDir(), "schema.json"), join(dir, "schema.json"));
+      copyFileSync(join(sopBundleDir(), "athenapro.json"), join(dir, "athenapro.json"));
+      writeFileSync(join(dir, "child.json"), JSON.stringify({ profile: "Child", version: "1", extends: "Athena Pro" }));
+      assert.equal(loadSopBundle("Child", dir), null);
+
+      const athena = loadSopBundle("Athena Pro", dir)!;
+      writeFileSync(join(dir, "child.json"), JSON.stringify({ profile: "Child", version: "1", extends: `Athena Pro@${athena.version}` }));
+      assert.deepEqual(loadSopBundle("Child", dir)?.lineage, [`Athena Pro@${athena.version}`, "Child@1"]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
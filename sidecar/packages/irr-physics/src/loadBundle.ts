@@ -1,38 +1,203 @@
-import { readFileSync, existsSync } from "node:fs";
+import { readFileSync, existsSync, readdirSync, mkdirSync, writeFileSync } from "node:fs";
 import { dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
-import type { SopBundle } from "./types.ts";
+import type { SopBundle, SopBundleDef, SopBundleInfo } from "./types.ts";
+import { validateBundle } from "./bundleCheck.ts";
+import { bundleSource, mergeBundle, parseExtends } from "./inherit.ts";
 import { profileKey } from "./util.ts";
 
 const __dir = dirname(fileURLToPath(import.meta.url));
+const MAX_EXTENDS_DEPTH = 8;
 
-let cache: Record<string, SopBundle> = {};
+type BundleResolution = { ok: true; bundle: SopBundle; error?: undefined } | { ok: false; bundle?: undefined; error: string };
 
-export function loadSopBundle(profile: string, dataDir?: string): SopBundle | null {
-  const pk = profileKey(profile);
-  if (cache[pk]) return cache[pk]!;
+type Cached = { dir: string; bundle: SopBundle; current: boolean };
+
+/** Cached per bundle dir and `profile@version`; `current` is the top-level `<profile>.json`. */
+let cache: Record<string, Cached> = {};
 
+/** data/sop-bundles under the working directory, else the copy shipped beside the packages. */
+export function sopBundleDir(dataDir?: string): string {
   const cwdDir = join(process.cwd(), "data", "sop-bundles");
-  const dir = dataDir ?? (existsSync(cwdDir) ? cwdDir : join(__dir, "../../../data/sop-bundles"));
+  return dataDir ?? (existsSync(cwdDir) ? cwdDir : join(__dir, "../../../data/sop-bundles"));
+}
+
+/** Archived versions live beside the current bundle in `versions/<profile>/<version>.json`. */
+function versionPath(dir: string, pk: string, version: string): string {
+  return join(dir, "versions", pk, `${version.replace(/[^a-zA-Z0-9._-]+/g, "_")}.json`);
+}
+
+/**
+ * Bundles on disk must extend an exact `Profile@version`: an unpinned parent would change the
+ * effective values behind an unchanged version label whenever the parent is republished.
+ */
+function unpinnedExtends(raw: SopBundleDef): string | null {
+  if (!raw?.extends || raw.lineage || parseExtends(raw.extends).version) return null;
+  return `extends "${raw.extends}" has no @version pin`;
+}
+
+function readBundle(path: string, dir: string): SopBundle | null {
+  if (!existsSync(path)) return null;
+  let raw: SopBundleDef;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8")) as SopBundleDef;
+  } catch (e) {
+    console.warn(`[sop-bundle] ${path}: ${(e as Error).message}`);
+    return null;
+  }
+  // A broken bundle is skipped loudly rather than solved against.
+  const unpinned = unpinnedExtends(raw);
+  if (unpinned) {
+    console.warn(`[sop-bundle] ${path}: ${unpinned}`);
+    return null;
+  }
+  const resolved = resolveSopBundleDef(raw, dir);
+  if (!resolved.ok) {
+    console.warn(`[sop-bundle] ${path}: ${resolved.error}`);
+    return null;
+  }
+  return resolved.bundle;
+}
+
+/**
+ * Resolve a bundle definition's `extends` chain against bundles on disk and validate the result.
+ * Archived snapshots already carry `lineage` and are used as written, so a pinned version keeps
+ * its effective values even after the parent changes.
+ */
+export function resolveSopBundleDef(
+  def: SopBundleDef,
+  dataDir?: string,
+  seen: string[] = [],
+): BundleResolution {
+  const dir = sopBundleDir(dataDir);
+  let bundle = def as SopBundle;
+  if (def && typeof def === "object" && def.extends && !def.lineage) {
+    const ref = parseExtends(def.extends);
+    const chain = [...seen, profileKey(def.profile ?? "")];
+    if (chain.includes(profileKey(ref.profile)) || chain.length > MAX_EXTENDS_DEPTH) {
+      return { ok: false, error: `extends cycle: ${[...chain, profileKey(ref.profile)].join(" → ")}` };
+    }
+    const parent = loadParent(ref.profile, dir, ref.version, chain);
+    if (!parent.ok) return parent;
+    bundle = mergeBundle(parent.bundle, def);
+  }
+  const report = validateBundle(bundle, dir);
+  if (!report.ok) return { ok: false, error: report.errors.map((e) => e.message).join("; ") };
+  return { ok: true, bundle };
+}
+
+/** Parents load uncached through the same chain so a cycle is reported instead of recursing. */
+function loadParent(profile: string, dir: string, version: string | undefined, seen: string[]): BundleResolution {
+  const pk = profileKey(profile);
+  const paths = version ? [versionPath(dir, pk, version), join(dir, `${pk}.json`)] : [join(dir, `${pk}.json`)];
+  for (const path of paths) {
+    if (!existsSync(path)) continue;
+    let raw: SopBundleDef;
+    try {
+      raw = JSON.parse(readFileSync(path, "utf8")) as SopBundleDef;
+    } catch (e) {
+      return { ok: false, error: `parent ${profile}: ${(e as Error).message}` };
+    }
+    if (version && raw.version !== version) continue;
+    const unpinned = unpinnedExtends(raw);
+    if (unpinned) return { ok: false, error: `parent ${profile}: ${unpinned}` };
+    const resolved = resolveSopBundleDef(raw, dir, seen);
+    if (!resolved.ok) return { ok: false, error: `parent ${profile}: ${resolved.error}` };
+    return resolved;
+  }
+  return { ok: false, error: `parent bundle not found: ${version ? bundleSource({ profile, version }) : profile}` };
+}
+
+/**
+ * Current bundle for a profile, or an exact archived `version`. A requested version never falls
+ * back to another one: a pinned run either gets the SOP it was planned against or null.
+ */
+export function loadSopBundle(profile: string, dataDir?: string, version?: string): SopBundle | null {
+  const pk = profileKey(profile);
+  const dir = sopBundleDir(dataDir);
+  const cacheKey = `${dir}|${pk}@${version ?? "current"}`;
+  if (cache[cacheKey]) return cache[cacheKey]!.bundle;
+
+  if (version) {
+    const current = loadSopBundle(profile, dataDir);
+    const bundle = current?.version === version ? current : readBundle(versionPath(dir, pk, version), dir);
+    if (bundle?.version !== version) return null;
+    cache[cacheKey] = { dir, bundle, current: false };
+    return bundle;
+  }
+
   const candidates = [
     join(dir, `${pk}.json`),
     join(dir, `${profile}.json`),
     join(dir, "athena-pro.json"),
   ];
-
   for (const path of candidates) {
-    if (!existsSync(path)) continue;
-    try {
-      const raw = JSON.parse(readFileSync(path, "utf8")) as SopBundle;
-      cache[pk] = raw;
-      return raw;
-    } catch {
-      /* try next */
-    }
+    const bundle = readBundle(path, dir);
+    if (!bundle) continue;
+    cache[cacheKey] = { dir, bundle, current: true };
+    return bundle;
   }
   return null;
 }
 
+/** Every profile on disk with its current version and the archived versions stored beside it. */
+export function listSopBundles(dataDir?: string): SopBundleInfo[] {
+  const dir = sopBundleDir(dataDir);
+  if (!existsSync(dir)) return [];
+  const keys = new Set(
+    readdirSync(dir)
+      .filter((f) => f.endsWith(".json") && f !== "schema.json")
+      .map((f) => f.slice(0, -".json".length)),
+  );
+  const versionsDir = join(dir, "versions");
+  if (existsSync(versionsDir)) for (const pk of readdirSync(versionsDir)) keys.add(pk);
+  return [...keys].sort().map((pk) => listSopBundleVersions(pk, dataDir));
+}
+
+export function listSopBundleVersions(profile: string, dataDir?: string): SopBundleInfo {
+  const dir = sopBundleDir(dataDir);
+  const pk = profileKey(profile);
+  const current = loadSopBundle(pk, dataDir);
+  const archived = join(dir, "versions", pk);
+  const versions = new Set<string>(current ? [current.version] : []);
+  if (existsSync(archived)) {
+    for (const f of readdirSync(archived).filter((f) => f.endsWith(".json"))) {
+      const bundle = readBundle(join(archived, f), dir);
+      if (bundle && profileKey(bundle.profile) === pk) versions.add(bundle.version);
+    }
+  }
+  return {
+    profile: current?.profile ?? profile,
+    profile_key: pk,
+    current_version: current?.version ?? null,
+    versions: [...versions].sort(),
+  };
+}
+
+/** Copy a bundle into `versions/` unless that version is already archived; returns the archive path. */
+export function archiveSopBundle(bundle: SopBundle, dataDir?: string): string {
+  const path = versionPath(sopBundleDir(dataDir), profileKey(bundle.profile), bundle.version);
+  if (!existsSync(path)) {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(bundle, null, 2), "utf8");
+  }
+  return path;
+}
+
+/**
+ * Hot reload: archive the versions currently in memory (so runs pinned to them keep resolving after
+ * the file on disk is replaced), then drop the cache and re-read every profile.
+ */
+export function reloadSopBundles(dataDir?: string): SopBundleInfo[] {
+  const dir = sopBundleDir(dataDir);
+  for (const entry of Object.values(cache)) {
+    if (entry.current && entry.dir === dir) archiveSopBundle(entry.bundle, dir);
+  }
+  clearBundleCache();
+  return listSopBundles(dataDir);
+}
+
+/** Drop cached bundles so edited or newly published files are read on the next solve. */
 export function clearBundleCache() {
   cache = {};
 }
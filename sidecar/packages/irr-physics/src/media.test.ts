@@ -0,0 +1,49 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { intake } from "./fixtures.ts";
+import { blendMedia, loadSopBundle, normalizeContainerGal, solveIrr } from "./index.ts";
+
+const bundle = loadSopBundle("Athena Pro")!;
+
+describe("media and container sizing", () => {
+  it("keys litre pots by gallon size and sizes media from the exact litres", () => {
+    assert.equal(normalizeContainerGal("11 L"), "2.906");
+    assert.equal(normalizeContainerGal("2 gal"), "2");
+
+    const plan = solveIrr({ intake: { ...intake, container: "2", containerL: 7.5 }, sopBundle: bundle });
+    const nominal = solveIrr({ intake: { ...intake, container: "2" }, sopBundle: bundle });
+    assert.equal(plan.ok, true);
+    assert.equal(plan.media.pot_l, 7.5);
+    assert.ok(plan.media.media_ml < nominal.media.media_ml);
+  });
+
+  it("solves arbitrary container volumes, slabs and custom media against interpolated SOP baselines", () => {
+    const exact = solveIrr({ intake: { ...intake, container: "2" }, sopBundle: bundle });
+    assert.equal(exact.sop_baseline?.source, "exact");
+
+    const mid = solveIrr({ intake: { ...intake, container: "1.5" }, sopBundle: bundle });
+    assert.equal(mid.ok, true);
+    assert.equal(mid.sop_baseline?.source, "interpolated");
+    assert.equal(mid.sop_baseline?.from.length, 2);
+
+    const big = solveIrr({ intake: { ...intake, container: "15" }, sopBundle: bundle });
+    assert.equal(big.ok, true);
+    assert.equal(big.sop_baseline?.source, "scaled");
+    assert.ok(big.p1.required_day_ml > exact.p1.required_day_ml);
+
+    const slab = solveIrr({
+      intake: { ...intake, medium: "rockwool", container: "1", geometry: "slab", dimsCm: { l: 100, w: 15, h: 7.5 }, plantsPerContainer: 4 },
+      sopBundle: bundle,
+    });
+    assert.equal(slab.ok, true);
+    assert.equal(slab.media.geometry, "slab");
+    assert.equal(slab.media.plants_per_container, 4);
+    assert.ok(Math.abs(slab.media.media_ml - 2812.5) < 1);
+
+    const blend = blendMedia({ coco: 0.7, perlite: 0.3 })!;
+    const airy = solveIrr({ intake: { ...intake, mediaDef: blend }, sopBundle: bundle });
+    assert.equal(airy.ok, true);
+    assert.equal(airy.media.medium_id, blend.id);
+    assert.ok(airy.media.fc_vwc < solveIrr({ intake, sopBundle: bundle }).media.fc_vwc);
+  });
+});
@@ -1,23 +1,106 @@
+import { galToL, lToGal } from "../../units/src/index.ts";
 import { num, norm, POT_MEDIA_ML } from "./util.ts";
-import type { IntakeIrr, SopBundle } from "./types.ts";
+import type { ContainerGeometry, IntakeIrr, MediaDef, SopBundle } from "./types.ts";
+
+const BASE_MEDIA: Record<string, MediaDef> = {
+  coco: { id: "coco", label: "Coco coir", fc_vwc: 60, vwc_floor: 10, fill_factor: 1.22, sop_medium: "coco" },
+  rockwool: { id: "rockwool", label: "Rockwool", fc_vwc: 60, vwc_floor: 20, fill_factor: 1.0, sop_medium: "rockwool" },
+  peat: { id: "peat", label: "Peat mix", fc_vwc: 55, vwc_floor: 15, fill_factor: 1.15, sop_medium: "coco" },
+  soil: { id: "soil", label: "Living soil", fc_vwc: 45, vwc_floor: 18, fill_factor: 1.1, sop_medium: "coco" },
+  perlite: { id: "perlite", label: "Perlite", fc_vwc: 25, vwc_floor: 3, fill_factor: 1.0, sop_medium: "coco" },
+};
+
+/** Volume-weighted blend of library substrates, e.g. { coco: 0.7, perlite: 0.3 }. */
+export function blendMedia(parts: Record<string, number>, library: Record<string, MediaDef> = BASE_MEDIA): MediaDef | null {
+  const entries = Object.entries(parts)
+    .map(([id, share]) => ({ def: library[norm(id)], share: Number(share) }))
+    .filter((e) => e.def && e.share > 0);
+  const total = entries.reduce((a, e) => a + e.share, 0);
+  if (!entries.length || total <= 0) return null;
+  const avg = (f: (d: MediaDef) => number) => entries.reduce((a, e) => a + f(e.def!) * e.share, 0) / total;
+  const main = entries.reduce((a, e) => (e.share > a.share ? e : a));
+  return {
+    id: entries.map((e) => `${e.def!.id}-${Math.round((e.share / total) * 100)}`).join("-"),
+    fc_vwc: Number(avg((d) => d.fc_vwc).toFixed(1)),
+    vwc_floor: Number(avg((d) => d.vwc_floor).toFixed(1)),
+    fill_factor: Number(avg((d) => d.fill_factor).toFixed(3)),
+    sop_medium: main.def!.sop_medium ?? main.def!.id,
+    blend: Object.fromEntries(entries.map((e) => [e.def!.id, e.share / total])),
+  };
+}
+
+/** SOP medium a substrate without `sop_medium` borrows baselines from (bundles key coco and rockwool). */
+const DEFAULT_SOP_MEDIUM = "coco";
+
+/** Built-in substrates; `sop_medium` names the bundle baselines a substrate borrows. */
+export const MEDIA_LIBRARY: Record<string, MediaDef> = {
+  ...BASE_MEDIA,
+  "coco-perlite-70-30": { ...blendMedia({ coco: 0.7, perlite: 0.3 }, BASE_MEDIA)!, id: "coco-perlite-70-30", label: "Coco / perlite 70:30" },
+  "coco-perlite-50-50": { ...blendMedia({ coco: 0.5, perlite: 0.5 }, BASE_MEDIA)!, id: "coco-perlite-50-50", label: "Coco / perlite 50:50" },
+};
+
+/** Intake's own definition, then the built-in library; unknown substrates behave like coco. */
+export function resolveMediaDef(intake: IntakeIrr): MediaDef {
+  if (intake.mediaDef) return intake.mediaDef;
+  const id = norm(intake.medium || "coco").replace(/\s+/g, "-");
+  return MEDIA_LIBRARY[id] ?? { ...MEDIA_LIBRARY.coco!, id, label: intake.medium };
+}
+
+function geometryOf(intake: IntakeIrr): ContainerGeometry {
+  const g = norm(intake.geometry || "");
+  return g === "slab" || g === "block" ? g : "pot";
+}
 
 export function resolveMedia(intake: IntakeIrr, bundle: SopBundle, fcFromWhc: number) {
+  const def = resolveMediaDef(intake);
   const media = norm(intake.medium || "coco");
+  const sopMedium = norm(def.sop_medium ?? MEDIA_LIBRARY[def.id]?.sop_medium ?? DEFAULT_SOP_MEDIUM);
+  const geometry = geometryOf(intake);
   const container = String(intake.container || "1").replace(/[^\d.]/g, "") || "1";
   const mediaKey = `${media}|${container}`;
-  const fill = bundle.media_fill_factor ?? 1.0;
+  const plants = Math.max(1, Math.round(num(intake.plantsPerContainer, 1) ?? 1));
+  // Pots are mounded above the rim; slabs and blocks are sold at their exact dimensions.
+  const native = !intake.mediaDef && def.id === sopMedium;
+  const fill = geometry !== "pot" ? 1.0 : native ? bundle.media_fill_factor ?? def.fill_factor : def.fill_factor;
+
+  const dims = intake.dimsCm;
+  const dimsL = dims && dims.l > 0 && dims.w > 0 && dims.h > 0 ? (dims.l * dims.w * dims.h) / 1000 : null;
+  const litres = dimsL ?? num(intake.containerL);
+  const containerL = litres != null && litres > 0 ? litres : undefined;
 
   const fromBundle = bundle.media?.[mediaKey];
-  let mediaMl = fromBundle?.v_media_ml ?? null;
+  // An exact litre volume (EU pots, slabs) wins over the nominal gallon size.
+  let mediaMl = containerL != null ? containerL * 1000 * fill : fromBundle?.v_media_ml ?? null;
   if (mediaMl == null) {
     const gal = num(container, 1) ?? 1;
-    const base = POT_MEDIA_ML[String(Math.round(gal))] ?? gal * 3785.41;
-    mediaMl = base * fill;
+    mediaMl = (POT_MEDIA_ML[String(gal)] ?? galToL(gal) * 1000) * fill;
   }
+  mediaMl /= plants;
+
+  const potGal = containerL != null ? lToGal(containerL) : num(container, 1) ?? 1;
+  // Per-plant nominal size picks the SOP baselines (a 4-plant slab is four small pots).
+  const sizeGal = potGal / plants;
+
+  // Scale the bundle's FC curve by how much water this substrate holds relative to the SOP medium.
+  const refFc = bundle.media?.[`${sopMedium}|1`]?.fc_vwc ?? MEDIA_LIBRARY[sopMedium]?.fc_vwc ?? def.fc_vwc;
+  const fc_vwc = refFc > 0 ? fcFromWhc * (def.fc_vwc / refFc) : fcFromWhc;
 
-  const potGal = num(container, 1) ?? undefined;
-  const fc_vwc = fcFromWhc;
-  const vwc_floor = fromBundle?.vwc_floor ?? 10;
+  const nearest = fromBundle ?? nearestBundleMedia(bundle, media, sizeGal);
+  const vwc_floor = intake.mediaDef || !nearest ? def.vwc_floor : nearest.vwc_floor ?? def.vwc_floor;
 
-  return { mediaMl, potGal, fc_vwc, vwc_floor, mediaKey };
+  return { mediaMl, potGal, containerL, sizeGal, geometry, plants, fc_vwc, vwc_floor, mediaKey, sopMedium, def };
+}
+
+function nearestBundleMedia(bundle: SopBundle, media: string, gal: number) {
+  let best: { vwc_floor?: number } | undefined;
+  let bestD = Infinity;
+  for (const [k, v] of Object.entries(bundle.media ?? {})) {
+    const [m, size] = k.split("|");
+    const d = Math.abs(Number(size) - gal);
+    if (m === media && d < bestD) {
+      best = v;
+      bestD = d;
+    }
+  }
+  return best;
 }
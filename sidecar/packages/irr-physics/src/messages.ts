@@ -0,0 +1,78 @@
+import type { IrrIssue, IrrIssueCode } from "./types.ts";
+
+type Data = IrrIssue["data"];
+
+const n = (d: Data, k: string): number => Number(d[k] ?? 0);
+const ml = (d: Data, k: string) => Math.round(Math.abs(n(d, k)));
+const pct = (d: Data, k: string) => (n(d, k) * 100).toFixed(0);
+const fx = (d: Data, k: string, digits: number) => n(d, k).toFixed(digits);
+
+const STEERING_FIELDS: Record<string, string> = {
+  dryback_pct: "Overnight dryback (VWC points)",
+  p1_shot_pct_whc: "P1 shot size (% WHC)",
+  p2_start_min: "P2 start (min after lights-on)",
+  runoff_pct: "Runoff (%)",
+};
+
+/** English templates, one per issue code; numbers come from the issue payload only. */
+const EN: Record<IrrIssueCode, (d: Data) => string> = {
+  P1_REFILL_SHORT: (d) => `P1 refill short: submitted P1 total cannot reach FC (short by ${ml(d, "delta_ml_day")} ml/day).`,
+  P1_OVERFILL: (d) => `P1 overfill: submitted P1 exceeds refill budget by ${ml(d, "delta_ml_day")} ml/day.`,
+  P2_SHORT: (d) => `P2 short: submitted P2 total cannot maintain dryback + runoff target (short by ${ml(d, "delta_ml_day")} ml/day).`,
+  P2_OVER: (d) => `P2 over: submitted P2 is heavy by ${ml(d, "delta_ml_day")} ml/day.`,
+  P2_IGNORED_FLUSH: () => "Flush mode: P2 events are 0 but P2 ml/event is set; P2 volume is ignored.",
+  HANDWATER_P2_INFO: () => "Handwater mode: P2 automation checks are informational only.",
+  RUNOFF_MISSED: (d) => `Runoff missed: estimated runoff ${pct(d, "actual")}%, target ${pct(d, "target")}%.`,
+  RUNOFF_HIGH: (d) => `Runoff high: estimated runoff ${pct(d, "actual")}% exceeds target ${pct(d, "target")}%.`,
+  P2_INTERVAL_SHORT: (d) => `P2 interval may be too short (${d.actual} min) for pump/absorption.`,
+  P2_BELOW_PUMP_MIN: (d) => `P2 event volume (${d.actual} ml) may be below pump minimum (${d.target} ml).`,
+  P2_ABOVE_PUMP_MAX: (d) => `P2 event volume (${d.actual} ml) may risk saturation/PWEC shock.`,
+  SOP_DEVIATION: () => "Daily irrigation changed significantly from SOP baseline; watch EC/PWEC stability.",
+  DAILY_EXCEEDS_CAPACITY: () => "Required daily irrigation may exceed practical container water capacity.",
+  TARGET_AT_FIRST_MISSING: () => "Missing Target at first event (VWC start); solver used fallback.",
+  DRYBACK_MISMATCH: (d) =>
+    `Dryback mismatch: FC(${fx(d, "fc_vwc", 1)}) - FirstEvent(${d.target_at_first}) = ${fx(d, "expected", 1)} VWC points, but Overnight dryback target = ${d.actual}.`,
+  DRYBACK_FIT_UNUSED: (d) =>
+    `Dryback fit confidence ${d.confidence_label} (${fx(d, "confidence", 2)}, ${d.n_points} readings); solver used the bundle dryback curve.`,
+  WHC_EFF_MISMATCH: (d) =>
+    `WHC_eff mismatch: required daily volume (${ml(d, "actual_ml_day")} ml) exceeds ~120% of WHC (${ml(d, "whc_ml")} ml).`,
+  CUSTOM_P1_OK: () => "Custom P1 event count still satisfies refill daily budget.",
+  PWEC_CEILING: (d) =>
+    (n(d, "day") === 0
+      ? `PWEC ${d.pwec_projected} mS/cm is already above the ${d.ceiling} mS/cm ceiling.`
+      : `PWEC projected to pass ${d.ceiling} mS/cm on day ${d.day} (${d.pwec_projected} mS/cm) at the current schedule.`) +
+    (d.runoff_pct_to_hold != null
+      ? ` Raise runoff to ≥${d.runoff_pct_to_hold}% to hold PWEC at the ceiling.`
+      : ` Feed EC ${d.feed_ec} mS/cm is too high to hold by leaching alone; lower feed EC.`),
+  SHOTS_AFTER_LIGHTS_OFF: (d) =>
+    `Last shot lands ${ml(d, "overflow_min")} min after lights-off (${d.photoperiod_h} h photoperiod); at most ${d.max_p2_events} P2 events fit.`,
+  OVERNIGHT_DRYBACK_MISMATCH: (d) =>
+    `Overnight dryback target ${d.actual} VWC points, but the lightcycle predicts ${fx(d, "predicted", 1)} (day ${fx(d, "day_pct_hr", 2)} %/hr, night ${fx(d, "night_pct_hr", 2)} %/hr over ${fx(d, "dark_h", 1)} h dark).`,
+  STEERING_DRIFT: (d) =>
+    `${STEERING_FIELDS[String(d.field)] ?? d.field} is ${d.actual} against the ${d.mode} target of ${d.target} (${n(d, "delta") > 0 ? "+" : ""}${d.delta}).`,
+  STEERING_UNAVAILABLE: (d) => `The SOP bundle has no ${d.mode} steering targets for ${d.stage}; solved with the SOP defaults.`,
+  EMITTER_FLOW_MISSING: () => "Emitter flow not set; give emitterFlowMlMin or emitterFlowGph to size the shared shot.",
+  EMITTER_FLOW_INVALID: (d) => `Emitter flow ${d.actual} ${d.unit} is not a positive rate; the zone cannot share a shot.`,
+  ROOM_ZONE_FAILED: (d) => `Zone ${d.zone}: ${d.error}`,
+  ROOM_EVENT_COUNT_MISMATCH: (d) =>
+    `Zones resolve to different P1/P2 event counts (P1 ${d.p1_events_min}–${d.p1_events_max}, P2 ${d.p2_events_min}–${d.p2_events_max}); a shared manifold fires every zone on the same schedule.`,
+  ROOM_SHARED_SHOT_OVER: (d) =>
+    `Shared ${d.phase} shot cannot satisfy every zone: ${d.zone} gets ${ml(d, "delivered_ml")} ml vs ${ml(d, "required_ml")} ml required (+${pct(d, "over_frac")}%).`,
+  ROOM_PUMP_CAPACITY: (d) => `Peak manifold flow ${fx(d, "peak_flow_l_min", 1)} L/min exceeds pump capacity ${d.pump_max_l_min} L/min.`,
+};
+
+const LOCALES: Record<string, Record<IrrIssueCode, (d: Data) => string>> = { en: EN };
+
+/** Render one issue as display text; unknown locales fall back to English. */
+export function renderIssue(issue: IrrIssue, locale = "en"): string {
+  const table = LOCALES[locale] ?? EN;
+  return (table[issue.code] ?? EN[issue.code])(issue.data);
+}
+
+/** Split issues into the legacy `warnings` / `coherence` string lists. */
+export function renderIssues(issues: IrrIssue[], locale = "en"): { warnings: string[]; coherence: string[] } {
+  return {
+    warnings: issues.filter((i) => i.kind === "warning").map((i) => renderIssue(i, locale)),
+    coherence: issues.filter((i) => i.kind === "coherence").map((i) => renderIssue(i, locale)),
+  };
+}
@@ -0,0 +1,111 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { loadSopBundle, solveIrr, type DemandModel, type IntakeIrr } from "./index.ts";
+
+const RUNS = 200;
+const STAGES = ["early veg", "late veg", "early bloom", "mid bloom", "late bloom", "flush"];
+
+/** Seeded PRNG (mulberry32) so a failing case reproduces from its seed. */
+function rng(seed: number) {
+  let a = seed >>> 0;
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    float: (lo: number, hi: number) => lo + (hi - lo) * next(),
+    int: (lo: number, hi: number) => lo + Math.floor((hi - lo + 1) * next()),
+    pick: <T>(xs: T[]) => xs[Math.floor(next() * xs.length)]!,
+    maybe: <T>(v: T) => (next() < 0.7 ? v : undefined),
+  };
+}
+
+function randomIntake(seed: number): IntakeIrr {
+  const r = rng(seed);
+  return {
+    stage: r.pick(STAGES),
+    medium: r.pick(["coco", "rockwool"]),
+    container: r.pick(["1", "1.5", "2", "3"]),
+    profile: "Athena Pro",
+    photoperiodH: r.pick([12, 18]),
+    tempC: r.float(15, 35),
+    vpdKpa: r.float(0.4, 2.2),
+    dliMol: r.float(15, 60),
+    co2: r.float(400, 1400),
+    co2Mode: r.pick(["co2", "ambient"]),
+    runoffPct: r.maybe(r.float(0, 40)),
+    targetAtFirst: r.maybe(r.float(20, 55)),
+    p1Events: r.maybe(r.int(1, 8)),
+    p1IntervalMin: r.maybe(r.int(15, 60)),
+    p1MlPerEvent: r.maybe(r.float(0, 400)),
+    p2Events: r.maybe(r.int(0, 20)),
+    p2IntervalMin: r.maybe(r.int(15, 120)),
+    p2MlPerEvent: r.maybe(r.float(0, 400)),
+  };
+}
+
+/** Run `check` for RUNS seeded intakes, reporting the seed of the first failure. */
+function forAll(check: (intake: IntakeIrr) => void) {
+  for (let seed = 1; seed <= RUNS; seed++) {
+    const intake = randomIntake(seed);
+    try {
+      check(intake);
+    } catch (e) {
+      (e as Error).message = `seed ${seed} ${JSON.stringify(intake)}: ${(e as Error).message}`;
+      throw e;
+    }
+  }
+}
+
+describe("irr-physics properties", () => {
+  const bundle = loadSopBundle("Athena Pro")!;
+  const solve = (intake: IntakeIrr, demandModel?: DemandModel) => solveIrr({ intake, sopBundle: bundle, demandModel });
+
+  it("never requires a negative volume", () => {
+    forAll((intake) => {
+      for (const model of ["heuristic", "penman-monteith"] as DemandModel[]) {
+        const plan = solve(intake, model);
+        assert.equal(plan.ok, true);
+        assert.ok(plan.p1_required_day_ml >= 0, "p1_required_day_ml");
+        assert.ok(plan.p2_required_day_ml >= 0, "p2_required_day_ml");
+        assert.ok(plan.p2.required_event_ml >= 0, "p2.required_event_ml");
+        assert.ok(plan.p1.ml_event_reconciled >= 0 && plan.p2.ml_event_reconciled >= 0, "reconciled ml");
+      }
+    });
+  });
+
+  it("is stable under repeated reconcile", () => {
+    forAll((intake) => {
+      const once = { ...intake, ...solve(intake).actions.applyReconciled };
+      const twice = { ...once, ...solve(once).actions.applyReconciled };
+      assert.equal(twice.p1MlPerEvent, once.p1MlPerEvent);
+      assert.equal(twice.p2MlPerEvent, once.p2MlPerEvent);
+      assert.equal(twice.p1Events, once.p1Events);
+      assert.equal(twice.p2Events, once.p2Events);
+    });
+  });
+
+  // Heuristic demand only: Penman-Monteith at fixed VPD and low light can fall as temperature rises.
+  it("needs at least as much water when it is warmer or drier", () => {
+    forAll((intake) => {
+      const base = solve(intake).total_required_day_ml;
+      const warmer = solve({ ...intake, tempC: intake.tempC! + 2 }).total_required_day_ml;
+      const drier = solve({ ...intake, vpdKpa: intake.vpdKpa! + 0.2 }).total_required_day_ml;
+      assert.ok(warmer >= base - 1e-9, `tempC +2: ${base} → ${warmer}`);
+      assert.ok(drier >= base - 1e-9, `vpdKpa +0.2: ${base} → ${drier}`);
+    });
+  });
+
+  it("zeroes P2 in handwater mode", () => {
+    forAll((intake) => {
+      const plan = solve({ ...intake, mode: "handwater" });
+      assert.equal(plan.p2.events_user, 0);
+      assert.equal(plan.p2.events_reconciled, 0);
+      assert.equal(plan.p2_required_day_ml, 0);
+      assert.equal(plan.p2.user_day_ml, 0);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { intake } from "./fixtures.ts";
+import { loadSopBundle, renderIssue, solveRoom } from "./index.ts";
+
+const bundle = loadSopBundle("Athena Pro")!;
+
+describe("solveRoom", () => {
+  it("room solve sums zones and warns when a shared shot over-serves a zone", () => {
+    const room = solveRoom({
+      intake,
+      sopBundle: bundle,
+      zones: [
+        { id: "small", container: "1", plantCount: 20, emitterFlowMlMin: 33 },
+        { id: "large", container: "2", plantCount: 10, emitterFlowMlMin: 33 },
+      ],
+    });
+    assert.equal(room.ok, true);
+    assert.equal(room.totals!.plants, 30);
+    const sum = room.zones.reduce((a, z) => a + z.required_l_day, 0);
+    assert.ok(Math.abs(room.totals!.required_l_day - sum) < 1e-9);
+    const over = room.issues.find((i) => i.code === "ROOM_SHARED_SHOT_OVER" && i.data.zone === "small" && i.phase === "P1")!;
+    assert.ok(over);
+    assert.ok(Number(over.data.delivered_ml) > Number(over.data.required_ml) * 1.15);
+    assert.equal(over.data.over_frac, Number(over.data.delivered_ml) / Number(over.data.required_ml) - 1);
+    assert.ok(room.warnings.includes(renderIssue(over)));
+    assert.match(renderIssue(over), /^Shared P1 shot cannot satisfy every zone: small gets \d+ ml/);
+
+    const pumped = solveRoom({
+      intake,
+      sopBundle: bundle,
+      pumpMaxLpm: 0.5,
+      zones: [{ id: "a", container: "1", plantCount: 20, emitterFlowMlMin: 33 }],
+    });
+    const pump = pumped.issues.find((i) => i.code === "ROOM_PUMP_CAPACITY")!;
+    assert.deepEqual(pump.data, { peak_flow_l_min: 0.66, pump_max_l_min: 0.5 });
+    assert.deepEqual(pumped.warnings, ["Peak manifold flow 0.7 L/min exceeds pump capacity 0.5 L/min."]);
+
+    // Without submitted event counts each zone takes its stage's SOP schedule; flush has no P2.
+    const mixed = solveRoom({
+      intake: { ...intake, p1Events: undefined, p2Events: undefined },
+      sopBundle: bundle,
+      zones: [
+        { id: "a", container: "1", emitterFlowMlMin: 33 },
+        { id: "b", container: "1", stage: "Flush", emitterFlowMlMin: 33 },
+      ],
+    });
+    const mismatch = mixed.issues.find((i) => i.code === "ROOM_EVENT_COUNT_MISMATCH")!;
+    assert.equal(mismatch.data.p2_events_min, 0);
+    assert.ok(Number(mismatch.data.p2_events_max) > 0);
+    assert.match(mixed.warnings[0]!, /^Zones resolve to different P1\/P2 event counts \(P1 \d+–\d+, P2 0–\d+\)/);
+  });
+
+  it("room solve reports zones without a positive emitter flow instead of assuming one", () => {
+    const room = solveRoom({
+      intake,
+      sopBundle: bundle,
+      zones: [
+        { id: "ok", container: "1", plantCount: 10, emitterFlowMlMin: 33 },
+        { id: "zero", container: "1", plantCount: 10, emitterFlowMlMin: 0 },
+        { id: "unset", container: "1", plantCount: 10 },
+      ],
+    });
+    assert.equal(room.ok, true);
+    const [good, zero, unset] = room.zones;
+    assert.equal(good!.ok, true);
+    assert.equal(zero!.ok, false);
+    assert.equal(zero!.plant_flow_ml_min, null);
+    assert.deepEqual(zero!.issues[0], {
+      code: "EMITTER_FLOW_INVALID",
+      kind: "warning",
+      severity: "critical",
+      data: { actual: 0, unit: "ml/min" },
+    });
+    assert.equal(unset!.ok, false);
+    assert.equal(unset!.issues[0]!.code, "EMITTER_FLOW_MISSING");
+    const failed = room.issues.filter((i) => i.code === "ROOM_ZONE_FAILED");
+    assert.deepEqual(
+      failed.map((i) => i.data.zone),
+      ["zero", "unset"]
+    );
+    assert.equal(failed[0]!.data.error, renderIssue(zero!.issues[0]!));
+    assert.ok(room.warnings.some((w) => w.startsWith("Zone zero: Emitter flow 0 ml/min")));
+    // Only the valid zone sizes the shot and counts toward the totals.
+    assert.equal(room.totals!.plants, 10);
+    assert.ok(Number.isFinite(room.shared_shot!.p1_seconds) && room.shared_shot!.p1_seconds > 0);
+    assert.ok(Number.isFinite(room.totals!.delivered_l_day));
+
+    // The room intake's rating applies to zones without their own.
+    const inherited = solveRoom({ intake: { ...intake, emitterFlowGph: 0.5 }, sopBundle: bundle, zones: [{ id: "a", container: "1" }] });
+    assert.equal(inherited.zones[0]!.ok, true);
+
+    const none = solveRoom({ intake, sopBundle: bundle, zones: [{ id: "a", container: "1", emitterFlowGph: -1 }] });
+    assert.equal(none.ok, false);
+    assert.equal(none.error, "No zone could be solved");
+  });
+});
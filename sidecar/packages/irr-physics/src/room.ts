@@ -0,0 +1,194 @@
+import { renderIssue, renderIssues } from "./messages.ts";
+import { solveIrr } from "./solve.ts";
+import { num, plantFlowMlMin, SOLVER_VERSION } from "./util.ts";
+import type { IntakeIrr, IrrIssue, IrrSolvePlan, RoomSolveInput, RoomSolvePlan, RoomZone, RoomZonePlan } from "./types.ts";
+
+/** A shared shot may overshoot a zone's required event volume by this fraction before we warn. */
+const SHARED_SHOT_TOL_FRAC = 0.15;
+
+type EmitterRating = Pick<RoomZone, "emittersPerPlant" | "emitterFlowMlMin" | "emitterFlowGph">;
+
+/** The zone's own emitter rating when it gives one, else the room intake's. */
+function emitterRating(zone: RoomZone, intake: IntakeIrr): EmitterRating {
+  return zone.emitterFlowMlMin != null || zone.emitterFlowGph != null ? zone : intake;
+}
+
+/** Shot length is volume ÷ flow, so a zone without a positive, finite flow cannot share a shot. */
+function emitterIssue(rating: EmitterRating): IrrIssue | null {
+  const raw = rating.emitterFlowMlMin ?? rating.emitterFlowGph;
+  if (raw == null) return { code: "EMITTER_FLOW_MISSING", kind: "warning", severity: "critical", data: {} };
+  const value = Number(raw);
+  if (Number.isFinite(value) && value > 0) return null;
+  return {
+    code: "EMITTER_FLOW_INVALID",
+    kind: "warning",
+    severity: "critical",
+    data: { actual: Number.isFinite(value) ? value : String(raw), unit: rating.emitterFlowMlMin != null ? "ml/min" : "GPH" },
+  };
+}
+
+/** Solve every zone on one pump/manifold and combine them into room totals. */
+export function solveRoom(input: RoomSolveInput): RoomSolvePlan {
+  const { intake, zones, sopBundle } = input;
+  if (!zones?.length) {
+    return { ok: false, error: "At least one zone required", solver_version: SOLVER_VERSION, zones: [], issues: [], warnings: [] };
+  }
+
+  const issues: IrrIssue[] = [];
+  const solved = zones.map((zone, i) => {
+    const id = zone.id || `zone-${i + 1}`;
+    const plantCount = Math.max(0, Math.round(num(zone.plantCount, 1) ?? 1));
+    const rating = emitterRating(zone, intake);
+    const flowIssue = emitterIssue(rating);
+    const plan = solveIrr({
+      intake: {
+        ...intake,
+        container: zone.container ?? intake.container,
+        containerL: zone.container != null || zone.containerL != null ? zone.containerL : intake.containerL,
+        geometry: zone.geometry ?? intake.geometry,
+        dimsCm: zone.container != null || zone.dimsCm != null ? zone.dimsCm : intake.dimsCm,
+        plantsPerContainer: zone.plantsPerContainer ?? intake.plantsPerContainer,
+        medium: zone.medium ?? intake.medium,
+        mediaDef: zone.medium != null ? zone.mediaDef : intake.mediaDef,
+        stage: zone.stage ?? intake.stage,
+      },
+      sopBundle,
+      dirty: input.dirty,
+      drybackFit: input.drybackFit,
+      demandModel: input.demandModel,
+    });
+    const flow = flowIssue ? null : plantFlowMlMin(rating);
+    return {
+      id,
+      zone,
+      plantCount,
+      plantFlowMlMin: flow,
+      flowIssue,
+      ok: plan.ok && flow != null,
+      error: plan.error ?? (flowIssue ? renderIssue(flowIssue) : undefined),
+      plan,
+    };
+  });
+
+  for (const z of solved) {
+    if (!z.ok) {
+      issues.push({ code: "ROOM_ZONE_FAILED", kind: "warning", severity: "critical", data: { zone: z.id, error: z.error ?? null } });
+    }
+  }
+  const ok = solved.filter((z) => z.ok);
+  if (!ok.length) {
+    return { ok: false, error: "No zone could be solved", solver_version: SOLVER_VERSION, zones: [], issues, ...renderIssues(issues) };
+  }
+
+  const p1Events = ok.map((z) => z.plan.p1.events_user);
+  const p2Events = ok.map((z) => z.plan.p2.events_user);
+  if (new Set(p1Events).size > 1 || new Set(p2Events).size > 1) {
+    issues.push({
+      code: "ROOM_EVENT_COUNT_MISMATCH",
+      kind: "warning",
+      severity: "warn",
+      data: {
+        p1_events_min: Math.min(...p1Events),
+        p1_events_max: Math.max(...p1Events),
+        p2_events_min: Math.min(...p2Events),
+        p2_events_max: Math.max(...p2Events),
+      },
+    });
+  }
+
+  const p1Required = (p: IrrSolvePlan) => p.p1_required_day_ml / Math.max(1, p.p1.events_user);
+  const p2Required = (p: IrrSolvePlan) => p.p2.required_event_ml;
+  // Shared shot runs until the zone needing the longest time at its flow has its required volume.
+  const sharedMin = (req: (p: IrrSolvePlan) => number) =>
+    Math.max(0, ...ok.map((z) => req(z.plan) / z.plantFlowMlMin));
+  const p1Min = sharedMin(p1Required);
+  const p2Min = sharedMin(p2Required);
+
+  const zonePlans: RoomZonePlan[] = solved.map((z) => {
+    const p = z.plan;
+    const p1Delivered = p1Min * (z.plantFlowMlMin ?? 0);
+    const p2Delivered = p2Min * (z.plantFlowMlMin ?? 0);
+    return {
+      id: z.id,
+      ok: z.ok,
+      error: z.error,
+      plant_count: z.plantCount,
+      container: z.zone.container ?? intake.container,
+      medium: z.zone.medium ?? intake.medium,
+      plant_flow_ml_min: z.plantFlowMlMin,
+      required_day_ml_per_plant: p.total_required_day_ml,
+      required_l_day: (p.total_required_day_ml * z.plantCount) / 1000,
+      user_l_day: ((p.p1.user_day_ml + p.p2.user_day_ml) * z.plantCount) / 1000,
+      p1_event_ml_required: p1Required(p),
+      p1_event_ml_delivered: z.ok ? p1Delivered : 0,
+      p2_event_ml_required: p2Required(p),
+      p2_event_ml_delivered: z.ok ? p2Delivered : 0,
+      issues: z.flowIssue ? [z.flowIssue, ...p.issues] : p.issues,
+      warnings: p.warnings,
+    };
+  });
+
+  for (const z of zonePlans.filter((zp) => zp.ok)) {
+    for (const [phase, req, got] of [
+      ["P1", z.p1_event_ml_required, z.p1_event_ml_delivered],
+      ["P2", z.p2_event_ml_required, z.p2_event_ml_delivered],
+    ] as const) {
+      if (req > 0 && got > req * (1 + SHARED_SHOT_TOL_FRAC)) {
+        issues.push({
+          code: "ROOM_SHARED_SHOT_OVER",
+          kind: "warning",
+          severity: "warn",
+          phase,
+          data: { phase, zone: z.id, delivered_ml: got, required_ml: req, over_frac: got / req - 1 },
+        });
+      }
+    }
+  }
+
+  const plants = zonePlans.reduce((a, z) => a + (z.ok ? z.plant_count : 0), 0);
+  const requiredL = zonePlans.reduce((a, z) => a + (z.ok ? z.required_l_day : 0), 0);
+  const userL = zonePlans.reduce((a, z) => a + (z.ok ? z.user_l_day : 0), 0);
+  const deliveredL =
+    ok.reduce(
+      (a, z) =>
+        a +
+        z.plantCount *
+          z.plantFlowMlMin *
+          (p1Min * z.plan.p1.events_user + p2Min * z.plan.p2.events_user),
+      0
+    ) / 1000;
+  const peakFlowLMin = ok.reduce((a, z) => a + z.plantCount * z.plantFlowMlMin, 0) / 1000;
+
+  const pumpMax = num(input.pumpMaxLpm);
+  if (pumpMax != null && peakFlowLMin > pumpMax) {
+    issues.push({
+      code: "ROOM_PUMP_CAPACITY",
+      kind: "warning",
+      severity: "critical",
+      data: { peak_flow_l_min: peakFlowLMin, pump_max_l_min: pumpMax },
+    });
+  }
+  const reservoirL = num(input.reservoirL);
+
+  return {
+    ok: true,
+    sop_bundle_version: sopBundle.version,
+    solver_version: SOLVER_VERSION,
+    zones: zonePlans,
+    shared_shot: {
+      p1_seconds: Math.round(p1Min * 60),
+      p2_seconds: Math.round(p2Min * 60),
+    },
+    totals: {
+      plants,
+      required_l_day: requiredL,
+      user_l_day: userL,
+      delivered_l_day: deliveredL,
+      peak_flow_l_min: peakFlowLMin,
+      reservoir_drawdown_l_day: deliveredL,
+      reservoir_days: reservoirL != null && deliveredL > 0 ? reservoirL / deliveredL : undefined,
+    },
+    issues,
+    warnings: renderIssues(issues).warnings,
+  };
+}
@@ -0,0 +1,31 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { intake } from "./fixtures.ts";
+import { loadSopBundle, renderIssue, solveIrr } from "./index.ts";
+
+const bundle = loadSopBundle("Athena Pro")!;
+
+describe("salt projection", () => {
+  it("projects PWEC from feed EC and warns before the SOP ceiling", () => {
+    const lean = solveIrr({ intake: { ...intake, feedEc: 3.2, pwec: 3.8, p1MlPerEvent: 95, p2MlPerEvent: 55 }, sopBundle: bundle });
+    const salt = lean.salt!;
+    assert.equal(salt.pwec_ceiling, 4.5);
+    assert.equal(salt.trend, "rising");
+    assert.equal(salt.days.length, 7);
+    assert.ok(salt.days.every((d, i) => i === 0 || d.pwec >= salt.days[i - 1]!.pwec));
+    assert.ok(salt.days[0]!.pwec_dry > salt.days[0]!.pwec);
+    assert.equal(salt.warning?.code, "PWEC_CEILING");
+    assert.ok(Number(salt.warning!.data.runoff_pct_to_hold) > Number(salt.warning!.data.runoff_pct_current));
+    assert.deepEqual(salt.warning!.fix, { field: "runoffPct", value: salt.warning!.data.runoff_pct_to_hold });
+    assert.ok(lean.issues.includes(salt.warning!));
+    assert.ok(lean.warnings.includes(renderIssue(salt.warning!)));
+    // The salt model adds PWEC issues; it does not hide a volume deviation from the SOP.
+    assert.ok(lean.issues.some((i) => i.code === "SOP_DEVIATION"));
+
+    const flushed = solveIrr({ intake: { ...intake, feedEc: 2.0, pwec: 3.0, p2MlPerEvent: 150 }, sopBundle: bundle });
+    assert.equal(flushed.salt!.trend, "falling");
+    assert.equal(flushed.salt!.warning, undefined);
+
+    assert.equal(solveIrr({ intake, sopBundle: bundle }).salt, undefined);
+  });
+});
@@ -0,0 +1,101 @@
+import { clamp, num } from "./util.ts";
+import type { IntakeIrr, IrrSolvePlan, IrrIssue, SaltProjection, SopBundle } from "./types.ts";
+
+/** Default PWEC / runoff EC ceiling (mS/cm) from the ROOT gate rule. */
+const DEFAULT_PWEC_MAX = 4.5;
+/** Ion uptake with transpired water as a fraction of feed EC; the remainder stays behind as salt. */
+const UPTAKE_EC_RATIO = 0.9;
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 30;
+/** PWEC change (mS/cm) over the horizon below which the trend reads as stable. */
+const STABLE_EPS = 0.05;
+
+type WaterPlan = Omit<IrrSolvePlan, "issues" | "warnings" | "coherence" | "actions">;
+
+/**
+ * Project pore-water EC from a salt mass balance: ions in with feed, out with runoff and uptake,
+ * concentrated into the substrate water. Returns undefined without a feed EC.
+ */
+export function projectSalt(intake: IntakeIrr, plan: WaterPlan, bundle: SopBundle, days?: number): SaltProjection | undefined {
+  const feed = num(intake.feedEc);
+  if (feed == null || feed <= 0) return undefined;
+
+  const ceiling = bundle.pwec_max ?? DEFAULT_PWEC_MAX;
+  const horizon = clamp(Math.round(days ?? DEFAULT_DAYS), 1, MAX_DAYS);
+  const wFc = plan.media.media_ml * (plan.media.fc_vwc / 100);
+  const wDry = plan.media.media_ml * (plan.media.vwc_start / 100);
+  if (wFc <= 0) return undefined;
+
+  const appliedMl = plan.p1.user_day_ml + plan.p2.user_day_ml;
+  const p2RunoffMl = plan.p2.events_user * Math.max(0, plan.p2.ml_event_user - plan.p2.maintenance_event_ml);
+  const p1SpillMl = Math.max(0, plan.p1.delta_day_ml);
+  const runoffMl = Math.min(appliedMl, p2RunoffMl + p1SpillMl);
+  const uptakeMl = appliedMl - runoffMl;
+
+  // dS/dt = inflow − (R/W)·S per day; solved exactly so large leach volumes stay stable.
+  const inflow = feed * (appliedMl - UPTAKE_EC_RATIO * uptakeMl);
+  const leach = runoffMl / wFc;
+  const steadyPwec = runoffMl > 0 ? inflow / runoffMl : Infinity;
+
+  const pwecStart = num(intake.pwec, num(intake.runoffEc, feed)) ?? feed;
+  let salt = pwecStart * wFc;
+  const projection: SaltProjection["days"] = [];
+  let exceedsDay: number | null = pwecStart > ceiling ? 0 : null;
+  for (let d = 1; d <= horizon; d++) {
+    salt =
+      runoffMl > 0 ? steadyPwec * wFc + (salt - steadyPwec * wFc) * Math.exp(-leach) : salt + inflow;
+    salt = Math.max(0, salt);
+    const pwec = salt / wFc;
+    projection.push({
+      day: d,
+      pwec: round2(pwec),
+      pwec_dry: wDry > 0 ? round2(salt / wDry) : round2(pwec),
+    });
+    if (exceedsDay == null && pwec > ceiling) exceedsDay = d;
+  }
+
+  const last = projection[projection.length - 1]!.pwec;
+  const trend = Math.abs(last - pwecStart) < STABLE_EPS ? "stable" : last > pwecStart ? "rising" : "falling";
+
+  // Runoff share that holds steady-state PWEC at the ceiling: R/D = feed(1−u) / (ceiling − u·feed).
+  const holdDenom = ceiling - UPTAKE_EC_RATIO * feed;
+  const holdFrac = holdDenom > 0 ? (feed * (1 - UPTAKE_EC_RATIO)) / holdDenom : null;
+  const runoffPctToHold = holdFrac != null && holdFrac <= 0.5 ? Math.ceil(holdFrac * 100) : null;
+
+  let warning: IrrIssue | undefined;
+  if (exceedsDay != null) {
+    warning = {
+      code: "PWEC_CEILING",
+      kind: "warning",
+      severity: exceedsDay <= 1 ? "critical" : "warn",
+      phase: "salt",
+      data: {
+        day: exceedsDay,
+        pwec_projected: exceedsDay > 0 ? projection[exceedsDay - 1]!.pwec : round2(pwecStart),
+        pwec_steady: Number.isFinite(steadyPwec) ? round2(steadyPwec) : null,
+        ceiling,
+        feed_ec: feed,
+        runoff_pct_current: appliedMl > 0 ? round2((runoffMl / appliedMl) * 100) : 0,
+        runoff_pct_to_hold: runoffPctToHold,
+      },
+      ...(runoffPctToHold != null ? { fix: { field: "runoffPct" as const, value: runoffPctToHold } } : {}),
+    };
+  }
+
+  return {
+    feed_ec: feed,
+    pwec_start: round2(pwecStart),
+    pwec_ceiling: ceiling,
+    uptake_ec_ratio: UPTAKE_EC_RATIO,
+    applied_day_ml: appliedMl,
+    runoff_day_ml: runoffMl,
+    pwec_steady: Number.isFinite(steadyPwec) ? round2(steadyPwec) : null,
+    trend,
+    days: projection,
+    warning,
+  };
+}
+
+function round2(n: number): number {
+  return Number(n.toFixed(2));
+}
@@ -0,0 +1,32 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { intake } from "./fixtures.ts";
+import { buildSchedule, loadSopBundle, scheduleToCsv, scheduleToIcs, solveIrr } from "./index.ts";
+
+const bundle = loadSopBundle("Athena Pro")!;
+
+describe("buildSchedule", () => {
+  it("exports a lights-on anchored schedule as JSON, CSV and iCal", () => {
+    const plan = solveIrr({ intake: { ...intake, emitterFlowMlMin: 50 }, sopBundle: bundle });
+    const sched = buildSchedule(plan, { lightsOn: "22:00", date: "2026-03-01", days: 2, p1OffsetMin: 60, source: "user" });
+    assert.equal(sched.ok, true);
+    assert.equal(sched.events.length, 2 * (4 + 9));
+    assert.deepEqual(
+      sched.events.slice(0, 2).map((e) => e.start),
+      ["2026-03-01T23:00:00", "2026-03-01T23:30:00"]
+    );
+    const firstP2 = sched.events.find((e) => e.phase === "P2")!;
+    assert.equal(firstP2.offset_min, 60 + 3 * 30 + 60);
+    assert.equal(firstP2.date, "2026-03-02");
+    assert.equal(sched.events[0]!.seconds, plan.shot_seconds!.p1.user);
+
+    const csv = scheduleToCsv(sched).trim().split("\r\n");
+    assert.equal(csv[0], "date,time,phase,event,offset_min,ml,seconds");
+    assert.equal(csv.length, sched.events.length + 1);
+    const ics = scheduleToIcs(sched);
+    assert.equal((ics.match(/BEGIN:VEVENT/g) ?? []).length, sched.events.length);
+    assert.ok(ics.includes("DTSTART:20260301T230000\r\n"));
+
+    assert.equal(buildSchedule(plan, { lightsOn: "25:00" }).ok, false);
+  });
+});
@@ -0,0 +1,128 @@
+import { clamp, SOLVER_VERSION } from "./util.ts";
+import type { IrrSolvePlan, ScheduleEvent, ScheduleExport, ScheduleOptions } from "./types.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_DAYS = 31;
+
+/** Minutes after lights-on for each shot in one day: P1 at offset + i×interval, P2 from the plan's P2 start. */
+export function shotOffsetsMin(
+  plan: IrrSolvePlan,
+  p1OffsetMin = 0,
+  source: "user" | "reconciled" = "user"
+): Array<{ phase: "P1" | "P2"; n: number; offset_min: number; ml: number }> {
+  const p1Interval = plan.p1.interval_min_user ?? 30;
+  const p2Interval = plan.p2.interval_min_user;
+  const p1Events = source === "reconciled" ? plan.p1.events_reconciled : plan.p1.events_user;
+  const p2Events = source === "reconciled" ? plan.p2.events_reconciled : plan.p2.events_user;
+  const p1Ml = source === "reconciled" ? plan.p1.ml_event_reconciled : plan.p1.ml_event_user;
+  const p2Ml = source === "reconciled" ? plan.p2.ml_event_reconciled : plan.p2.ml_event_user;
+
+  const out: Array<{ phase: "P1" | "P2"; n: number; offset_min: number; ml: number }> = [];
+  for (let i = 0; i < p1Events; i++) {
+    out.push({ phase: "P1", n: i + 1, offset_min: p1OffsetMin + i * p1Interval, ml: p1Ml });
+  }
+  const lastP1 = Math.max(0, p1Events - 1) * p1Interval;
+  const p2Start = p1OffsetMin + (plan.p2.start_min ?? lastP1 + p2Interval);
+  for (let j = 0; j < p2Events; j++) {
+    out.push({ phase: "P2", n: j + 1, offset_min: p2Start + j * p2Interval, ml: p2Ml });
+  }
+  return out;
+}
+
+/** Turn a solved plan plus lights-on time into concrete controller timestamps. */
+export function buildSchedule(plan: IrrSolvePlan, opts: ScheduleOptions): ScheduleExport {
+  const fail = (error: string): ScheduleExport => ({ ok: false, error, solver_version: SOLVER_VERSION, events: [] });
+  if (!plan.ok) return fail(plan.error ?? "plan not solved");
+
+  const lightsOn = parseClock(opts.lightsOn);
+  if (lightsOn == null) return fail("lightsOn must be HH:MM");
+  const startDate = opts.date ?? new Date().toISOString().slice(0, 10);
+  const day0 = Date.parse(`${startDate}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate) || !Number.isFinite(day0)) return fail("date must be YYYY-MM-DD");
+
+  const source = opts.source === "user" ? "user" : "reconciled";
+  const days = clamp(Math.round(opts.days ?? 1), 1, MAX_DAYS);
+  const shots = shotOffsetsMin(plan, Math.max(0, opts.p1OffsetMin ?? 0), source);
+  const seconds = plan.shot_seconds;
+
+  const events: ScheduleEvent[] = [];
+  for (let d = 0; d < days; d++) {
+    for (const shot of shots) {
+      const at = new Date(day0 + d * DAY_MS + (lightsOn + shot.offset_min) * 60_000);
+      const iso = at.toISOString();
+      const secs = seconds ? seconds[shot.phase === "P1" ? "p1" : "p2"][source] : undefined;
+      events.push({
+        day: d + 1,
+        date: iso.slice(0, 10),
+        time: iso.slice(11, 16),
+        start: iso.slice(0, 19),
+        phase: shot.phase,
+        n: shot.n,
+        offset_min: shot.offset_min,
+        ml: shot.ml,
+        ...(secs != null ? { seconds: secs } : {}),
+      });
+    }
+  }
+
+  return {
+    ok: true,
+    sop_bundle_version: plan.sop_bundle_version,
+    solver_version: SOLVER_VERSION,
+    cfg_key_effective: plan.cfg_key_effective,
+    source,
+    lights_on: opts.lightsOn,
+    events,
+  };
+}
+
+/** CSV timer table, one row per shot. */
+export function scheduleToCsv(schedule: ScheduleExport): string {
+  const rows = [["date", "time", "phase", "event", "offset_min", "ml", "seconds"].join(",")];
+  for (const e of schedule.events) {
+    rows.push([e.date, e.time, e.phase, e.n, e.offset_min, e.ml, e.seconds ?? ""].join(","));
+  }
+  return rows.join("\r\n") + "\r\n";
+}
+
+/** iCalendar (RFC 5545) with floating local times so the controller's clock applies. */
+export function scheduleToIcs(schedule: ScheduleExport, calName = "PlantPilot irrigation"): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//PlantPilot//irr-physics//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${escapeIcs(calName)}`,
+  ];
+  for (const e of schedule.events) {
+    const start = e.start.replace(/[-:]/g, "");
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${start}-${e.phase}-${e.n}@plantpilot`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${start}`,
+      `DURATION:PT${Math.max(1, e.seconds ?? 60)}S`,
+      `SUMMARY:${escapeIcs(`${e.phase} shot ${e.n} – ${e.ml} ml`)}`,
+      `DESCRIPTION:${escapeIcs(
+        `${e.ml} ml/plant${e.seconds != null ? `, ${e.seconds} s` : ""}; ${schedule.cfg_key_effective ?? ""} (${schedule.source})`
+      )}`,
+      "END:VEVENT"
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return lines.join("\r\n") + "\r\n";
+}
+
+function parseClock(s?: string): number | null {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(String(s ?? "").trim());
+  if (!m) return null;
+  const h = Number(m[1]);
+  const min = Number(m[2]);
+  if (h > 23 || min > 59) return null;
+  return h * 60 + min;
+}
+
+function escapeIcs(s: string): string {
+  return s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\n/g, "\\n");
+}
@@ -0,0 +1,31 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { intake } from "./fixtures.ts";
+import { loadSopBundle, sweepSensitivity } from "./index.ts";
+
+const bundle = loadSopBundle("Athena Pro")!;
+
+describe("sweepSensitivity", () => {
+  it("sweeps intake inputs and ranks their effect on required volume", () => {
+    const one = sweepSensitivity({ intake, sopBundle: bundle, axes: [{ input: "vpdKpa", from: 0.8, to: 1.6, steps: 5 }] });
+    assert.equal(one.ok, true);
+    assert.deepEqual(one.axes[0]!.values, [0.8, 1, 1.2, 1.4, 1.6]);
+    assert.equal(one.grid.length, 5);
+    const totals = one.grid.map((c) => c.total_required_day_ml);
+    assert.ok(totals[4]! > totals[0]!, "higher VPD needs more water");
+    assert.equal(one.grid[2]!.delta_ml, 0);
+
+    const two = sweepSensitivity({
+      intake,
+      sopBundle: bundle,
+      axes: [{ input: "tempC", values: [24, 28] }, { input: "p2Events", values: [7, 9, 11] }],
+    });
+    assert.equal(two.grid.length, 6);
+    assert.deepEqual(two.grid[5]!.values, { tempC: 28, p2Events: 11 });
+    assert.equal(two.ranking.length, 6);
+    const rank = two.ranking.map((r) => Math.abs(r.elasticity));
+    assert.deepEqual(rank, [...rank].sort((a, b) => b - a));
+
+    assert.equal(sweepSensitivity({ intake, sopBundle: bundle, axes: [] }).ok, false);
+  });
+});
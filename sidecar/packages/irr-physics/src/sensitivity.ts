@@ -0,0 +1,152 @@
+import { solveIrr } from "./solve.ts";
+import { clamp, SOLVER_VERSION } from "./util.ts";
+import type {
+  IntakeIrr,
+  IrrSolvePlan,
+  SensitivityCell,
+  SensitivityInput,
+  SensitivityPlan,
+  SensitivityRank,
+  SweepAxis,
+  SweepInput,
+} from "./types.ts";
+
+type InputSpec = {
+  /** Default half-width of a sweep around the current value. */
+  span: number;
+  /** Finite-difference step for the local ranking. */
+  step: number;
+  min: number;
+  max: number;
+  integer?: boolean;
+  /** Value the solver used when the intake left the input blank, else `fallback`. */
+  current: (plan: IrrSolvePlan) => number | undefined;
+  fallback: number;
+};
+
+const INPUTS: Record<SweepInput, InputSpec> = {
+  tempC: { span: 3, step: 1, min: 10, max: 40, current: (p) => p.demand.tempC, fallback: 24 },
+  vpdKpa: { span: 0.4, step: 0.1, min: 0.2, max: 3, current: (p) => p.demand.vpdKpa, fallback: 1.2 },
+  dliMol: { span: 10, step: 2, min: 5, max: 70, current: (p) => p.demand.dliMol, fallback: 35 },
+  p2Events: { span: 3, step: 1, min: 0, max: 40, integer: true, current: (p) => p.p2.events_user, fallback: 0 },
+  p2IntervalMin: { span: 30, step: 10, min: 10, max: 240, integer: true, current: (p) => p.p2.interval_min_user, fallback: 60 },
+  runoffPct: { span: 10, step: 2, min: 0, max: 50, current: (p) => p.p2.runoff_target_frac * 100, fallback: 10 },
+};
+
+export const SWEEP_INPUTS = Object.keys(INPUTS) as SweepInput[];
+
+const DEFAULT_STEPS = 5;
+const MAX_STEPS = 25;
+const MAX_CELLS = 400;
+
+function round(n: number, digits = 3): number {
+  return Number(n.toFixed(digits));
+}
+
+function fit(input: SweepInput, v: number): number {
+  const spec = INPUTS[input];
+  const c = clamp(v, spec.min, spec.max);
+  return spec.integer ? Math.round(c) : round(c);
+}
+
+function axisValues(axis: SweepAxis, base: number): number[] {
+  if (axis.values?.length) return [...new Set(axis.values.filter(Number.isFinite).map((v) => fit(axis.input, v)))];
+  const spec = INPUTS[axis.input];
+  const from = axis.from ?? base - spec.span;
+  const to = axis.to ?? base + spec.span;
+  const steps = clamp(Math.round(axis.steps ?? DEFAULT_STEPS), 2, MAX_STEPS);
+  const out: number[] = [];
+  for (let i = 0; i < steps; i++) out.push(fit(axis.input, from + ((to - from) * i) / (steps - 1)));
+  return [...new Set(out)];
+}
+
+function withValue(intake: IntakeIrr, input: SweepInput, v: number): IntakeIrr {
+  return { ...intake, [input]: v };
+}
+
+function cell(plan: IrrSolvePlan, base: number, values: Partial<Record<SweepInput, number>>): SensitivityCell {
+  const total = plan.total_required_day_ml;
+  return {
+    values,
+    ok: plan.ok,
+    total_required_day_ml: Math.round(total),
+    delta_ml: Math.round(total - base),
+    delta_pct: base > 0 ? round(((total - base) / base) * 100, 1) : 0,
+    estimated_runoff_frac: round(plan.p2.estimated_runoff_frac),
+    issue_codes: [...new Set(plan.issues.map((i) => i.code))],
+  };
+}
+
+/**
+ * Sweep one or two intake inputs around the current room and rank every sweepable input by how
+ * much it moves the required daily volume. Each grid point is a full solveIrr run.
+ */
+export function sweepSensitivity(input: SensitivityInput): SensitivityPlan {
+  const { axes: rawAxes, ...solve } = input;
+  const fail = (error: string): SensitivityPlan => ({ ok: false, error, solver_version: SOLVER_VERSION, axes: [], grid: [], ranking: [] });
+
+  const axes = (rawAxes ?? []).filter((a) => a && INPUTS[a.input]);
+  if (!axes.length || axes.length > 2) return fail(`axes: one or two of ${SWEEP_INPUTS.join(", ")}`);
+  if (axes.length === 2 && axes[0]!.input === axes[1]!.input) return fail("axes must sweep different inputs");
+
+  const basePlan = solveIrr(solve);
+  if (!basePlan.ok) return fail(basePlan.error ?? "baseline solve failed");
+  const baseTotal = basePlan.total_required_day_ml;
+
+  const current = {} as Record<SweepInput, number>;
+  for (const key of SWEEP_INPUTS) {
+    const v = solve.intake[key] ?? INPUTS[key].current(basePlan);
+    current[key] = fit(key, v ?? INPUTS[key].fallback);
+  }
+
+  const axisGrid = axes.map((a) => ({ input: a.input, values: axisValues(a, current[a.input]) }));
+  const cells = axisGrid.reduce((n, a) => n * a.values.length, 1);
+  if (cells > MAX_CELLS) return fail(`grid too large: ${cells} cells (max ${MAX_CELLS})`);
+
+  const grid: SensitivityCell[] = [];
+  const [outer, inner] = axisGrid;
+  for (const a of outer!.values) {
+    for (const b of inner?.values ?? [undefined]) {
+      let intake = withValue(solve.intake, outer!.input, a);
+      const values: Partial<Record<SweepInput, number>> = { [outer!.input]: a };
+      if (inner && b != null) {
+        intake = withValue(intake, inner.input, b);
+        values[inner.input] = b;
+      }
+      grid.push(cell(solveIrr({ ...solve, intake }), baseTotal, values));
+    }
+  }
+
+  const ranking: SensitivityRank[] = SWEEP_INPUTS.map((key) => {
+    const spec = INPUTS[key];
+    const x = current[key];
+    const hi = fit(key, x + spec.step);
+    const lo = fit(key, x - spec.step);
+    const fHi = solveIrr({ ...solve, intake: withValue(solve.intake, key, hi) }).total_required_day_ml;
+    const fLo = solveIrr({ ...solve, intake: withValue(solve.intake, key, lo) }).total_required_day_ml;
+    const dx = hi - lo;
+    const slope = dx > 0 ? (fHi - fLo) / dx : 0;
+    return {
+      input: key,
+      base: x,
+      step: spec.step,
+      delta_ml_per_step: Math.round(slope * spec.step),
+      elasticity: baseTotal > 0 && x !== 0 ? round((slope * x) / baseTotal) : 0,
+    };
+  }).sort((a, b) => Math.abs(b.elasticity) - Math.abs(a.elasticity) || Math.abs(b.delta_ml_per_step) - Math.abs(a.delta_ml_per_step));
+
+  return {
+    ok: true,
+    solver_version: SOLVER_VERSION,
+    sop_bundle_version: basePlan.sop_bundle_version,
+    baseline: {
+      values: current,
+      total_required_day_ml: Math.round(baseTotal),
+      estimated_runoff_frac: round(basePlan.p2.estimated_runoff_frac),
+      issue_codes: [...new Set(basePlan.issues.map((i) => i.code))],
+    },
+    axes: axisGrid,
+    grid,
+    ranking,
+  };
+}
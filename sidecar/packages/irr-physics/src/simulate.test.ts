@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { simulateVwc, loadSopBundle } from "./index.ts";
+
+const intake = {
+  stage: "mid bloom",
+  medium: "coco",
+  container: "1",
+  profile: "Athena Pro",
+  photoperiodH: 12,
+  tempC: 26,
+  vpdKpa: 1.2,
+  dliMol: 35,
+  runoffPct: 10,
+  targetAtFirst: 40,
+  p1Events: 4,
+  p1IntervalMin: 30,
+  p1MlPerEvent: 200,
+  p2Events: 9,
+  p2IntervalMin: 60,
+  p2MlPerEvent: 90,
+};
+
+describe("irr-physics VWC simulation", () => {
+  it("produces a 5-minute trace per photoperiod", () => {
+    const bundle = loadSopBundle("Athena Pro")!;
+    const sim = simulateVwc({ intake, sopBundle: bundle, days: 2 });
+    assert.equal(sim.ok, true);
+    assert.equal(sim.trace.length, 2 * 288);
+    assert.equal(sim.daily.length, 2);
+    assert.ok(sim.trace.some((p) => p.event === "P1"));
+    assert.ok(sim.trace.every((p) => p.vwc <= sim.fc_vwc + 0.01));
+  });
+
+  it("flags floor breaches when irrigation is starved", () => {
+    const bundle = loadSopBundle("Athena Pro")!;
+    const sim = simulateVwc({
+      intake: { ...intake, targetAtFirst: 15, p1Events: 1, p1MlPerEvent: 20, p2Events: 0, tempC: 32, vpdKpa: 2 },
+      sopBundle: bundle,
+      stepMin: 1,
+    });
+    assert.equal(sim.step_min, 1);
+    assert.ok(sim.floor_breaches.length > 0);
+  });
+
+  it("flags overshoot when P1 shots flood past FC", () => {
+    const bundle = loadSopBundle("Athena Pro")!;
+    const sim = simulateVwc({ intake: { ...intake, p1MlPerEvent: 1500 }, sopBundle: bundle });
+    assert.ok(sim.overshoots.some((o) => o.phase === "P1"));
+  });
+});
@@ -0,0 +1,143 @@
+import { solveIrr } from "./solve.ts";
+import { resolveMedia } from "./media.ts";
+import { shotOffsetsMin } from "./schedule.ts";
+import { NIGHT_DRYBACK_FRAC } from "./lightcycle.ts";
+import { clamp, num, SOLVER_VERSION } from "./util.ts";
+import type { SimulateInput, VwcSimulation, VwcTracePoint } from "./types.ts";
+
+const MAX_DAYS = 14;
+/** Runoff above target (fraction of shot) before a shot counts as an FC overshoot. */
+const OVERSHOOT_TOL_FRAC = 0.05;
+
+type ShotEvent = { step: number; phase: "P1" | "P2"; ml: number };
+
+/** Time-stepped VWC trace for the solved schedule across one or more photoperiods. */
+export function simulateVwc(input: SimulateInput): VwcSimulation {
+  const plan = solveIrr(input);
+  const days = clamp(Math.round(input.days ?? 1), 1, MAX_DAYS);
+  const stepMin = input.stepMin === 1 ? 1 : 5;
+
+  if (!plan.ok) {
+    return {
+      ok: false,
+      error: plan.error,
+      solver_version: SOLVER_VERSION,
+      step_min: stepMin,
+      days,
+      fc_vwc: 0,
+      vwc_floor: 0,
+      trace: [],
+      daily: [],
+      floor_breaches: [],
+      overshoots: [],
+    };
+  }
+
+  const { intake, sopBundle } = input;
+  const useReconciled = input.schedule === "reconciled";
+  const mediaMl = plan.media.media_ml;
+  const fc = plan.media.fc_vwc;
+  const floor = plan.media.vwc_floor ?? resolveMedia(intake, sopBundle, fc).vwc_floor;
+  const photoperiodMin = (plan.lightcycle?.photoperiod_h ?? clamp(num(intake.photoperiodH, 12) ?? 12, 0, 24)) * 60;
+  const dayRate = plan.demand.dryback_pct_hr;
+  const nightRate = plan.lightcycle?.night_dryback_pct_hr ?? dayRate * NIGHT_DRYBACK_FRAC;
+
+  const shots = shotOffsetsMin(plan, Math.max(0, num(input.p1OffsetMin, 0) ?? 0), useReconciled ? "reconciled" : "user");
+
+  const stepsPerDay = Math.round(1440 / stepMin);
+  const events = new Map<number, ShotEvent[]>();
+  for (let d = 0; d < days; d++) {
+    for (const shot of shots) {
+      const step = Math.round((d * 1440 + shot.offset_min) / stepMin);
+      const list = events.get(step) ?? [];
+      list.push({ step, phase: shot.phase, ml: shot.ml });
+      events.set(step, list);
+    }
+  }
+
+  const trace: VwcTracePoint[] = [];
+  const daily: VwcSimulation["daily"] = [];
+  const floorBreaches: VwcSimulation["floor_breaches"] = [];
+  const overshoots: VwcSimulation["overshoots"] = [];
+  const runoffTarget = plan.p2.runoff_target_frac;
+
+  let vwc = plan.media.vwc_start;
+  let breach: VwcSimulation["floor_breaches"][0] | null = null;
+
+  for (let k = 0; k < days * stepsPerDay; k++) {
+    const tMin = k * stepMin;
+    const day = Math.floor(k / stepsPerDay);
+    const lightsOn = tMin % 1440 < photoperiodMin;
+    if (!daily[day]) {
+      daily[day] = { day: day + 1, min_vwc: vwc, max_vwc: vwc, applied_ml: 0, runoff_ml: 0 };
+    }
+    const summary = daily[day]!;
+
+    if (k > 0) {
+      vwc = Math.max(0, vwc - (lightsOn ? dayRate : nightRate) * (stepMin / 60));
+    }
+
+    let phase: "P1" | "P2" | undefined;
+    for (const ev of events.get(k) ?? []) {
+      if (ev.ml <= 0) continue;
+      phase = ev.phase;
+      const peak = vwc + (ev.ml / mediaMl) * 100;
+      const excessPct = Math.max(0, peak - fc);
+      const runoffMl = mediaMl * (excessPct / 100);
+      const runoffFrac = runoffMl / ev.ml;
+      vwc = Math.min(peak, fc);
+      summary.applied_ml += ev.ml;
+      summary.runoff_ml += runoffMl;
+      if (excessPct > 0 && runoffFrac > runoffTarget + OVERSHOOT_TOL_FRAC) {
+        overshoots.push({
+          t_min: tMin,
+          phase: ev.phase,
+          peak_vwc: round2(peak),
+          runoff_ml: Math.round(runoffMl),
+          runoff_frac: round2(runoffFrac),
+        });
+      }
+    }
+
+    summary.min_vwc = Math.min(summary.min_vwc, vwc);
+    summary.max_vwc = Math.max(summary.max_vwc, vwc);
+
+    if (vwc < floor) {
+      if (!breach) breach = { start_min: tMin, end_min: tMin, min_vwc: vwc };
+      breach.end_min = tMin;
+      breach.min_vwc = Math.min(breach.min_vwc, vwc);
+    } else if (breach) {
+      floorBreaches.push({ ...breach, min_vwc: round2(breach.min_vwc) });
+      breach = null;
+    }
+
+    trace.push({ t_min: tMin, day: day + 1, vwc: round2(vwc), lights_on: lightsOn, ...(phase ? { event: phase } : {}) });
+  }
+  if (breach) floorBreaches.push({ ...breach, min_vwc: round2(breach.min_vwc) });
+
+  return {
+    ok: true,
+    sop_bundle_version: plan.sop_bundle_version,
+    solver_version: SOLVER_VERSION,
+    cfg_key_effective: plan.cfg_key_effective,
+    schedule: useReconciled ? "reconciled" : "user",
+    step_min: stepMin,
+    days,
+    fc_vwc: fc,
+    vwc_floor: floor,
+    dryback_pct_hr: { day: dayRate, night: nightRate },
+    trace,
+    daily: daily.map((d) => ({
+      ...d,
+      min_vwc: round2(d.min_vwc),
+      max_vwc: round2(d.max_vwc),
+      runoff_ml: Math.round(d.runoff_ml),
+    })),
+    floor_breaches: floorBreaches,
+    overshoots,
+  };
+}
+
+function round2(n: number): number {
+  return Number(n.toFixed(2));
+}
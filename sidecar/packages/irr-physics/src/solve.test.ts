@@ -1,34 +1,14 @@
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
-import { solveIrr, buildRealityDelta, loadSopBundle } from "./index.ts";
+import { intake } from "./fixtures.ts";
+import { buildRealityDelta, flattenSolvePlan, loadSopBundle, renderIssue, solveIrr } from "./index.ts";
 
-const intake = {
-  stage: "mid bloom",
-  medium: "coco",
-  container: "1",
-  profile: "Athena Pro",
-  photoperiodH: 18,
-  tempC: 26,
-  vpdKpa: 1.2,
-  dliMol: 35,
-  co2: 900,
-  co2Mode: "co2",
-  runoffPct: 10,
-  drybackPct24h: 18,
-  targetAtFirst: 40,
-  p1Events: 4,
-  p1IntervalMin: 30,
-  p1MlPerEvent: 200,
-  p2Events: 9,
-  p2IntervalMin: 60,
-  p2MlPerEvent: 90,
-};
+const bundle = loadSopBundle("Athena Pro")!;
 
-describe("irr-physics acceptance", () => {
+describe("solveIrr", () => {
   it("loads Athena Pro bundle and solves", () => {
-    const bundle = loadSopBundle("Athena Pro");
     assert.ok(bundle, "bundle");
-    const plan = solveIrr({ intake, sopBundle: bundle! });
+    const plan = solveIrr({ intake, sopBundle: bundle });
     assert.equal(plan.ok, true);
     assert.equal(plan.p1.events_user, 4);
     assert.ok((plan.p1.w_refill_ml ?? 0) > 0);
@@ -37,7 +17,6 @@ describe("irr-physics acceptance", () => {
   });
 
   it("reality delta has daily user fields", () => {
-    const bundle = loadSopBundle("Athena Pro")!;
     const plan = solveIrr({ intake, sopBundle: bundle });
     const rd = buildRealityDelta(plan);
     assert.equal(rd.ok, true);
@@ -46,7 +25,6 @@ describe("irr-physics acceptance", () => {
   });
 
   it("honors p1Events from intake (acceptance 2)", () => {
-    const bundle = loadSopBundle("Athena Pro")!;
     const plan = solveIrr({
       intake: { ...intake, p1Events: 6 },
       sopBundle: bundle,
@@ -55,7 +33,6 @@ describe("irr-physics acceptance", () => {
   });
 
   it("reconcile adjusts p1 ml/event when p1Events dirty", () => {
-    const bundle = loadSopBundle("Athena Pro")!;
     const plan = solveIrr({
       intake: { ...intake, p1Events: 6, p1MlPerEvent: 50 },
       sopBundle: bundle,
@@ -67,8 +44,8 @@ describe("irr-physics acceptance", () => {
   });
 
   it("normalizes 1 gal container for SharkmouseFarms baseline", () => {
-    const bundle = loadSopBundle("SharkmouseFarms");
-    assert.ok(bundle, "sharkmouse bundle");
+    const shark = loadSopBundle("SharkmouseFarms");
+    assert.ok(shark, "sharkmouse bundle");
     const plan = solveIrr({
       intake: {
         stage: "early veg",
@@ -78,13 +55,12 @@ describe("irr-physics acceptance", () => {
         co2: 1200,
         co2Mode: "co2",
       },
-      sopBundle: bundle!,
+      sopBundle: shark!,
     });
     assert.equal(plan.ok, true, plan.error || "expected ok");
   });
 
   it("handwater mode uses coherence for p2 checks", () => {
-    const bundle = loadSopBundle("Athena Pro")!;
     const plan = solveIrr({
       intake: { ...intake, mode: "handwater", p2Events: 9, p2MlPerEvent: 500 },
       sopBundle: bundle,
@@ -95,4 +71,47 @@ describe("irr-physics acceptance", () => {
         plan.ok
     );
   });
+
+  it("penman-monteith demand model drives dryback when selected", () => {
+    const heuristic = solveIrr({ intake, sopBundle: bundle });
+    assert.equal(heuristic.demand.model, "heuristic");
+    assert.ok((heuristic.demand.transpiration?.et_ml_plant_hr ?? 0) > 0);
+
+    const physics = solveIrr({ intake, sopBundle: bundle, demandModel: "penman-monteith" });
+    assert.equal(physics.demand.dryback_source, "penman-monteith");
+    assert.equal(physics.demand.dryback_pct_hr, physics.demand.transpiration!.dryback_pct_hr_physics);
+    assert.equal(
+      physics.demand.transpiration!.dryback_pct_hr_heuristic,
+      heuristic.demand.dryback_pct_hr
+    );
+  });
+
+  it("reports shot seconds from emitter flow (GPH) in plan and legacy flat output", () => {
+    const plan = solveIrr({ intake: { ...intake, emittersPerPlant: 2, emitterFlowGph: 0.5 }, sopBundle: bundle });
+    const flow = 2 * 0.5 * (3785.41 / 60);
+    assert.ok(Math.abs(plan.shot_seconds!.plant_flow_ml_min - flow) < 1e-9);
+    assert.equal(plan.shot_seconds!.p1.user, Math.round((200 / flow) * 60));
+    const flat = flattenSolvePlan(plan);
+    assert.equal(flat.seconds_per_p2_event, plan.shot_seconds!.p2.reconciled);
+    assert.equal((flat.p1 as Record<string, unknown>).seconds_event_sop, plan.shot_seconds!.p1.sop);
+
+    const noFlow = flattenSolvePlan(solveIrr({ intake, sopBundle: bundle }));
+    assert.equal(noFlow.seconds_per_p1_event, null);
+  });
+
+  it("returns coded issues with payload and suggested fix, rendered separately", () => {
+    const plan = solveIrr({ intake: { ...intake, p1MlPerEvent: 50, p2IntervalMin: 10 }, sopBundle: bundle });
+    const short = plan.issues.find((i) => i.code === "P1_REFILL_SHORT")!;
+    assert.equal(short.kind, "warning");
+    assert.equal(short.phase, "P1");
+    assert.equal(short.data.actual_ml_day, 200);
+    assert.ok(Number(short.data.delta_ml_day) < 0);
+    assert.deepEqual(short.fix, { field: "p1MlPerEvent", value: plan.p1.ml_event_reconciled });
+    assert.match(renderIssue(short), /^P1 refill short: .*short by \d+ ml\/day/);
+
+    const interval = plan.issues.find((i) => i.code === "P2_INTERVAL_SHORT")!;
+    assert.deepEqual(interval.fix, { field: "p2IntervalMin", value: 15 });
+    assert.equal(plan.warnings.length, plan.issues.filter((i) => i.kind === "warning").length);
+    assert.equal(plan.coherence.length, plan.issues.filter((i) => i.kind === "coherence").length);
+  });
 });
@@ -1,19 +1,27 @@
 import { baseDrybackPctHr, demandLabel, whcPct } from "./curves.ts";
+import { resolveSopBaseline } from "./baseline.ts";
 import { resolveMedia } from "./media.ts";
 import { applyReconciledFields, sopDefaults } from "./reconcile.ts";
+import { projectSalt } from "./salt.ts";
 import {
   clamp,
   irrKey,
+  MIN_FIT_CONFIDENCE,
   norm,
   num,
+  plantFlowMlMin,
   profileKey,
   SOLVER_VERSION,
   weekIndexFromStage,
 } from "./util.ts";
+import { estimateTranspiration } from "./transpiration.ts";
+import { planLightcycle } from "./lightcycle.ts";
+import { resolveSteering, steeringReport } from "./steering.ts";
+import { renderIssues } from "./messages.ts";
 import { buildWarnings } from "./warnings.ts";
-import type { IntakeIrr, IrrSolvePlan, SolveInput, SopIrrBaseline } from "./types.ts";
+import type { DemandModel, DrybackFit, IntakeIrr, IrrSolvePlan, SolveInput, SopBundle } from "./types.ts";
 
-function demandScalars(intake: IntakeIrr, bundle: { sop_temp_c?: number }) {
+export function demandScalars(intake: IntakeIrr, bundle: SopBundle, fit?: DrybackFit) {
   const tempC = num(intake.tempC, 24) ?? 24;
   const sopT = bundle.sop_temp_c ?? 24;
   const tempFactor = clamp(Math.pow(2, (tempC - sopT) / 10), 0.6, 1.8);
@@ -30,8 +38,20 @@ function demandScalars(intake: IntakeIrr, bundle: { sop_temp_c?: number }) {
     co2Factor = clamp(1 + 0.1 * ((co2 - 450) / 750), 1, 1.1);
   }
 
+  const useFit = !!fit?.ok && fit.confidence >= MIN_FIT_CONFIDENCE && fit.base_pct_hr > 0;
+  const weekIdx = num(intake.weekIndex) ?? weekIndexFromStage(intake.stage || "", bundle.total_weeks ?? 13);
+  const bundleBase = baseDrybackPctHr(weekIdx, bundle);
+  // A fit measures one week: carry its ratio to that week's bundle rate onto this week's, so the
+  // bundle's stage curve still shapes other weeks. Fits without a bundle reference apply as-is.
+  const base = !useFit
+    ? bundleBase
+    : fit!.bundle_base_pct_hr
+      ? fit!.base_pct_hr * (bundleBase / fit!.bundle_base_pct_hr)
+      : fit!.base_pct_hr;
+  const dryback_source: "bundle" | "fitted" = useFit ? "fitted" : "bundle";
+
   const dryback_pct_hr =
-    baseDrybackPctHr(weekIndexFromStage(intake.stage || "", bundle.total_weeks ?? 13), bundle as any) *
+    base *
     tempFactor *
     vpdFactor *
     dliFactor *
@@ -39,21 +59,35 @@ function demandScalars(intake: IntakeIrr, bundle: { sop_temp_c?: number }) {
 
   const demand_index = clamp((tempFactor - 0.6) / (1.8 - 0.6) * 0.4 + (vpdFactor - 0.75) / 0.6 * 0.3 + (dliFactor - 0.7) / 0.7 * 0.3, 0, 1);
 
-  return { dryback_pct_hr, demand_index, tempC, vpd, dli, co2, tempFactor, vpdFactor, dliFactor, co2Factor };
+  return {
+    dryback_pct_hr,
+    dryback_source,
+    demand_index,
+    tempC,
+    vpd,
+    dli,
+    co2,
+    tempFactor,
+    vpdFactor,
+    dliFactor,
+    co2Factor,
+  };
 }
 
 export function solveIrr(input: SolveInput): IrrSolvePlan {
-  const { intake, sopBundle, dirty } = input;
+  const { intake, sopBundle, dirty, drybackFit } = input;
   const bundle = sopBundle;
 
   const phase = intake.stage || "mid bloom";
-  const media = intake.medium || "coco";
-  const container = intake.container || "1";
   const profile = intake.profile || "Athena Pro";
-  const key = irrKey(phase, container, media, profile);
-  const sop: SopIrrBaseline | null = bundle.irr[key] ?? null;
+  const weekIdx = intake.weekIndex ?? weekIndexFromStage(phase, bundle.total_weeks ?? 13);
+  const whc = whcPct(weekIdx, bundle);
+  const resolvedMedia = resolveMedia(intake, bundle, whc);
+  const { mediaMl, potGal, containerL, fc_vwc } = resolvedMedia;
+  const baseline = resolveSopBaseline(bundle, phase, resolvedMedia.sizeGal, resolvedMedia.sopMedium, profile);
+  const key = baseline?.key ?? irrKey(phase, String(resolvedMedia.sizeGal), resolvedMedia.sopMedium, profile);
 
-  if (!sop) {
+  if (!baseline) {
     return {
       ok: false,
       error: `No SOP irrigation baseline for ${key}`,
@@ -65,29 +99,44 @@ export function solveIrr(input: SolveInput): IrrSolvePlan {
       p1_required_day_ml: 0,
       p2_required_day_ml: 0,
       total_required_day_ml: 0,
+      issues: [],
       warnings: [],
       coherence: [],
       actions: { resetToSop: {}, keepUser: {}, applyReconciled: {} },
     };
   }
+  const { sop } = baseline;
+  const whc_ml = mediaMl * (whc / 100);
 
-  const weekIdx = intake.weekIndex ?? weekIndexFromStage(phase, bundle.total_weeks ?? 13);
-  const whc = whcPct(weekIdx, bundle);
-  const fc_vwc = whc;
-  const { mediaMl, potGal } = resolveMedia(intake, bundle, fc_vwc);
-  const vwc_start = num(intake.targetAtFirst, fc_vwc - 15) ?? fc_vwc - 15;
+  // A steering strategy replaces the generic defaults for dryback, P1 shot, P2 start and runoff.
+  const steer = resolveSteering(bundle, phase, intake.steering);
+  const target = steer?.target;
+  const defaultDryback = target?.dryback_pct ?? 15;
+  const vwc_start = num(intake.targetAtFirst, fc_vwc - defaultDryback) ?? fc_vwc - defaultDryback;
 
   const handwater = norm(intake.mode || "") === "handwater";
   const p1Events = Math.max(1, Math.round(num(intake.p1Events, sop.p1_events) ?? sop.p1_events));
   const p2Events = handwater ? 0 : Math.max(0, Math.round(num(intake.p2Events, sop.p2_events) ?? sop.p2_events));
   const p1Interval = Math.max(1, num(intake.p1IntervalMin, 30) ?? 30);
   const p2Interval = Math.max(1, num(intake.p2IntervalMin, 60) ?? 60);
-  const p1Ml = Math.max(0, num(intake.p1MlPerEvent, sop.p1_ml) ?? sop.p1_ml);
+  const sopP1Ml = target ? Math.round(whc_ml * (target.p1_shot_pct_whc / 100)) : sop.p1_ml;
+  const p1Ml = Math.max(0, num(intake.p1MlPerEvent, sopP1Ml) ?? sopP1Ml);
   const p2Ml = Math.max(0, num(intake.p2MlPerEvent, sop.p2_ml) ?? sop.p2_ml);
-  const runoffPct = num(intake.runoffPct, sop.runoffPct) ?? sop.runoffPct;
+  const sopRunoff = target?.runoff_pct ?? sop.runoffPct;
+  const runoffPct = num(intake.runoffPct, sopRunoff) ?? sopRunoff;
+  const lastP1Min = (p1Events - 1) * p1Interval;
+  const p2StartDefault = target?.p2_start_min ?? lastP1Min + p2Interval;
+  const p2StartMin = Math.max(lastP1Min, num(intake.p2StartMin, p2StartDefault) ?? p2StartDefault);
   const runoffFrac = clamp(runoffPct / 100, 0, 0.5);
 
-  const { dryback_pct_hr, demand_index, tempC, vpd, dli, co2 } = demandScalars(intake, bundle);
+  const scalars = demandScalars(intake, bundle, drybackFit);
+  const { demand_index, tempC, vpd, dli, co2 } = scalars;
+  const et = estimateTranspiration(intake);
+  const physics_dryback_pct_hr = mediaMl > 0 ? (et.et_ml_plant_hr / mediaMl) * 100 : 0;
+  const demandModel: DemandModel = input.demandModel === "penman-monteith" ? "penman-monteith" : "heuristic";
+  const dryback_pct_hr = demandModel === "penman-monteith" ? physics_dryback_pct_hr : scalars.dryback_pct_hr;
+  const dryback_source: IrrSolvePlan["demand"]["dryback_source"] =
+    demandModel === "penman-monteith" ? "penman-monteith" : scalars.dryback_source;
   const dbPct_interval = dryback_pct_hr * (p2Interval / 60);
 
   const refill_gap_pct = Math.max(0, fc_vwc - vwc_start);
@@ -114,19 +163,61 @@ export function solveIrr(input: SolveInput): IrrSolvePlan {
   const p1_ml_recon = Math.round(p1_required_day_ml / p1Events);
   const p2_ml_recon = Math.round(p2_required_event_ml);
 
+  const lightcycle = planLightcycle(intake, {
+    dayRate: dryback_pct_hr,
+    mediaMl,
+    fcVwc: fc_vwc,
+    model: demandModel,
+    et,
+    p1Events,
+    p1IntervalMin: p1Interval,
+    p2Events,
+    p2IntervalMin: p2Interval,
+    p2StartMin,
+  });
+  const steering =
+    steer && intake.steering
+      ? steeringReport(
+          intake.steering,
+          steer,
+          {
+            dryback_pct: lightcycle.predicted_dryback_pct,
+            p1_shot_pct_whc: whc_ml > 0 ? (p1Ml / whc_ml) * 100 : null,
+            p2_start_min: p2Events > 0 ? p2StartMin : null,
+            runoff_pct: p2Events > 0 ? estimated_runoff_frac * 100 : null,
+          },
+          whc_ml
+        )
+      : undefined;
+
+  const flow = plantFlowMlMin(intake);
+  const seconds = (ml: number) => (flow ? Math.round((ml / flow) * 60) : 0);
+
   const basePlan = {
     ok: true as const,
     base_key_effective: `${norm(phase)}|${num(intake.photoperiodH, 12)}|day|co2`,
     cfg_key_effective: key,
     sop_bundle_version: bundle.version,
     solver_version: SOLVER_VERSION,
+    sop_baseline: {
+      source: baseline.source,
+      from: baseline.from,
+      size_gal: baseline.size_gal,
+      ...(bundle.provenance ? { provenance: baselineProvenance(bundle, baseline.from) } : {}),
+    },
+    sop_lineage: bundle.lineage,
     media: {
       pot_gal: potGal,
+      pot_l: containerL,
+      medium_id: resolvedMedia.def.id,
+      geometry: resolvedMedia.geometry,
+      plants_per_container: resolvedMedia.plants,
+      vwc_floor: sop.vwc_floor ?? resolvedMedia.vwc_floor,
       media_ml: mediaMl,
       whc_pct: whc,
       fc_vwc,
       vwc_start,
-      whc_ml: mediaMl * (whc / 100),
+      whc_ml,
     },
     demand: {
       tempC: tempC ?? undefined,
@@ -137,6 +228,25 @@ export function solveIrr(input: SolveInput): IrrSolvePlan {
       demand_label: demandLabel(demand_index),
       dryback_pct_hr,
       dbPct_interval,
+      dryback_source,
+      model: demandModel,
+      transpiration: {
+        et_ml_plant_hr: et.et_ml_plant_hr,
+        et_ml_plant_night_hr: et.et_ml_plant_night_hr,
+        et_ml_plant_day: et.et_ml_plant_day,
+        canopy_m2: et.canopy_m2,
+        rc_s_m: et.rc_s_m,
+        dryback_pct_hr_physics: physics_dryback_pct_hr,
+        dryback_pct_hr_heuristic: scalars.dryback_pct_hr,
+      },
+      dryback_fit: drybackFit?.ok
+        ? {
+            base_pct_hr: drybackFit.base_pct_hr,
+            confidence: drybackFit.confidence,
+            confidence_label: drybackFit.confidence_label,
+            n_points: drybackFit.n_points,
+          }
+        : undefined,
     },
     p1: {
       events_user: p1Events,
@@ -165,12 +275,20 @@ export function solveIrr(input: SolveInput): IrrSolvePlan {
       runoff_delta_frac,
       events_reconciled: p2Events,
       ml_event_reconciled: p2_ml_recon,
+      start_min: p2StartMin,
     },
     p1_required_day_ml,
     p2_required_day_ml,
     total_required_day_ml: p1_required_day_ml + p2_required_day_ml,
-    warnings: [] as string[],
-    coherence: [] as string[],
+    shot_seconds: flow
+      ? {
+          plant_flow_ml_min: flow,
+          p1: { user: seconds(p1Ml), sop: seconds(sop.p1_ml), reconciled: seconds(p1_ml_recon) },
+          p2: { user: seconds(p2Ml), sop: seconds(sop.p2_ml), reconciled: seconds(p2_ml_recon) },
+        }
+      : undefined,
+    lightcycle,
+    steering,
     actions: {
       resetToSop: sopDefaults(sop, runoffPct),
       keepUser: { ...pickIrr(intake) },
@@ -184,8 +302,21 @@ export function solveIrr(input: SolveInput): IrrSolvePlan {
     },
   };
 
-  const { warnings, coherence } = buildWarnings(intake, basePlan, bundle, sop);
-  return { ...basePlan, warnings, coherence };
+  const salt = projectSalt(intake, basePlan, bundle, input.saltDays);
+  const issues = buildWarnings(intake, { ...basePlan, salt }, bundle, sop);
+  return { ...basePlan, salt, issues, ...renderIssues(issues) };
+}
+
+/** Source of each baseline field for the bundle key(s) the plan was built from. */
+function baselineProvenance(bundle: SopBundle, keys: string[]): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const key of keys) {
+    for (const field of Object.keys(bundle.irr[key] ?? {})) {
+      const src = bundle.provenance?.[`irr.${key}.${field}`];
+      if (src && !out[field]?.includes(src)) out[field] = out[field] ? `${out[field]}, ${src}` : src;
+    }
+  }
+  return out;
 }
 
 function pickIrr(i: IntakeIrr): Partial<IntakeIrr> {
@@ -274,6 +405,7 @@ export function buildRealityDelta(plan: IrrSolvePlan) {
         runoff_delta_frac: plan.p2.runoff_delta_frac,
       },
     },
+    issues: plan.issues,
     warnings: plan.warnings,
     coherence: plan.coherence,
   };
@@ -0,0 +1,34 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { intake } from "./fixtures.ts";
+import { deriveSchedule, loadSopBundle, solveIrr } from "./index.ts";
+
+const bundle = loadSopBundle("Athena Pro")!;
+
+describe("steering", () => {
+  it("applies steering-mode targets and reports drift from the strategy", () => {
+    const { targetAtFirst: _t, drybackPct24h: _d, runoffPct: _r, p1MlPerEvent: _p, ...open } = intake;
+    const row = bundle.steering!["mid bloom"]!.generative!;
+
+    const plan = solveIrr({ intake: { ...open, steering: "generative" }, sopBundle: bundle });
+    assert.equal(plan.steering?.mode, "generative");
+    assert.equal(plan.steering?.stage, "mid bloom");
+    assert.ok(Math.abs(plan.media.fc_vwc - plan.media.vwc_start - row.dryback_pct) < 1e-9);
+    assert.equal(plan.p2.runoff_target_frac, row.runoff_pct / 100);
+    assert.equal(plan.p1.ml_event_user, plan.steering!.targets.p1_shot_ml);
+    assert.equal(plan.p2.start_min, row.p2_start_min);
+    assert.equal(plan.steering!.deviations.find((d) => d.field === "p1_shot_pct_whc")?.within, true);
+
+    const veg = solveIrr({ intake: { ...open, steering: "vegetative" }, sopBundle: bundle });
+    assert.ok(veg.media.vwc_start > plan.media.vwc_start, "vegetative dries back less");
+
+    const drift = solveIrr({ intake: { ...open, steering: "generative", p1MlPerEvent: 400 }, sopBundle: bundle });
+    const p1 = drift.issues.find((i) => i.code === "STEERING_DRIFT" && i.data.field === "p1_shot_pct_whc");
+    assert.deepEqual(p1?.fix, { field: "p1MlPerEvent", value: drift.steering!.targets.p1_shot_ml });
+    assert.ok(drift.steering!.distance > plan.steering!.distance);
+
+    const derived = deriveSchedule({ intake: { ...open, steering: "generative" }, sopBundle: bundle });
+    assert.equal(derived.schedule.runoffPct, row.runoff_pct);
+    assert.equal(derived.targets?.dryback_pct_24h, row.dryback_pct);
+  });
+});
@@ -0,0 +1,68 @@
+import { norm } from "./util.ts";
+import type { SopBundle, SteeringMode, SteeringReport, SteeringTarget } from "./types.ts";
+
+export const STEERING_MODES: SteeringMode[] = ["vegetative", "balanced", "generative"];
+
+/** Distance from each target before a field counts as off-strategy. */
+const TOLERANCE: Record<keyof SteeringTarget, number> = {
+  dryback_pct: 2,
+  p1_shot_pct_whc: 1,
+  p2_start_min: 30,
+  runoff_pct: 3,
+};
+
+/** "veg", "Generative", "bal" → mode; blank or unknown → undefined. */
+export function steeringMode(v: unknown): SteeringMode | undefined {
+  const s = norm(String(v ?? ""));
+  if (s.length < 3) return undefined;
+  return STEERING_MODES.find((m) => m.startsWith(s.slice(0, 3)));
+}
+
+/** Stage row of the bundle's steering table for `mode`, falling back to the `*` row. */
+export function resolveSteering(
+  bundle: SopBundle,
+  phase: string,
+  mode: SteeringMode | undefined
+): { stage: string; target: SteeringTarget } | null {
+  if (!mode || !bundle.steering) return null;
+  for (const stage of [norm(phase), "*"]) {
+    const target = bundle.steering[stage]?.[mode];
+    if (target) return { stage, target };
+  }
+  return null;
+}
+
+/** Compare the schedule's effective values with the strategy targets; null actuals are skipped. */
+export function steeringReport(
+  mode: SteeringMode,
+  row: { stage: string; target: SteeringTarget },
+  actual: Record<keyof SteeringTarget, number | null>,
+  whcMl: number
+): SteeringReport {
+  const fields = Object.keys(TOLERANCE) as Array<keyof SteeringTarget>;
+  const deviations = fields.map((field) => {
+    const target = row.target[field];
+    const value = actual[field];
+    const delta = value != null ? Number((value - target).toFixed(2)) : null;
+    return {
+      field,
+      target,
+      actual: value != null ? Number(value.toFixed(2)) : null,
+      delta,
+      tolerance: TOLERANCE[field],
+      within: delta == null || Math.abs(delta) <= TOLERANCE[field],
+    };
+  });
+  const scored = deviations.filter((d) => d.delta != null);
+  const distance = scored.length
+    ? Number((scored.reduce((sum, d) => sum + Math.abs(d.delta!) / d.tolerance, 0) / scored.length).toFixed(2))
+    : 0;
+  return {
+    mode,
+    stage: row.stage,
+    targets: { ...row.target, p1_shot_ml: Math.round(whcMl * (row.target.p1_shot_pct_whc / 100)) },
+    deviations,
+    distance,
+    label: distance <= 1 ? "on-strategy" : distance <= 2 ? "drifting" : "off-strategy",
+  };
+}
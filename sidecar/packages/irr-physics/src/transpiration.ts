@@ -0,0 +1,96 @@
+import { clamp, num } from "./util.ts";
+import type { IntakeIrr } from "./types.ts";
+
+/** µmol/J for PAR from horticultural LEDs. */
+const PPFD_PER_W = 4.6;
+/** Fraction of incident PAR absorbed by a closed canopy. */
+const CANOPY_ABSORPTANCE = 0.85;
+/** Psychrometric constant near sea level, kPa/°C. */
+const GAMMA_KPA_C = 0.0665;
+/** Air density × specific heat, J/m³/°C. */
+const RHO_CP = 1216;
+/** Latent heat of vaporisation, J/kg. */
+const LAMBDA_J_KG = 2.45e6;
+/** Indoor aerodynamic resistance with gentle canopy airflow, s/m. */
+const RA_S_M = 200;
+/** Minimum leaf stomatal resistance, s/m (Stanghellini). */
+const RS_MIN_S_M = 82;
+const DEFAULT_LAI = 3;
+const DEFAULT_CANOPY_M2 = 0.25;
+
+export type TranspirationEstimate = {
+  et_ml_plant_hr: number;
+  et_ml_plant_night_hr: number;
+  et_ml_plant_day: number;
+  et_ml_m2_hr: number;
+  canopy_m2: number;
+  rn_w_m2: number;
+  rc_s_m: number;
+  vpd_kpa: number;
+  ppfd_umol: number;
+  night: { temp_c: number; vpd_kpa: number; co2: number };
+};
+
+function satVp(tempC: number): number {
+  return 0.6108 * Math.exp((17.27 * tempC) / (tempC + 237.3));
+}
+
+/** Canopy resistance from light, CO2 and VPD response factors (big-leaf, active LAI = LAI/2). */
+function canopyResistance(parW: number, co2: number, vpd: number, lai: number): number {
+  const fLight = (parW + 4.3) / (parW + 0.54);
+  const fCo2 = co2 < 1100 ? 1 + 6.1e-7 * (co2 - 200) ** 2 : 1.5;
+  const fVpd = Math.min(5.8, 1 + 4.3 * vpd * vpd);
+  return (RS_MIN_S_M * fLight * fCo2 * fVpd) / (0.5 * lai);
+}
+
+function penmanMonteith(tempC: number, vpd: number, ppfd: number, co2: number, lai: number) {
+  const es = satVp(tempC);
+  const delta = (4098 * es) / (tempC + 237.3) ** 2;
+  const parW = ppfd / PPFD_PER_W;
+  const rn = parW * CANOPY_ABSORPTANCE;
+  const rc = canopyResistance(parW, co2, vpd, lai);
+  const lambdaE = (delta * rn + (RHO_CP * vpd) / RA_S_M) / (delta + GAMMA_KPA_C * (1 + rc / RA_S_M));
+  const mlM2Hr = (Math.max(0, lambdaE) / LAMBDA_J_KG) * 3600 * 1000;
+  return { mlM2Hr, rn, rc };
+}
+
+/** Penman-Monteith canopy transpiration in ml/plant/hr for the intake climate. */
+export function estimateTranspiration(intake: IntakeIrr): TranspirationEstimate {
+  const tempC = num(intake.tempC, 24) ?? 24;
+  const es = satVp(tempC);
+  const rh = num(intake.rh);
+  const vpd = clamp(num(intake.vpdKpa, rh != null ? es * (1 - rh / 100) : 1.2) ?? 1.2, 0, 5);
+  const photoperiodH = clamp(num(intake.photoperiodH, 12) ?? 12, 0, 24);
+  const dli = num(intake.dliMol, 35) ?? 35;
+  const ppfd = num(intake.ppfd, photoperiodH > 0 ? (dli * 1e6) / (photoperiodH * 3600) : 0) ?? 0;
+  const co2 = num(intake.co2, 450) ?? 450;
+  const canopyM2 = Math.max(0.01, num(intake.canopyM2, DEFAULT_CANOPY_M2) ?? DEFAULT_CANOPY_M2);
+
+  // Lights-off climate: blank night fields inherit the lights-on values.
+  const nightTempC = num(intake.nightTempC, tempC) ?? tempC;
+  const nightRh = num(intake.nightRh);
+  const nightVpd = clamp(
+    num(intake.nightVpdKpa, nightRh != null ? satVp(nightTempC) * (1 - nightRh / 100) : vpd) ?? vpd,
+    0,
+    5
+  );
+  const nightCo2 = num(intake.nightCo2, co2) ?? co2;
+
+  const day = penmanMonteith(tempC, vpd, ppfd, co2, DEFAULT_LAI);
+  const night = penmanMonteith(nightTempC, nightVpd, 0, nightCo2, DEFAULT_LAI);
+  const etHr = day.mlM2Hr * canopyM2;
+  const etNightHr = night.mlM2Hr * canopyM2;
+
+  return {
+    et_ml_plant_hr: etHr,
+    et_ml_plant_night_hr: etNightHr,
+    et_ml_plant_day: etHr * photoperiodH + etNightHr * (24 - photoperiodH),
+    et_ml_m2_hr: day.mlM2Hr,
+    canopy_m2: canopyM2,
+    rn_w_m2: day.rn,
+    rc_s_m: day.rc,
+    vpd_kpa: vpd,
+    ppfd_umol: ppfd,
+    night: { temp_c: nightTempC, vpd_kpa: nightVpd, co2: nightCo2 },
+  };
+}
@@ -13,29 +13,109 @@ export type IntakeIrr = {
   stage?: string;
   medium?: string;
   container?: string;
+  /** Exact container volume in litres; overrides the nominal gallon size for media volume. */
+  containerL?: number;
+  geometry?: ContainerGeometry;
+  /** Slab/block/pot dimensions; volume = l × w × h. */
+  dimsCm?: { l: number; w: number; h: number };
+  plantsPerContainer?: number;
+  /** Custom substrate; otherwise `medium` is looked up in the media library. */
+  mediaDef?: MediaDef;
   profile?: string;
   mode?: string;
+  /** Crop-steering strategy; targets come from the bundle's `steering` table for the stage. */
+  steering?: SteeringMode;
   photoperiodH?: number;
   tempC?: number;
   vpdKpa?: number;
   dliMol?: number;
+  rh?: number;
+  ppfd?: number;
+  canopyM2?: number;
   co2?: number;
   co2Mode?: string;
+  /** Lights-off climate; blank fields fall back to the lights-on values above. */
+  nightTempC?: number;
+  nightRh?: number;
+  nightVpdKpa?: number;
+  nightCo2?: number;
+  /** stageProfiles row the night climate was filled from, when the caller looked one up. */
+  nightProfileKey?: string;
   runoffPct?: number;
   drybackPct24h?: number;
   targetAtFirst?: number;
   vwcAtLastIrr?: number;
+  feedEc?: number;
+  runoffEc?: number;
+  pwec?: number;
   p1Events?: number;
   p1IntervalMin?: number;
   p1Pct?: number;
   p1MlPerEvent?: number;
   p2Events?: number;
   p2IntervalMin?: number;
+  /** Minutes after lights-on of the first P2 shot; default one P2 interval after the last P1. */
+  p2StartMin?: number;
   p2Pct?: number;
   p2MlPerEvent?: number;
+  emittersPerPlant?: number;
+  emitterFlowMlMin?: number;
+  emitterFlowGph?: number;
   weekIndex?: number;
 };
 
+export type ContainerGeometry = "pot" | "slab" | "block";
+
+export type SteeringMode = "vegetative" | "balanced" | "generative";
+
+/** Strategy targets for one stage and steering mode. */
+export type SteeringTarget = {
+  /** VWC points lost from the last shot to the first shot of the next day. */
+  dryback_pct: number;
+  p1_shot_pct_whc: number;
+  /** Minutes after lights-on of the first P2 shot. */
+  p2_start_min: number;
+  runoff_pct: number;
+};
+
+/** How far the submitted schedule sits from the chosen strategy, field by field. */
+export type SteeringReport = {
+  mode: SteeringMode;
+  /** `steering` table row used: the stage, or `*`. */
+  stage: string;
+  targets: SteeringTarget & { p1_shot_ml: number };
+  deviations: Array<{
+    field: keyof SteeringTarget;
+    target: number;
+    actual: number | null;
+    delta: number | null;
+    tolerance: number;
+    within: boolean;
+  }>;
+  /** Mean |delta| / tolerance over the fields that have an actual value. */
+  distance: number;
+  label: "on-strategy" | "drifting" | "off-strategy";
+};
+
+export type MediaDef = {
+  id: string;
+  label?: string;
+  fc_vwc: number;
+  vwc_floor: number;
+  fill_factor: number;
+  /** Bundle medium whose SOP baselines this substrate uses (default: coco). */
+  sop_medium?: string;
+  blend?: Record<string, number>;
+};
+
+export type SopBaselineMatch = {
+  sop: SopIrrBaseline;
+  key: string;
+  source: "exact" | "interpolated" | "scaled";
+  from: string[];
+  size_gal: number;
+};
+
 export type SopIrrBaseline = {
   runoffPct: number;
   p1_events: number;
@@ -67,8 +147,78 @@ export type SopBundle = {
   pump_min_ml?: number;
   pump_max_ml?: number;
   min_p2_interval_min?: number;
+  pwec_max?: number;
   media?: Record<string, { v_media_ml?: number; fc_vwc?: number; vwc_floor?: number }>;
+  /** Stage (or `*`) → steering mode → strategy targets. */
+  steering?: Record<string, Partial<Record<SteeringMode, SteeringTarget>>>;
   irr: Record<string, SopIrrBaseline>;
+  /** Parent profile (`"Athena Pro"` or `"Athena Pro@2026-05-24.1"`) this bundle overrides. */
+  extends?: string;
+  /** Resolved chain, root first, as `profile@version`; set by the loader for bundles that extend. */
+  lineage?: string[];
+  /** `field` / `irr.<key>.<field>` → `profile@version` that supplied the effective value. */
+  provenance?: Record<string, string>;
+};
+
+/**
+ * Bundle as written on disk or by a user: with `extends`, every field is optional and `irr` entries
+ * are partial. Key segments may be `*` (`"late bloom|*|*": { runoffPct: 15 }`).
+ */
+export type SopBundleDef = Omit<Partial<SopBundle>, "irr" | "steering"> & {
+  profile: string;
+  version: string;
+  irr?: Record<string, Partial<SopIrrBaseline>>;
+  steering?: Record<string, Partial<Record<SteeringMode, Partial<SteeringTarget>>>>;
+};
+
+export type SopBundleInfo = {
+  profile: string;
+  profile_key: string;
+  current_version: string | null;
+  versions: string[];
+};
+
+export type BundleIssue = {
+  severity: "error" | "warn";
+  code: string;
+  path: string;
+  message: string;
+};
+
+export type BundleReport = {
+  ok: boolean;
+  profile?: string;
+  version?: string;
+  errors: BundleIssue[];
+  warnings: BundleIssue[];
+};
+
+export type BundleLint = {
+  profile?: string;
+  stages: string[];
+  /** Container sizes (gal) and media found in any key; the grid is their full cross product. */
+  sizes: string[];
+  media: string[];
+  missing_irr: string[];
+  unknown_irr: string[];
+};
+
+export type BaselineChange = {
+  key: string;
+  field: string;
+  from: number | null;
+  to: number | null;
+  delta: number | null;
+  pct: number | null;
+};
+
+export type BundleDiff = {
+  from_version?: string;
+  to_version?: string;
+  added: string[];
+  removed: string[];
+  changed: BaselineChange[];
+  settings: BaselineChange[];
 };
 
 export type IrrSolvePlan = {
@@ -78,8 +228,15 @@ export type IrrSolvePlan = {
   cfg_key_effective?: string;
   sop_bundle_version?: string;
   solver_version: string;
+  sop_baseline?: Omit<SopBaselineMatch, "sop" | "key"> & { provenance?: Record<string, string> };
+  sop_lineage?: string[];
   media: {
     pot_gal?: number;
+    pot_l?: number;
+    medium_id?: string;
+    geometry?: ContainerGeometry;
+    plants_per_container?: number;
+    vwc_floor?: number;
     media_ml: number;
     whc_pct: number;
     fc_vwc: number;
@@ -95,6 +252,18 @@ export type IrrSolvePlan = {
     demand_label: "LOW" | "MED" | "HIGH";
     dryback_pct_hr: number;
     dbPct_interval: number;
+    dryback_source?: "bundle" | "fitted" | "penman-monteith";
+    model?: DemandModel;
+    transpiration?: {
+      et_ml_plant_hr: number;
+      et_ml_plant_night_hr: number;
+      et_ml_plant_day: number;
+      canopy_m2: number;
+      rc_s_m: number;
+      dryback_pct_hr_physics: number;
+      dryback_pct_hr_heuristic: number;
+    };
+    dryback_fit?: { base_pct_hr: number; confidence: number; confidence_label: string; n_points: number };
   };
   p1: {
     events_user: number;
@@ -123,10 +292,21 @@ export type IrrSolvePlan = {
     runoff_delta_frac: number;
     events_reconciled: number;
     ml_event_reconciled: number;
+    /** Minutes after lights-on of the first P2 shot. */
+    start_min?: number;
   };
   p1_required_day_ml: number;
   p2_required_day_ml: number;
   total_required_day_ml: number;
+  shot_seconds?: {
+    plant_flow_ml_min: number;
+    p1: { user: number; sop: number; reconciled: number };
+    p2: { user: number; sop: number; reconciled: number };
+  };
+  lightcycle?: LightcyclePlan;
+  steering?: SteeringReport;
+  salt?: SaltProjection;
+  issues: IrrIssue[];
   warnings: string[];
   coherence: string[];
   actions: {
@@ -136,8 +316,391 @@ export type IrrSolvePlan = {
   };
 };
 
+export type IrrIssueCode =
+  | "P1_REFILL_SHORT"
+  | "P1_OVERFILL"
+  | "P2_SHORT"
+  | "P2_OVER"
+  | "P2_IGNORED_FLUSH"
+  | "HANDWATER_P2_INFO"
+  | "RUNOFF_MISSED"
+  | "RUNOFF_HIGH"
+  | "P2_INTERVAL_SHORT"
+  | "P2_BELOW_PUMP_MIN"
+  | "P2_ABOVE_PUMP_MAX"
+  | "SOP_DEVIATION"
+  | "DAILY_EXCEEDS_CAPACITY"
+  | "TARGET_AT_FIRST_MISSING"
+  | "DRYBACK_MISMATCH"
+  | "DRYBACK_FIT_UNUSED"
+  | "WHC_EFF_MISMATCH"
+  | "CUSTOM_P1_OK"
+  | "PWEC_CEILING"
+  | "SHOTS_AFTER_LIGHTS_OFF"
+  | "OVERNIGHT_DRYBACK_MISMATCH"
+  | "STEERING_DRIFT"
+  | "STEERING_UNAVAILABLE"
+  | "EMITTER_FLOW_MISSING"
+  | "EMITTER_FLOW_INVALID"
+  | "ROOM_ZONE_FAILED"
+  | "ROOM_EVENT_COUNT_MISMATCH"
+  | "ROOM_SHARED_SHOT_OVER"
+  | "ROOM_PUMP_CAPACITY";
+
+/** Lights-on / lights-off split of the 24 h and the overnight dryback it predicts. */
+export type LightcyclePlan = {
+  photoperiod_h: number;
+  dark_h: number;
+  day_dryback_pct_hr: number;
+  night_dryback_pct_hr: number;
+  /** `default` = fixed fraction of the day rate; otherwise Penman-Monteith at the night climate. */
+  night_source: "intake" | "stage-profile" | "default";
+  night_profile_key?: string;
+  night_climate?: { temp_c: number; vpd_kpa: number; co2: number };
+  /** Minutes after lights-on of the last P1/P2 shot. */
+  last_shot_min: number;
+  fits_photoperiod: boolean;
+  /** P2 events that fit between the last P1 shot and lights-off. */
+  max_p2_events: number;
+  /** VWC points lost from the last shot to the next lights-on. */
+  predicted_dryback_pct: number;
+  predicted_vwc_at_first: number;
+};
+
+/** Coded solver finding; render text with `renderIssue`. */
+export type IrrIssue = {
+  code: IrrIssueCode;
+  /** "warning" renders into `warnings`, "coherence" into `coherence`. */
+  kind: "warning" | "coherence";
+  severity: "info" | "warn" | "critical";
+  phase?: "P1" | "P2" | "runoff" | "media" | "demand" | "salt";
+  data: Record<string, number | string | null>;
+  /** Input field to change, with the suggested value when the solver has one. */
+  fix?: { field: DirtyField; value?: number };
+};
+
+export type SaltProjection = {
+  feed_ec: number;
+  pwec_start: number;
+  pwec_ceiling: number;
+  uptake_ec_ratio: number;
+  applied_day_ml: number;
+  runoff_day_ml: number;
+  pwec_steady: number | null;
+  trend: "rising" | "stable" | "falling";
+  /** PWEC at field capacity (what runoff reads) and at the pre-P1 low (peak concentration). */
+  days: Array<{ day: number; pwec: number; pwec_dry: number }>;
+  warning?: IrrIssue;
+};
+
+export type DemandModel = "heuristic" | "penman-monteith";
+
 export type SolveInput = {
   intake: IntakeIrr;
   sopBundle: SopBundle;
   dirty?: DirtyField[];
+  drybackFit?: DrybackFit;
+  demandModel?: DemandModel;
+  /** PWEC projection horizon in days (default 7). */
+  saltDays?: number;
+};
+
+/** Intake fields a sensitivity sweep can vary. */
+export type SweepInput = "tempC" | "vpdKpa" | "dliMol" | "p2Events" | "p2IntervalMin" | "runoffPct";
+
+/** Explicit `values`, or `from`..`to` in `steps` points; omitted bounds span the default range around the current value. */
+export type SweepAxis = {
+  input: SweepInput;
+  values?: number[];
+  from?: number;
+  to?: number;
+  steps?: number;
+};
+
+export type SensitivityInput = SolveInput & {
+  /** One or two axes; the grid is their cartesian product. */
+  axes: SweepAxis[];
+};
+
+export type SensitivityCell = {
+  values: Partial<Record<SweepInput, number>>;
+  ok: boolean;
+  total_required_day_ml: number;
+  delta_ml: number;
+  delta_pct: number;
+  estimated_runoff_frac: number;
+  issue_codes: IrrIssueCode[];
+};
+
+export type SensitivityRank = {
+  input: SweepInput;
+  base: number;
+  step: number;
+  /** Change in total_required_day_ml per `step` (central difference). */
+  delta_ml_per_step: number;
+  /** % change in required volume per % change in the input. */
+  elasticity: number;
+};
+
+export type SensitivityPlan = {
+  ok: boolean;
+  error?: string;
+  solver_version: string;
+  sop_bundle_version?: string;
+  baseline?: {
+    values: Record<SweepInput, number>;
+    total_required_day_ml: number;
+    estimated_runoff_frac: number;
+    issue_codes: IrrIssueCode[];
+  };
+  axes: Array<{ input: SweepInput; values: number[] }>;
+  /** Row-major over `axes` (first axis outer). */
+  grid: SensitivityCell[];
+  ranking: SensitivityRank[];
+};
+
+export type SimulateInput = SolveInput & {
+  days?: number;
+  stepMin?: 1 | 5;
+  p1OffsetMin?: number;
+  schedule?: "user" | "reconciled";
+};
+
+export type VwcTracePoint = {
+  t_min: number;
+  day: number;
+  vwc: number;
+  lights_on: boolean;
+  event?: "P1" | "P2";
+};
+
+export type VwcSimulation = {
+  ok: boolean;
+  error?: string;
+  sop_bundle_version?: string;
+  solver_version: string;
+  cfg_key_effective?: string;
+  schedule?: "user" | "reconciled";
+  step_min: number;
+  days: number;
+  fc_vwc: number;
+  vwc_floor: number;
+  dryback_pct_hr?: { day: number; night: number };
+  trace: VwcTracePoint[];
+  daily: Array<{ day: number; min_vwc: number; max_vwc: number; applied_ml: number; runoff_ml: number }>;
+  floor_breaches: Array<{ start_min: number; end_min: number; min_vwc: number }>;
+  overshoots: Array<{ t_min: number; phase: "P1" | "P2"; peak_vwc: number; runoff_ml: number; runoff_frac: number }>;
+};
+
+export type DeriveScheduleInput = {
+  intake: IntakeIrr;
+  sopBundle: SopBundle;
+  drybackFit?: DrybackFit;
+  /** Pump and controller limits of the caller's rig; each defaults to the bundle's value. */
+  pumpMinMl?: number;
+  pumpMaxMl?: number;
+  minP2IntervalMin?: number;
+};
+
+export type IrrSchedulePlan = {
+  ok: boolean;
+  error?: string;
+  base_key_effective?: string;
+  cfg_key_effective?: string;
+  sop_bundle_version?: string;
+  solver_version: string;
+  targets?: {
+    fc_vwc: number;
+    target_at_first: number;
+    dryback_pct_24h: number;
+    runoff_target_frac: number;
+    dryback_pct_hr: number;
+    night_dryback_pct_hr: number;
+    photoperiod_h: number;
+  };
+  window?: {
+    p1_duration_h: number;
+    p2_window_h: number;
+    irrigation_h: number;
+    overnight_h: number;
+  };
+  schedule: Partial<IntakeIrr>;
+  check?: {
+    p1_delta_day_ml: number;
+    p2_delta_day_ml: number;
+    estimated_runoff_frac: number;
+    total_required_day_ml: number;
+    issues: IrrIssue[];
+    warnings: string[];
+  };
+  notes: string[];
+};
+
+export type CalendarInput = {
+  sopBundle: SopBundle;
+  startDate?: string;
+  flipDate?: string;
+  container?: string;
+  medium?: string;
+  profile?: string;
+};
+
+export type CalendarDay = {
+  date: string;
+  day: number;
+  week: number;
+  day_of_week: number;
+  week_index: number;
+  stage: string;
+  whc_pct: number;
+  dryback_pct_hr: number;
+  baseline: SopIrrBaseline;
+};
+
+export type CropCalendar = {
+  ok: boolean;
+  error?: string;
+  sop_bundle_version?: string;
+  solver_version: string;
+  start_date?: string;
+  flip_date?: string;
+  total_weeks: number;
+  days: CalendarDay[];
+};
+
+export type VwcReading = {
+  t: string | number;
+  vwc: number;
+};
+
+export type DrybackFitInput = {
+  readings: VwcReading[];
+  intake?: IntakeIrr;
+  sopBundle?: SopBundle;
+};
+
+export type DrybackSegment = {
+  start: string;
+  end: string;
+  hours: number;
+  points: number;
+  slope_pct_hr: number;
+  r2: number;
+};
+
+export type DrybackFit = {
+  ok: boolean;
+  error?: string;
+  solver_version: string;
+  sop_bundle_version?: string;
+  dryback_pct_hr: number;
+  base_pct_hr: number;
+  bundle_base_pct_hr?: number;
+  ratio_to_bundle?: number;
+  r2: number;
+  n_points: number;
+  n_segments: number;
+  hours: number;
+  confidence: number;
+  confidence_label: "LOW" | "MED" | "HIGH";
+  segments: DrybackSegment[];
+};
+
+export type RoomZone = {
+  id?: string;
+  container?: string;
+  containerL?: number;
+  geometry?: ContainerGeometry;
+  dimsCm?: { l: number; w: number; h: number };
+  plantsPerContainer?: number;
+  medium?: string;
+  mediaDef?: MediaDef;
+  stage?: string;
+  plantCount?: number;
+  emittersPerPlant?: number;
+  emitterFlowMlMin?: number;
+  emitterFlowGph?: number;
+};
+
+export type RoomSolveInput = Omit<SolveInput, "intake"> & {
+  intake: IntakeIrr;
+  zones: RoomZone[];
+  reservoirL?: number;
+  pumpMaxLpm?: number;
+};
+
+export type RoomZonePlan = {
+  id: string;
+  ok: boolean;
+  error?: string;
+  plant_count: number;
+  container?: string;
+  medium?: string;
+  /** Per-plant drip flow; null when the zone has no valid emitter rating (see its issues). */
+  plant_flow_ml_min: number | null;
+  required_day_ml_per_plant: number;
+  required_l_day: number;
+  user_l_day: number;
+  p1_event_ml_required: number;
+  p1_event_ml_delivered: number;
+  p2_event_ml_required: number;
+  p2_event_ml_delivered: number;
+  issues: IrrIssue[];
+  warnings: string[];
+};
+
+export type RoomSolvePlan = {
+  ok: boolean;
+  error?: string;
+  sop_bundle_version?: string;
+  solver_version: string;
+  zones: RoomZonePlan[];
+  shared_shot?: { p1_seconds: number; p2_seconds: number };
+  totals?: {
+    plants: number;
+    required_l_day: number;
+    user_l_day: number;
+    delivered_l_day: number;
+    peak_flow_l_min: number;
+    reservoir_drawdown_l_day: number;
+    reservoir_days?: number;
+  };
+  /** Room-level issues; per-zone solver issues stay on each zone. */
+  issues: IrrIssue[];
+  warnings: string[];
+};
+
+export type ScheduleOptions = {
+  /** Lights-on wall-clock time, HH:MM. */
+  lightsOn: string;
+  /** First day of the export, YYYY-MM-DD; defaults to today. */
+  date?: string;
+  days?: number;
+  p1OffsetMin?: number;
+  /** Which volumes to export; defaults to the reconciled (applied) schedule. */
+  source?: "user" | "reconciled";
+};
+
+export type ScheduleEvent = {
+  day: number;
+  date: string;
+  time: string;
+  /** Floating local timestamp, YYYY-MM-DDTHH:MM:SS. */
+  start: string;
+  phase: "P1" | "P2";
+  n: number;
+  offset_min: number;
+  ml: number;
+  seconds?: number;
+};
+
+export type ScheduleExport = {
+  ok: boolean;
+  error?: string;
+  sop_bundle_version?: string;
+  solver_version: string;
+  cfg_key_effective?: string;
+  source?: "user" | "reconciled";
+  lights_on?: string;
+  events: ScheduleEvent[];
 };
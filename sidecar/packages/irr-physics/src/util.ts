@@ -1,3 +1,5 @@
+import { galToL, lToGal, parseVolumeL } from "../../units/src/index.ts";
+
 export function clamp(n: number, lo: number, hi: number): number {
   return Math.max(lo, Math.min(hi, n));
 }
@@ -15,11 +17,11 @@ export function profileKey(profile: string): string {
   return norm(profile).replace(/[^a-z0-9]+/g, "");
 }
 
-/** Strip "1 gal" / "5 gal" to bundle key digit (matches media.ts). */
+/** "1 gal" / "0.5" / "11 L" → gallon string used in bundle keys ("1", "0.5", "2.906"). */
 export function normalizeContainerGal(container?: string): string {
-  const digits = String(container ?? "1").replace(/[^\d.]/g, "");
-  const n = Math.round(Number(digits) || 1);
-  return String(Math.max(1, Math.min(10, n)));
+  const litres = parseVolumeL(container ?? "1", "gal") ?? galToL(Number(String(container).replace(/[^\d.]/g, "")) || 1);
+  const gal = Number(lToGal(litres).toFixed(3));
+  return String(gal > 0 ? gal : 1);
 }
 
 export function irrKey(phase: string, container: string, media: string, profile: string): string {
@@ -27,24 +29,63 @@ export function irrKey(phase: string, container: string, media: string, profile:
   return `${norm(phase)}|${gal}|${norm(media)}|${profileKey(profile)}`;
 }
 
-/** Map stage name to 1-based week index (13-week crop). */
-export function weekIndexFromStage(stage: string, totalWeeks = 13): number {
+/** Stage → first week of that stage (13-week crop), in crop order. */
+export const STAGE_WEEK_ANCHORS: Record<string, number> = {
+  "early veg": 1,
+  "late veg": 4,
+  "early bloom": 5,
+  "mid bloom": 7,
+  "late bloom": 10,
+  flush: 13,
+};
+
+/** Crop length STAGE_WEEK_ANCHORS are written for. */
+const ANCHOR_CROP_WEEKS = 13;
+
+/**
+ * STAGE_WEEK_ANCHORS stretched onto a `totalWeeks` crop the same way the WHC and dryback curves
+ * are: week 1 stays week 1 and flush lands on the last week.
+ */
+export function stageWeekAnchors(totalWeeks = ANCHOR_CROP_WEEKS): Record<string, number> {
+  const scale = (Math.max(2, totalWeeks) - 1) / (ANCHOR_CROP_WEEKS - 1);
+  return Object.fromEntries(Object.entries(STAGE_WEEK_ANCHORS).map(([k, w]) => [k, 1 + (w - 1) * scale]));
+}
+
+/** Map stage name to 1-based week index on a `totalWeeks` crop. */
+export function weekIndexFromStage(stage: string, totalWeeks = ANCHOR_CROP_WEEKS): number {
   const s = norm(stage);
-  const map: Record<string, number> = {
-    "early veg": 1,
-    "late veg": 4,
-    "early bloom": 5,
-    "mid bloom": 7,
-    "late bloom": 10,
-    flush: 13,
-  };
-  for (const [k, w] of Object.entries(map)) {
+  for (const [k, w] of Object.entries(stageWeekAnchors(totalWeeks))) {
     if (s.includes(k)) return w;
   }
   return Math.ceil(totalWeeks / 2);
 }
 
-export const SOLVER_VERSION = "irr-physics-1.0.0";
+/** Inverse of weekIndexFromStage: stage whose anchor week is the latest at or before weekIndex. */
+export function stageFromWeekIndex(weekIndex: number, totalWeeks = ANCHOR_CROP_WEEKS): string {
+  let stage = "early veg";
+  for (const [k, w] of Object.entries(stageWeekAnchors(totalWeeks))) {
+    if (weekIndex >= w) stage = k;
+  }
+  return stage;
+}
+
+export const SOLVER_VERSION = "irr-physics-1.1.0";
+
+/** Fitted dryback curves below this confidence fall back to the bundle curve. */
+export const MIN_FIT_CONFIDENCE = 0.33;
+
+export const ML_MIN_PER_GPH = 3785.41 / 60;
+
+/** Per-plant drip flow (ml/min) from emitter count and ml/min or GPH rating; null when no rating given. */
+export function plantFlowMlMin(src: {
+  emittersPerPlant?: number;
+  emitterFlowMlMin?: number;
+  emitterFlowGph?: number;
+}): number | null {
+  const mlMin = num(src.emitterFlowMlMin) ?? (num(src.emitterFlowGph) != null ? num(src.emitterFlowGph)! * ML_MIN_PER_GPH : null);
+  if (mlMin == null || mlMin <= 0) return null;
+  return mlMin * Math.max(1, num(src.emittersPerPlant, 1) ?? 1);
+}
 
 export const POT_MEDIA_ML: Record<string, number> = {
   "1": 3785,
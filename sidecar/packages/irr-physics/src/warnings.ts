@@ -1,14 +1,18 @@
 import { norm } from "./util.ts";
-import type { IntakeIrr, IrrSolvePlan, SopBundle, SopIrrBaseline } from "./types.ts";
+import type { IntakeIrr, IrrIssue, IrrSolvePlan, SopBundle, SopIrrBaseline } from "./types.ts";
 
 export function buildWarnings(
   intake: IntakeIrr,
-  plan: Omit<IrrSolvePlan, "warnings" | "coherence" | "actions">,
+  plan: Omit<IrrSolvePlan, "issues" | "warnings" | "coherence" | "actions">,
   bundle: SopBundle,
   sop: SopIrrBaseline | null
-): { warnings: string[]; coherence: string[] } {
-  const warnings: string[] = [];
-  const coherence: string[] = [];
+): IrrIssue[] {
+  const issues: IrrIssue[] = [];
+  const warn = (i: Omit<IrrIssue, "kind" | "severity"> & Partial<IrrIssue>) =>
+    issues.push({ kind: "warning", severity: "warn", ...i });
+  const note = (i: Omit<IrrIssue, "kind" | "severity"> & Partial<IrrIssue>) =>
+    issues.push({ kind: "coherence", severity: "info", ...i });
+
   const tol = bundle.tolerances ?? {};
   const p1Ok = tol.p1_ok_ml_day ?? 100;
   const p2Ok = tol.p2_ok_ml_day ?? 100;
@@ -16,40 +20,56 @@ export function buildWarnings(
 
   const p1d = plan.p1.delta_day_ml;
   const p2d = plan.p2.delta_day_ml;
+  const p1Fix = { field: "p1MlPerEvent" as const, value: plan.p1.ml_event_reconciled };
+  const p2Fix = { field: "p2MlPerEvent" as const, value: plan.p2.ml_event_reconciled };
 
   const handwater = norm(intake.mode || "") === "handwater";
 
-  if (p1d < -p1Ok) warnings.push(`P1 refill short: submitted P1 total cannot reach FC (short by ${Math.round(-p1d)} ml/day).`);
-  else if (p1d > p1Ok) warnings.push(`P1 overfill: submitted P1 exceeds refill budget by ${Math.round(p1d)} ml/day.`);
+  if (p1d < -p1Ok) {
+    warn({ code: "P1_REFILL_SHORT", phase: "P1", data: { delta_ml_day: p1d, target_ml_day: plan.p1.required_day_ml, actual_ml_day: plan.p1.user_day_ml }, fix: p1Fix });
+  } else if (p1d > p1Ok) {
+    warn({ code: "P1_OVERFILL", phase: "P1", data: { delta_ml_day: p1d, target_ml_day: plan.p1.required_day_ml, actual_ml_day: plan.p1.user_day_ml }, fix: p1Fix });
+  }
 
   if (!handwater) {
-    if (p2d < -p2Ok) warnings.push(`P2 short: submitted P2 total cannot maintain dryback + runoff target (short by ${Math.round(-p2d)} ml/day).`);
-    else if (p2d > p2Ok) warnings.push(`P2 over: submitted P2 is heavy by ${Math.round(p2d)} ml/day.`);
+    if (p2d < -p2Ok) {
+      warn({ code: "P2_SHORT", phase: "P2", data: { delta_ml_day: p2d, target_ml_day: plan.p2.required_day_ml, actual_ml_day: plan.p2.user_day_ml }, fix: p2Fix });
+    } else if (p2d > p2Ok) {
+      warn({ code: "P2_OVER", phase: "P2", data: { delta_ml_day: p2d, target_ml_day: plan.p2.required_day_ml, actual_ml_day: plan.p2.user_day_ml }, fix: p2Fix });
+    }
   }
 
   if (plan.p2.events_user === 0 && plan.p2.user_day_ml > 0) {
-    warnings.push("Flush mode: P2 events are 0 but P2 ml/event is set; P2 volume is ignored.");
+    warn({ code: "P2_IGNORED_FLUSH", phase: "P2", data: { actual_ml_day: plan.p2.user_day_ml }, fix: { field: "p2Events" } });
   }
 
   if (handwater && Math.abs(p2d) > p2Ok) {
-    coherence.push("Handwater mode: P2 automation checks are informational only.");
+    note({ code: "HANDWATER_P2_INFO", phase: "P2", data: { delta_ml_day: p2d } });
   }
 
+  const runoffData = { target: plan.p2.runoff_target_frac, actual: plan.p2.estimated_runoff_frac, delta: plan.p2.runoff_delta_frac };
   if (plan.p2.runoff_delta_frac < -0.02) {
-    warnings.push(`Runoff missed: estimated runoff ${(plan.p2.estimated_runoff_frac * 100).toFixed(0)}%, target ${(plan.p2.runoff_target_frac * 100).toFixed(0)}%.`);
+    warn({ code: "RUNOFF_MISSED", phase: "runoff", data: runoffData, fix: p2Fix });
   } else if (plan.p2.runoff_delta_frac > 0.05) {
-    warnings.push(`Runoff high: estimated runoff ${(plan.p2.estimated_runoff_frac * 100).toFixed(0)}% exceeds target ${(plan.p2.runoff_target_frac * 100).toFixed(0)}%.`);
+    warn({ code: "RUNOFF_HIGH", phase: "runoff", data: runoffData, fix: p2Fix });
   }
 
   const minInt = bundle.min_p2_interval_min ?? 15;
   if ((intake.p2IntervalMin ?? 60) < minInt) {
-    warnings.push(`P2 interval may be too short (${intake.p2IntervalMin} min) for pump/absorption.`);
+    warn({ code: "P2_INTERVAL_SHORT", phase: "P2", data: { actual: intake.p2IntervalMin ?? null, target: minInt }, fix: { field: "p2IntervalMin", value: minInt } });
   }
 
   const pumpMin = bundle.pump_min_ml ?? 20;
   const pumpMax = bundle.pump_max_ml ?? 1500;
-  if (plan.p2.ml_event_user < pumpMin) warnings.push(`P2 event volume (${plan.p2.ml_event_user} ml) may be below pump minimum (${pumpMin} ml).`);
-  if (plan.p2.ml_event_user > pumpMax) warnings.push(`P2 event volume (${plan.p2.ml_event_user} ml) may risk saturation/PWEC shock.`);
+  if (plan.p2.ml_event_user < pumpMin) {
+    warn({ code: "P2_BELOW_PUMP_MIN", phase: "P2", data: { actual: plan.p2.ml_event_user, target: pumpMin }, fix: { field: "p2MlPerEvent", value: pumpMin } });
+  }
+  if (plan.p2.ml_event_user > pumpMax) {
+    warn({ code: "P2_ABOVE_PUMP_MAX", phase: "P2", data: { actual: plan.p2.ml_event_user, target: pumpMax }, fix: { field: "p2MlPerEvent", value: pumpMax } });
+  }
+
+  const salt = plan.salt;
+  if (salt?.warning) issues.push(salt.warning);
 
   if (sop) {
     const sopP1Day = sop.p1_events * sop.p1_ml;
@@ -57,40 +77,98 @@ export function buildWarnings(
     const userP1 = plan.p1.user_day_ml;
     const userP2 = plan.p2.user_day_ml;
     if (Math.abs(userP1 - sopP1Day) > warnThr || Math.abs(userP2 - sopP2Day) > warnThr) {
-      warnings.push("Daily irrigation changed significantly from SOP baseline; watch EC/PWEC stability.");
+      warn({ code: "SOP_DEVIATION", data: { p1_delta_ml_day: userP1 - sopP1Day, p2_delta_ml_day: userP2 - sopP2Day, threshold_ml_day: warnThr } });
     }
   }
 
   const cap = plan.media.whc_ml * 1.2;
   if (plan.total_required_day_ml > cap) {
-    warnings.push("Required daily irrigation may exceed practical container water capacity.");
+    warn({ code: "DAILY_EXCEEDS_CAPACITY", phase: "media", data: { actual_ml_day: plan.total_required_day_ml, target_ml_day: cap } });
   }
 
   if (intake.targetAtFirst == null) {
-    warnings.push("Missing Target at first event (VWC start); solver used fallback.");
+    warn({ code: "TARGET_AT_FIRST_MISSING", phase: "P1", data: { fallback: plan.media.vwc_start } });
   }
 
   if (intake.drybackPct24h != null && intake.targetAtFirst != null) {
     const expected = plan.media.fc_vwc - intake.targetAtFirst;
     if (Math.abs(expected - intake.drybackPct24h) > 2) {
-      coherence.push(
-        `Dryback mismatch: FC(${plan.media.fc_vwc.toFixed(1)}) - FirstEvent(${intake.targetAtFirst}) = ${expected.toFixed(1)} VWC points, but Overnight dryback target = ${intake.drybackPct24h}.`
-      );
+      note({
+        code: "DRYBACK_MISMATCH",
+        phase: "P1",
+        data: { fc_vwc: plan.media.fc_vwc, target_at_first: intake.targetAtFirst, expected, actual: intake.drybackPct24h },
+      });
     }
   }
 
+  const lc = plan.lightcycle;
+  if (lc && !lc.fits_photoperiod) {
+    warn({
+      code: "SHOTS_AFTER_LIGHTS_OFF",
+      phase: "P2",
+      data: {
+        last_shot_min: lc.last_shot_min,
+        photoperiod_h: lc.photoperiod_h,
+        overflow_min: lc.last_shot_min - lc.photoperiod_h * 60,
+        max_p2_events: lc.max_p2_events,
+      },
+      fix: { field: "p2Events", value: lc.max_p2_events },
+    });
+  }
+
+  if (lc && intake.drybackPct24h != null && Math.abs(lc.predicted_dryback_pct - intake.drybackPct24h) > 2) {
+    note({
+      code: "OVERNIGHT_DRYBACK_MISMATCH",
+      phase: "demand",
+      data: {
+        predicted: Number(lc.predicted_dryback_pct.toFixed(1)),
+        actual: intake.drybackPct24h,
+        day_pct_hr: lc.day_dryback_pct_hr,
+        night_pct_hr: lc.night_dryback_pct_hr,
+        dark_h: lc.dark_h,
+      },
+    });
+  }
+
+  const steering = plan.steering;
+  if (steering) {
+    // Off-strategy schedules warn; a single drifting field is informational.
+    const report = steering.label === "off-strategy" ? warn : note;
+    const fixes: Partial<Record<string, IrrIssue["fix"]>> = {
+      p1_shot_pct_whc: { field: "p1MlPerEvent", value: steering.targets.p1_shot_ml },
+      runoff_pct: { field: "runoffPct", value: steering.targets.runoff_pct },
+    };
+    for (const d of steering.deviations) {
+      if (d.within) continue;
+      report({
+        code: "STEERING_DRIFT",
+        data: { mode: steering.mode, field: d.field, target: d.target, actual: d.actual, delta: d.delta },
+        ...(fixes[d.field] ? { fix: fixes[d.field] } : {}),
+      });
+    }
+  } else if (intake.steering) {
+    note({ code: "STEERING_UNAVAILABLE", data: { mode: intake.steering, stage: intake.stage ?? null } });
+  }
+
+  const fit = plan.demand.dryback_fit;
+  if (fit && plan.demand.dryback_source === "bundle") {
+    note({
+      code: "DRYBACK_FIT_UNUSED",
+      phase: "demand",
+      data: { confidence: fit.confidence, confidence_label: fit.confidence_label, n_points: fit.n_points },
+    });
+  }
+
   const whcEffPct = plan.media.whc_ml > 0 ? (plan.total_required_day_ml / plan.media.whc_ml) * 100 : 0;
   if (whcEffPct > 120) {
-    coherence.push(
-      `WHC_eff mismatch: required daily volume (${Math.round(plan.total_required_day_ml)} ml) exceeds ~120% of WHC (${Math.round(plan.media.whc_ml)} ml).`
-    );
+    note({ code: "WHC_EFF_MISMATCH", phase: "media", data: { actual_ml_day: plan.total_required_day_ml, whc_ml: plan.media.whc_ml } });
   }
 
   if (Math.abs(p1d) <= p1Ok && Math.abs(p2d) <= p2Ok && plan.p2.runoff_delta_frac >= -0.02) {
     if (intake.p1Events !== sop?.p1_events) {
-      coherence.push("Custom P1 event count still satisfies refill daily budget.");
+      note({ code: "CUSTOM_P1_OK", phase: "P1", data: { actual: intake.p1Events ?? null, target: sop?.p1_events ?? null } });
     }
   }
 
-  return { warnings, coherence };
+  return issues;
 }
@@ -0,0 +1,75 @@
+export type UnitSystem = "metric" | "imperial";
+export type VolumeUnit = "l" | "gal";
+export type TempUnit = "C" | "F";
+export type EcUnit = "mS" | "ppm500" | "ppm700";
+
+/** Resolved unit preferences; internal canonical units are ml / L, °C and mS/cm. */
+export type UnitPrefs = {
+  system: UnitSystem;
+  volume: VolumeUnit;
+  temp: TempUnit;
+  ec: EcUnit;
+};
+
+export const L_PER_GAL = 3.785411784;
+export const ML_PER_GAL = L_PER_GAL * 1000;
+
+export const CANONICAL_UNITS: UnitPrefs = { system: "metric", volume: "l", temp: "C", ec: "mS" };
+const IMPERIAL_UNITS: UnitPrefs = { system: "imperial", volume: "gal", temp: "F", ec: "ppm500" };
+
+const PPM_PER_MS: Record<EcUnit, number> = { mS: 1, ppm500: 500, ppm700: 700 };
+
+export function galToL(gal: number): number {
+  return gal * L_PER_GAL;
+}
+
+export function lToGal(l: number): number {
+  return l / L_PER_GAL;
+}
+
+export function fToC(f: number): number {
+  return ((f - 32) * 5) / 9;
+}
+
+export function cToF(c: number): number {
+  return (c * 9) / 5 + 32;
+}
+
+/** EC reading in `unit` → mS/cm. */
+export function ecToMs(value: number, unit: EcUnit): number {
+  return value / PPM_PER_MS[unit];
+}
+
+/** mS/cm → EC reading in `unit`. */
+export function msToEc(ms: number, unit: EcUnit): number {
+  return ms * PPM_PER_MS[unit];
+}
+
+/** ml per US gallon (nutrient line dosing) → ml per litre. */
+export function mlPerGalToMlPerL(mlPerGal: number): number {
+  return mlPerGal / L_PER_GAL;
+}
+
+/** Accepts "metric" / "imperial" or a partial prefs object; unknown input resolves to canonical metric. */
+export function resolveUnitPrefs(input?: unknown): UnitPrefs {
+  if (typeof input === "string") {
+    return input.toLowerCase().trim() === "imperial" ? { ...IMPERIAL_UNITS } : { ...CANONICAL_UNITS };
+  }
+  if (!input || typeof input !== "object") return { ...CANONICAL_UNITS };
+  const o = input as Record<string, unknown>;
+  const base = String(o.system ?? "").toLowerCase() === "imperial" ? IMPERIAL_UNITS : CANONICAL_UNITS;
+  return {
+    system: base.system,
+    volume: pick(o.volume, ["l", "gal"], base.volume),
+    temp: pick(String(o.temp ?? "").toUpperCase(), ["C", "F"], base.temp),
+    ec: pick(o.ec, ["mS", "ppm500", "ppm700"], base.ec),
+  };
+}
+
+export function isCanonical(prefs: UnitPrefs): boolean {
+  return prefs.volume === "l" && prefs.temp === "C" && prefs.ec === "mS";
+}
+
+function pick<T extends string>(v: unknown, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(v as T) ? (v as T) : fallback;
+}
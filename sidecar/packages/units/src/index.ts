@@ -0,0 +1,21 @@
+export {
+  CANONICAL_UNITS,
+  L_PER_GAL,
+  ML_PER_GAL,
+  cToF,
+  ecToMs,
+  fToC,
+  galToL,
+  isCanonical,
+  lToGal,
+  mlPerGalToMlPerL,
+  msToEc,
+  resolveUnitPrefs,
+  type EcUnit,
+  type TempUnit,
+  type UnitPrefs,
+  type UnitSystem,
+  type VolumeUnit,
+} from "./convert.ts";
+export { normalizeIntakeUnits, parseEcMs, parseTempC, parseVolumeL } from "./intake.ts";
+export { localizeMetric, localizeUnits } from "./localize.ts";
@@ -0,0 +1,99 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { galToL, normalizeIntakeUnits, parseEcMs, parseTempC, parseVolumeL, resolveUnitPrefs } from "./index.ts";
+
+describe("parseEcMs", () => {
+  it("reads mS/cm, explicit ppm scales and bare numbers in the user's unit", () => {
+    assert.equal(parseEcMs("1.8", "mS"), 1.8);
+    assert.equal(parseEcMs("1.8 mS/cm", "ppm500"), 1.8);
+    assert.equal(parseEcMs("2.4 EC", "ppm700"), 2.4);
+    assert.equal(parseEcMs("1200 ppm500", "mS"), 2.4);
+    assert.equal(parseEcMs("2100 ppm-700", "mS"), 3);
+    assert.equal(parseEcMs(1500, "ppm500"), 3);
+    assert.equal(parseEcMs(2100, "ppm700"), 3);
+  });
+
+  it("reads a bare 'ppm' on the user's ppm scale, 500 unless 700", () => {
+    assert.equal(parseEcMs("1400 ppm", "ppm700"), 2);
+    assert.equal(parseEcMs("1000 ppm", "ppm500"), 2);
+    assert.equal(parseEcMs("1000 ppm", "mS"), 2);
+  });
+
+  it("rejects unknown units and non-numbers", () => {
+    assert.equal(parseEcMs("3 uS", "mS"), null);
+    assert.equal(parseEcMs("high", "mS"), null);
+    assert.equal(parseEcMs(undefined, "mS"), null);
+  });
+});
+
+describe("parseVolumeL / parseTempC", () => {
+  it("reads litres and gallons, bare numbers in the default unit", () => {
+    assert.equal(parseVolumeL("11 L", "gal"), 11);
+    assert.equal(parseVolumeL("11 litres", "gal"), 11);
+    assert.equal(parseVolumeL("3 gal", "l"), galToL(3));
+    assert.equal(parseVolumeL(5, "gal"), galToL(5));
+    assert.equal(parseVolumeL(5, "l"), 5);
+    assert.equal(parseVolumeL("5 qt", "l"), null);
+  });
+
+  it("reads °F and °C, bare numbers in the default unit", () => {
+    assert.equal(parseTempC("77F", "C"), 25);
+    assert.equal(parseTempC("25 °C", "F"), 25);
+    assert.equal(parseTempC(77, "F"), 25);
+    assert.equal(parseTempC("25 K", "C"), null);
+  });
+});
+
+describe("normalizeIntakeUnits", () => {
+  const imperial = resolveUnitPrefs("imperial");
+
+  it("converts temperature and EC fields to °C and mS/cm", () => {
+    const out = normalizeIntakeUnits({ temp: 77, nightTempF: 68, reservoirEc: 1200, runoffEc: "3.1 mS", pwec: "" }, imperial);
+    assert.equal(out.tempC, 25);
+    assert.equal(out.nightTempC, 20);
+    assert.equal(out.temp, undefined);
+    assert.equal(out.nightTempF, undefined);
+    assert.equal(out.reservoirEc, 2.4);
+    assert.equal(out.runoffEc, 3.1);
+    assert.equal(out.pwec, "");
+
+    const unreadable = normalizeIntakeUnits({ reservoirEc: "lots" });
+    assert.ok(!("reservoirEc" in unreadable));
+  });
+
+  it("keeps gallon pots nominal and gives litre pots an exact containerL", () => {
+    const gal = normalizeIntakeUnits({ container: 2 }, imperial);
+    assert.equal(gal.container, "2");
+    assert.equal(gal.containerL, undefined);
+
+    const litre = normalizeIntakeUnits({ container: "11 L", containerSize: "ignored" }, imperial);
+    assert.equal(litre.containerL, 11);
+    assert.equal(litre.container, "2.906");
+    assert.equal(litre.containerSize, undefined);
+
+    const metric = normalizeIntakeUnits({ containerL: 7.5 }, resolveUnitPrefs("metric"));
+    assert.equal(metric.containerL, 7.5);
+    assert.equal(metric.container, "1.981");
+
+    // Without prefs a bare number is still a US gallon size.
+    assert.equal(normalizeIntakeUnits({ containerSize: 3 }).container, "3");
+  });
+
+  it("normalizes a mixed litre / °F / ppm700 intake at the edge", () => {
+    const edge = normalizeIntakeUnits({ container: "11 L", temp: 77, runoffEc: "2100 ppm700", reservoirGal: 50 }, imperial);
+    assert.equal(edge.tempC, 25);
+    assert.equal(edge.runoffEc, 3);
+    assert.equal(edge.containerL, 11);
+    assert.ok(Math.abs(Number(edge.reservoirL) - 189.27) < 0.01);
+  });
+
+  it("converts the reservoir size to reservoirL", () => {
+    const gal = normalizeIntakeUnits({ reservoirGal: 50 }, resolveUnitPrefs("metric"));
+    assert.equal(gal.reservoirL, galToL(50));
+    assert.equal(gal.reservoirGal, undefined);
+
+    assert.equal(normalizeIntakeUnits({ reservoir: "100 L" }, imperial).reservoirL, 100);
+    assert.equal(normalizeIntakeUnits({ reservoir: 10 }, imperial).reservoirL, galToL(10));
+    assert.equal(normalizeIntakeUnits({ reservoir: 10 }, resolveUnitPrefs("metric")).reservoirL, 10);
+  });
+});
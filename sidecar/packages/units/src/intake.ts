@@ -0,0 +1,103 @@
+import { ecToMs, fToC, galToL, type EcUnit, type TempUnit, type UnitPrefs, type VolumeUnit } from "./convert.ts";
+
+const NUM_UNIT_RE = /^\s*(-?\d+(?:\.\d+)?)\s*([^\d\s].*)?$/;
+
+/** Temperature fields by base name: `<base>C`, `<base>F` or bare `<base>` in the user's unit. */
+const TEMP_FIELDS = ["temp", "nightTemp", "reservoirTemp"];
+const EC_FIELDS = ["reservoirEc", "runoffEc", "pwec", "feedEc"];
+const LITRE_UNIT_RE = /^(l|lt|ltr|litres?|liters?)$/;
+
+function splitUnit(v: unknown): { n: number; unit: string } | null {
+  if (typeof v === "number") return Number.isFinite(v) ? { n: v, unit: "" } : null;
+  const m = NUM_UNIT_RE.exec(String(v ?? ""));
+  if (!m) return null;
+  return { n: Number(m[1]), unit: (m[2] ?? "").toLowerCase().replace(/[\s.°]/g, "") };
+}
+
+/** "11 L", "3 gal", 5 → litres; bare numbers use `defaultUnit`. */
+export function parseVolumeL(v: unknown, defaultUnit: VolumeUnit): number | null {
+  const p = splitUnit(v);
+  if (!p) return null;
+  if (LITRE_UNIT_RE.test(p.unit)) return p.n;
+  if (/^(g|gal|gallons?)$/.test(p.unit)) return galToL(p.n);
+  if (p.unit) return null;
+  return defaultUnit === "gal" ? galToL(p.n) : p.n;
+}
+
+/** "78F", "25 °C", 25 → °C; bare numbers use `defaultUnit`. */
+export function parseTempC(v: unknown, defaultUnit: TempUnit): number | null {
+  const p = splitUnit(v);
+  if (!p) return null;
+  const unit = p.unit === "f" || p.unit === "fahrenheit" ? "F" : p.unit === "c" || p.unit === "celsius" ? "C" : p.unit ? null : defaultUnit;
+  if (unit == null) return null;
+  return unit === "F" ? fToC(p.n) : p.n;
+}
+
+/** "1.8", "1.8 mS/cm", "1200 ppm", "900 ppm700" → mS/cm; bare "ppm" follows the user's ppm scale (500 unless 700). */
+export function parseEcMs(v: unknown, defaultUnit: EcUnit): number | null {
+  const p = splitUnit(v);
+  if (!p) return null;
+  let unit: EcUnit | null = null;
+  if (!p.unit) unit = defaultUnit;
+  else if (/^(ms|mscm|ms\/cm|ec)$/.test(p.unit)) unit = "mS";
+  else if (/^ppm-?700$/.test(p.unit)) unit = "ppm700";
+  else if (/^ppm-?500$/.test(p.unit)) unit = "ppm500";
+  else if (p.unit === "ppm") unit = defaultUnit === "ppm700" ? "ppm700" : "ppm500";
+  if (unit == null) return null;
+  return ecToMs(p.n, unit);
+}
+
+/**
+ * Normalize a raw intake to canonical units (°C, mS/cm, gallon container key plus exact `containerL`).
+ * Without `prefs`, bare container numbers stay US gallons as before.
+ */
+export function normalizeIntakeUnits(raw: Record<string, unknown>, prefs?: UnitPrefs): Record<string, unknown> {
+  const out: Record<string, unknown> = { ...raw };
+  const temp: TempUnit = prefs?.temp ?? "C";
+  const ec: EcUnit = prefs?.ec ?? "mS";
+  const volume: VolumeUnit = prefs?.volume ?? "gal";
+
+  for (const base of TEMP_FIELDS) {
+    const c = `${base}C`;
+    const f = `${base}F`;
+    let value: number | null = null;
+    if (raw[f] != null && raw[f] !== "") value = parseTempC(raw[f], "F");
+    else if (raw[c] != null && raw[c] !== "") value = parseTempC(raw[c], "C");
+    else if (raw[base] != null && raw[base] !== "") value = parseTempC(raw[base], temp);
+    delete out[f];
+    delete out[base];
+    if (value != null) out[c] = value;
+  }
+
+  for (const key of EC_FIELDS) {
+    if (raw[key] == null || raw[key] === "") continue;
+    const value = parseEcMs(raw[key], ec);
+    if (value != null) out[key] = value;
+    else delete out[key];
+  }
+
+  const containerRaw = raw.containerL ?? raw.containerGal ?? raw.container ?? raw.containerSize;
+  if (containerRaw != null && containerRaw !== "") {
+    const unit: VolumeUnit = raw.containerL != null ? "l" : raw.containerGal != null ? "gal" : volume;
+    const litres = parseVolumeL(containerRaw, unit);
+    if (litres != null && litres > 0) {
+      // Only a litre size is exact; nominal gallon pots keep the bundle's calibrated media volume.
+      const givenUnit = splitUnit(containerRaw)?.unit || unit;
+      if (LITRE_UNIT_RE.test(givenUnit)) out.containerL = litres;
+      out.container = String(Number((litres / galToL(1)).toFixed(3)));
+      delete out.containerSize;
+      delete out.containerGal;
+    }
+  }
+
+  const reservoirRaw = raw.reservoirL ?? raw.reservoirGal ?? raw.reservoir;
+  if (reservoirRaw != null && reservoirRaw !== "" && typeof reservoirRaw !== "object") {
+    const unit: VolumeUnit = raw.reservoirL != null ? "l" : raw.reservoirGal != null ? "gal" : volume;
+    const litres = parseVolumeL(reservoirRaw, unit);
+    if (litres != null) out.reservoirL = litres;
+    delete out.reservoirGal;
+    delete out.reservoir;
+  }
+
+  return out;
+}
@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { localizeUnits, resolveUnitPrefs } from "./index.ts";
+
+describe("localizeUnits", () => {
+  it("renames temperature and litre keys, camelCase and snake_case", () => {
+    const out = localizeUnits(
+      { tempC: 25, nightTempC: 20, tair_c: 30, reservoirL: 37.85411784, required_l_day: 37.85411784, flowLpm: 3.785411784 },
+      resolveUnitPrefs("imperial")
+    );
+    assert.deepEqual(out, {
+      tempF: 77,
+      nightTempF: 68,
+      tair_f: 86,
+      reservoirGal: 10,
+      required_gal_day: 10,
+      flowGpm: 1,
+      units: resolveUnitPrefs("imperial"),
+    });
+  });
+
+  it("converts EC keys in place and leaves ratios, ppm and ml alone", () => {
+    const out = localizeUnits(
+      { targetEc: 2, pwec_start: 3, feed_ec: 1.5, deltaEc: 0.5, ec_ratio: 1.2, ppm500: 1000, p1_ml: 200, label: "EC" },
+      resolveUnitPrefs({ ec: "ppm700" })
+    );
+    assert.equal(out.targetEc, 1400);
+    assert.equal(out.pwec_start, 2100);
+    assert.equal(out.feed_ec, 1050);
+    assert.equal(out.deltaEc, 350);
+    assert.equal(out.ec_ratio, 1.2);
+    assert.equal(out.ppm500, 1000);
+    assert.equal(out.p1_ml, 200);
+    assert.equal(out.label, "EC");
+  });
+
+  it("localizes solver output to imperial units", () => {
+    const imperial = resolveUnitPrefs("imperial");
+    const out = localizeUnits({ demand: { tempC: 25 }, totals: { required_l_day: 37.854 }, pwec_start: 3, p1_ml: 200 }, imperial);
+    assert.deepEqual(out, { demand: { tempF: 77 }, totals: { required_gal_day: 10 }, pwec_start: 1500, p1_ml: 200, units: imperial });
+  });
+
+  it("walks nested objects and arrays and tags the top level with the units", () => {
+    const prefs = resolveUnitPrefs({ temp: "F" });
+    assert.deepEqual(localizeUnits({ zones: [{ demand: { tempC: 25 } }] }, prefs), { zones: [{ demand: { tempF: 77 } }], units: prefs });
+    assert.deepEqual(localizeUnits([{ tempC: 25 }], resolveUnitPrefs("imperial")), [{ tempF: 77 }]);
+  });
+
+  it("returns canonical output unchanged apart from the units tag", () => {
+    const value = { tempC: 25, required_l_day: 10, targetEc: 2 };
+    assert.deepEqual(localizeUnits(value, resolveUnitPrefs("metric")), { ...value, units: resolveUnitPrefs("metric") });
+  });
+});
@@ -0,0 +1,74 @@
+import { cToF, isCanonical, lToGal, msToEc, type UnitPrefs } from "./convert.ts";
+
+type Rule = { match: (key: string) => boolean; rename: (key: string) => string; convert: (v: number) => number };
+
+const TEMP_CAMEL = /(^temp|Temp)C$/;
+const TEMP_SNAKE = /(^|_)(temp|tair)_c$/;
+const LITRE_CAMEL = /[a-z]L(pm)?$/;
+const LITRE_SNAKE = /(^|_)l(_|$)/;
+const EC_KEY = /(^|_)(ec|pwec)(_|$)|Ec$|^pwec/;
+const NOT_EC = /ratio|frac|pct|ppm/;
+
+function rulesFor(prefs: UnitPrefs): Rule[] {
+  const rules: Rule[] = [];
+  if (prefs.temp === "F") {
+    rules.push({
+      match: (k) => TEMP_CAMEL.test(k) || TEMP_SNAKE.test(k),
+      rename: (k) => (TEMP_SNAKE.test(k) ? k.replace(/_c$/, "_f") : k.replace(/C$/, "F")),
+      convert: (v) => round(cToF(v), 1),
+    });
+  }
+  if (prefs.volume === "gal") {
+    rules.push({
+      match: (k) => LITRE_CAMEL.test(k) || LITRE_SNAKE.test(k),
+      rename: (k) => (LITRE_SNAKE.test(k) ? k.replace(LITRE_SNAKE, "$1gal$2") : k.replace(/L(pm)?$/, (_m, pm) => (pm ? "Gpm" : "Gal"))),
+      convert: (v) => round(lToGal(v), 3),
+    });
+  }
+  if (prefs.ec !== "mS") {
+    rules.push({
+      match: (k) => EC_KEY.test(k) && !NOT_EC.test(k),
+      rename: (k) => k,
+      convert: (v) => Math.round(msToEc(v, prefs.ec)),
+    });
+  }
+  return rules;
+}
+
+/**
+ * Convert canonical solver/evaluator output into the user's units. Temperature and litre keys are
+ * renamed (`tempC` → `tempF`, `required_l_day` → `required_gal_day`); EC values convert in place
+ * and the top-level `units` block says which scale they are on. Millilitre fields stay ml.
+ */
+export function localizeUnits<T>(value: T, prefs: UnitPrefs): T {
+  if (!value || typeof value !== "object") return value;
+  const out = isCanonical(prefs) ? value : walk(value, rulesFor(prefs));
+  return Array.isArray(out) ? out : ({ ...(out as object), units: prefs } as T);
+}
+
+function walk<T>(value: T, rules: Rule[]): T {
+  if (Array.isArray(value)) return value.map((v) => walk(v, rules)) as T;
+  if (!value || typeof value !== "object") return value;
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+    const rule = typeof v === "number" ? rules.find((r) => r.match(k)) : undefined;
+    if (rule) out[rule.rename(k)] = rule.convert(v as number);
+    else out[k] = typeof v === "object" ? walk(v, rules) : v;
+  }
+  return out as T;
+}
+
+/** Rewrite a metric label/value pair ("Canopy temp (°C)", "PWEC (mS/cm)") into the user's units. */
+export function localizeMetric(label: string, value: number, prefs: UnitPrefs): { label: string; value: number } {
+  if (prefs.temp === "F" && label.includes("(°C)")) {
+    return { label: label.replace("(°C)", "(°F)"), value: round(cToF(value), 1) };
+  }
+  if (prefs.ec !== "mS" && label.includes("(mS/cm)")) {
+    return { label: label.replace("(mS/cm)", `(ppm ${prefs.ec.slice(3)})`), value: Math.round(msToEc(value, prefs.ec)) };
+  }
+  return { label, value };
+}
+
+function round(n: number, digits: number): number {
+  return Number(n.toFixed(digits));
+}
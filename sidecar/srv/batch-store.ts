@@ -0,0 +1,56 @@
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { randomUUID } from "node:crypto";
+import type { MixAddition } from "../packages/growroom-engine/src/index.ts";
+
+/** A reservoir mix as it went into a room's tank. */
+export type BatchRecord = {
+  id: string;
+  roomId: string;
+  mixedAt: string;
+  lineId: string;
+  stageId: string;
+  week: number;
+  capacityL: number;
+  remainingL: number;
+  drainL: number;
+  addWaterL: number;
+  expectedEc: number;
+  phMin: number;
+  phMax: number;
+  additions: MixAddition[];
+};
+
+const BATCHES_DIR = join(process.cwd(), "data", "batches");
+const MAX_BATCHES = 100;
+
+function ensureDir() {
+  if (!existsSync(BATCHES_DIR)) mkdirSync(BATCHES_DIR, { recursive: true });
+}
+
+function batchPath(roomId: string) {
+  return join(BATCHES_DIR, `${roomId.replace(/[^a-zA-Z0-9_-]+/g, "_")}.json`);
+}
+
+/** The room's batches, newest first. */
+export function listBatches(roomId: string): BatchRecord[] {
+  const path = batchPath(roomId);
+  if (!existsSync(path)) return [];
+  try {
+    return JSON.parse(readFileSync(path, "utf8")) as BatchRecord[];
+  } catch {
+    return [];
+  }
+}
+
+export function latestBatch(roomId: string): BatchRecord | null {
+  return listBatches(roomId)[0] ?? null;
+}
+
+export function saveBatch(batch: Omit<BatchRecord, "id" | "mixedAt">): BatchRecord {
+  ensureDir();
+  const record: BatchRecord = { id: randomUUID(), mixedAt: new Date().toISOString(), ...batch };
+  const batches = [record, ...listBatches(batch.roomId)].slice(0, MAX_BATCHES);
+  writeFileSync(batchPath(batch.roomId), JSON.stringify(batches, null, 2), "utf8");
+  return record;
+}
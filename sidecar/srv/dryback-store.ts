@@ -0,0 +1,36 @@
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import type { DrybackFit } from "../packages/irr-physics/src/index.ts";
+
+export type DrybackFitRecord = {
+  roomId: string;
+  fittedAt: string;
+  fit: DrybackFit;
+};
+
+const FITS_DIR = join(process.cwd(), "data", "dryback-fits");
+
+function ensureDir() {
+  if (!existsSync(FITS_DIR)) mkdirSync(FITS_DIR, { recursive: true });
+}
+
+function fitPath(roomId: string) {
+  return join(FITS_DIR, `${roomId.replace(/[^a-zA-Z0-9_-]+/g, "_")}.json`);
+}
+
+export function saveDrybackFit(roomId: string, fit: DrybackFit): DrybackFitRecord {
+  ensureDir();
+  const record: DrybackFitRecord = { roomId, fittedAt: new Date().toISOString(), fit };
+  writeFileSync(fitPath(roomId), JSON.stringify(record, null, 2), "utf8");
+  return record;
+}
+
+export function getDrybackFit(roomId: string): DrybackFitRecord | null {
+  const path = fitPath(roomId);
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, "utf8")) as DrybackFitRecord;
+  } catch {
+    return null;
+  }
+}
@@ -1,7 +1,56 @@
 import type { Express, Request, Response } from "express";
-import { evaluateGrowroom, labelsToIntake, type GrowroomRules } from "../packages/growroom-engine/src/index.ts";
+import {
+  checkAgainstBatch,
+  evaluateGrowroom,
+  evaluateGrowroomSeries,
+  labelsToIntake,
+  planMix,
+  resolveNutrientPlan,
+  type GrowroomRules,
+  type IntakeSample,
+  type NutrientQuery,
+} from "../packages/growroom-engine/src/index.ts";
+import {
+  localizeUnits,
+  normalizeIntakeUnits,
+  parseEcMs,
+  parseVolumeL,
+  resolveUnitPrefs,
+} from "../packages/units/src/index.ts";
+import { latestBatch, listBatches, saveBatch } from "./batch-store.ts";
+import { listRunsForRoom } from "./runs-store.ts";
 
 const ENGINE_VERSION = "growroom-engine-v1";
+const MAX_SERIES = 200;
+
+/** A series entry is an intake, `{ intake, at }` or `{ labels, at }`. */
+function seriesSample(raw: Record<string, unknown>): Record<string, unknown> {
+  const at = raw.at ?? raw.createdAt;
+  const intake =
+    raw.labels && typeof raw.labels === "object"
+      ? labelsToIntake(raw.labels as Record<string, string | number>)
+      : raw.intake && typeof raw.intake === "object"
+        ? (raw.intake as Record<string, unknown>)
+        : raw;
+  return at != null ? { ...intake, at } : { ...intake };
+}
+
+function num(v: unknown): number | undefined {
+  return v != null && v !== "" && Number.isFinite(Number(v)) ? Number(v) : undefined;
+}
+
+/** Nutrient plan query from a canonical intake; the profile defaults to Athena Pro. */
+function nutrientQuery(intake: Record<string, unknown>): NutrientQuery & { profile: string; stage: string } {
+  return {
+    profile: String(intake.profile ?? "Athena Pro"),
+    stage: String(intake.stagePhase ?? intake.stage ?? ""),
+    week: num(intake.week),
+    lineId: intake.nutrientLine != null ? String(intake.nutrientLine) : undefined,
+    reservoirL: num(intake.reservoirL),
+    reservoirEc: num(intake.reservoirEc),
+    reservoirPh: num(intake.reservoirPh),
+  };
+}
 
 export function registerEvalRoutes(app: Express, rules: GrowroomRules) {
   function handleEvaluate(req: Request, res: Response) {
@@ -27,17 +76,172 @@ export function registerEvalRoutes(app: Express, rules: GrowroomRules) {
         }
       }
 
-      const result = evaluateGrowroom(rules, intake as any, ENGINE_VERSION);
+      const rawUnits = q.units ?? (req.body as Record<string, unknown> | undefined)?.units;
+      const units = rawUnits != null ? resolveUnitPrefs(rawUnits) : undefined;
+      const canonical = normalizeIntakeUnits(intake, units);
+
+      const result = evaluateGrowroom(rules, canonical as any, ENGINE_VERSION, units);
+      const roomId = canonical.roomId != null && canonical.roomId !== "" ? String(canonical.roomId) : null;
+      const measuredEc = num(canonical.reservoirEc);
+      const mixed = roomId && measuredEc != null ? latestBatch(roomId) : null;
+      const batch = mixed ? checkAgainstBatch(mixed, measuredEc!) : null;
+      const payload = { ...result, batch, summary: { applied: [], skipped: [] } };
       res.set("Cache-Control", "no-store");
-      res.json({
-        ...result,
-        summary: { applied: [], skipped: [] },
-      });
+      res.json(units ? localizeUnits(payload, units) : payload);
     } catch (e: unknown) {
       res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
     }
   }
 
+  /**
+   * Trend-aware evaluation: `intakes` in chronological order (or with `at` timestamps), or `roomId`
+   * to use that room's stored runs. The latest sample is evaluated; conditions may read its trends.
+   */
+  app.post("/v1/evaluate/series", (req: Request, res: Response) => {
+    try {
+      const body = (req.body || {}) as Record<string, unknown>;
+      const limit = Math.min(MAX_SERIES, Math.max(1, Number(body.limit) || 30));
+      let raw: Array<Record<string, unknown>>;
+      if (Array.isArray(body.intakes)) {
+        raw = body.intakes.filter((x): x is Record<string, unknown> => !!x && typeof x === "object").slice(-MAX_SERIES);
+      } else if (body.roomId != null && body.roomId !== "") {
+        raw = listRunsForRoom(String(body.roomId), limit).map((r) => ({ intake: r.intake, at: r.createdAt }));
+      } else {
+        res.status(400).json({ ok: false, error: "intakes (array) or roomId required" });
+        return;
+      }
+      if (!raw.length) {
+        res.status(404).json({ ok: false, error: "no intakes to evaluate" });
+        return;
+      }
+
+      const units = body.units != null ? resolveUnitPrefs(body.units) : undefined;
+      const samples = raw.map((x) => normalizeIntakeUnits(seriesSample(x), units) as IntakeSample);
+      const result = evaluateGrowroomSeries(rules, samples, ENGINE_VERSION, units);
+      const payload = { ...result, roomId: body.roomId ?? null, summary: { applied: [], skipped: [] } };
+      res.set("Cache-Control", "no-store");
+      res.json(units ? localizeUnits(payload, units) : payload);
+    } catch (e: unknown) {
+      res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
+    }
+  });
+
+  /** Bottle mix and feed EC/pH window for a profile's nutrient line at a stage/week and reservoir size. */
+  app.post("/v1/nutrients/plan", (req: Request, res: Response) => {
+    try {
+      const body = (req.body || {}) as Record<string, unknown>;
+      const raw = (body.intake && typeof body.intake === "object" ? body.intake : body) as Record<string, unknown>;
+      const units = body.units != null ? resolveUnitPrefs(body.units) : undefined;
+      const intake = normalizeIntakeUnits(raw, units);
+      const query = nutrientQuery(intake);
+      const plan = resolveNutrientPlan(rules, query);
+      if (!plan) {
+        res.status(422).json({ ok: false, error: `no nutrient schedule for profile "${query.profile}" at stage "${query.stage}"` });
+        return;
+      }
+      const payload = { ok: true, ...plan };
+      res.set("Cache-Control", "no-store");
+      res.json(units ? localizeUnits(payload, units) : payload);
+    } catch (e: unknown) {
+      res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
+    }
+  });
+
+  /**
+   * Reservoir mix for the target week: fresh water and ml per bottle to fill the tank (`reservoir*`)
+   * at target EC, topping off `remaining*` of solution at `reservoirEc`. With `roomId` and `save: true`
+   * the recipe is stored as the room's latest batch, which later intake `reservoirEc` is checked against.
+   */
+  app.post("/v1/nutrients/mix", (req: Request, res: Response) => {
+    try {
+      const body = (req.body || {}) as Record<string, unknown>;
+      const raw = (body.intake && typeof body.intake === "object" ? body.intake : body) as Record<string, unknown>;
+      const units = body.units != null ? resolveUnitPrefs(body.units) : undefined;
+      const intake = normalizeIntakeUnits(raw, units);
+      const query = nutrientQuery(intake);
+      if (query.reservoirL == null) {
+        res.status(400).json({ ok: false, error: "reservoir volume (reservoirL, reservoirGal or reservoir) required" });
+        return;
+      }
+      const remainingRaw = raw.remainingL ?? raw.remainingGal ?? raw.remaining;
+      const remainingL =
+        remainingRaw != null && remainingRaw !== ""
+          ? parseVolumeL(remainingRaw, raw.remainingL != null ? "l" : raw.remainingGal != null ? "gal" : units?.volume ?? "gal")
+          : 0;
+      if (remainingL == null) {
+        res.status(400).json({ ok: false, error: `invalid remaining volume: ${String(remainingRaw)}` });
+        return;
+      }
+      const sourceEc = raw.sourceEc != null && raw.sourceEc !== "" ? parseEcMs(raw.sourceEc, units?.ec ?? "mS") : 0;
+      if (sourceEc == null) {
+        res.status(400).json({ ok: false, error: `invalid sourceEc: ${String(raw.sourceEc)}` });
+        return;
+      }
+
+      const plan = resolveNutrientPlan(rules, query);
+      if (!plan) {
+        res.status(422).json({ ok: false, error: `no nutrient schedule for profile "${query.profile}" at stage "${query.stage}"` });
+        return;
+      }
+      const mix = planMix({
+        plan,
+        capacityL: query.reservoirL,
+        remainingL,
+        currentEc: query.reservoirEc,
+        currentPh: query.reservoirPh,
+        sourceEc,
+      });
+      if (!mix.ok) {
+        res.status(400).json({ ok: false, error: mix.error });
+        return;
+      }
+
+      const roomId = body.roomId ?? intake.roomId;
+      let batch = null;
+      if (body.save === true && roomId != null && roomId !== "") {
+        batch = saveBatch({
+          roomId: String(roomId),
+          lineId: plan.lineId,
+          stageId: plan.stageId,
+          week: plan.week,
+          capacityL: mix.capacityL,
+          remainingL: mix.remainingL,
+          drainL: mix.drainL,
+          addWaterL: mix.addWaterL,
+          expectedEc: mix.expectedEc,
+          phMin: mix.phMin,
+          phMax: mix.phMax,
+          additions: mix.additions,
+        });
+      }
+      const payload = {
+        ...mix,
+        lineId: plan.lineId,
+        lineLabel: plan.lineLabel,
+        stageId: plan.stageId,
+        week: plan.week,
+        notes: [...plan.notes, ...mix.notes],
+        batchId: batch?.id ?? null,
+      };
+      res.set("Cache-Control", "no-store");
+      res.json(units ? localizeUnits(payload, units) : payload);
+    } catch (e: unknown) {
+      res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
+    }
+  });
+
+  app.get("/v1/nutrients/batches/:roomId", (req: Request, res: Response) => {
+    try {
+      const limit = Math.max(1, Number(req.query.limit) || 20);
+      const units = req.query.units != null ? resolveUnitPrefs(req.query.units) : undefined;
+      const payload = { ok: true, roomId: req.params.roomId, batches: listBatches(req.params.roomId).slice(0, limit) };
+      res.set("Cache-Control", "no-store");
+      res.json(units ? localizeUnits(payload, units) : payload);
+    } catch (e: unknown) {
+      res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
+    }
+  });
+
   app.get("/v1/evaluate", handleEvaluate);
   app.post("/v1/evaluate", handleEvaluate);
 
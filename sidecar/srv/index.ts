@@ -5,7 +5,8 @@ import { resolve } from "path";
 import { registerIrrRoutes } from "./irr-routes.ts";
 import { registerEvalRoutes } from "./eval-routes.ts";
 import { registerRunsRoutes } from "./runs-routes.ts";
-import { SOLVER_VERSION } from "../packages/irr-physics/src/index.ts";
+import { SOLVER_VERSION, listSopBundles, loadSopBundle } from "../packages/irr-physics/src/index.ts";
+import { resolveStageTargets, validateConditions } from "../packages/growroom-engine/src/index.ts";
 const _require = createRequire(import.meta.url);
 const express = _require("express") as typeof import("express");
 import type { Request, Response } from "express";
@@ -15,6 +16,9 @@ let growroomRules: { metrics: any[]; conditions: any[]; stageProfiles: any[] } =
 try { growroomRules = JSON.parse(readFileSync(RULES_PATH, "utf-8")); } catch (e) {
   console.warn("[sidecar] Could not load growroom-rules.json from", RULES_PATH, "– local evaluation disabled");
 }
+for (const { condition, error } of validateConditions(growroomRules.conditions ?? [])) {
+  console.warn(`[sidecar] growroom-rules.json condition "${condition}" has an invalid predicate (${error}) – it will never match`);
+}
 
 let edgeTts: ((opts: { text: string; voice: string; rate: string; volume: string }) => AsyncIterable<{ type: string; data?: Uint8Array }>) | null = null;
 let googleTTSApi: any = null;
@@ -224,7 +228,8 @@ function buildCoachPrompt(
   const data = {
     stage,
     flags_all: flagsAll.map(f => ({ gate: f.gate, label: f.label, reason: f.reason ?? "" })),
-    symptoms_selected: symptoms
+    symptoms_selected: symptoms,
+    sop_targets: targets?.targets?.sop ?? null
   };
 
   const rules = [
@@ -325,13 +330,12 @@ type IntakePayload = {
   reservoirTempC?: number; pwec?: number; vwcAtLastIrr?: number; drybackPct24h?: number;
   p1MlPerEvent?: number; p2MlPerEvent?: number;
   stagePhase?: string; medium?: string; profile?: string; lightcycle?: string;
-  photoperiodH?: number; co2Mode?: string;
+  photoperiodH?: number; co2Mode?: string; weekIndex?: number;
   symptoms?: string[];
 };
 
 const localMetrics = growroomRules.metrics ?? [];
 const localConditions = growroomRules.conditions ?? [];
-const localStageProfiles = growroomRules.stageProfiles ?? [];
 
 function normalizeLabel(label: string): string {
   return label.toLowerCase().replace(/\(.*?\)/g, "").replace(/[^a-z0-9]+/g, " ").trim();
@@ -350,18 +354,15 @@ function findMetricRule(names: string[]): any {
   return null;
 }
 
-function findStageProfile(stage?: string, sop?: string, lc?: string): any {
-  if (!stage) return null;
-  const phase = stage.toLowerCase();
-  const sopN = (sop || "sharkmousefarms").toLowerCase();
-  const lcN = (lc || "day").toLowerCase();
-  for (const p of localStageProfiles) {
-    if (p.phase?.toLowerCase() === phase && p.key?.toLowerCase().includes(sopN) && p.lightcycle?.toLowerCase() === lcN) return p;
-  }
-  for (const p of localStageProfiles) {
-    if (p.phase?.toLowerCase() === phase && p.key?.toLowerCase().includes(sopN)) return p;
-  }
-  return null;
+function stageTargetsFor(intake: IntakePayload) {
+  return resolveStageTargets(growroomRules, {
+    stage: intake.stagePhase,
+    profile: intake.profile,
+    lightcycle: intake.lightcycle,
+    photoperiodH: intake.photoperiodH,
+    co2Mode: intake.co2Mode,
+    weekIndex: intake.weekIndex,
+  });
 }
 
 function localEvalFlags(intake: IntakePayload): GasFlag[] {
@@ -381,11 +382,11 @@ function localEvalFlags(intake: IntakePayload): GasFlag[] {
     },
   };
 
-  const profile = findStageProfile(intake.stagePhase, intake.profile, intake.lightcycle);
+  const targets = stageTargetsFor(intake);
   const TOL = 0.10;
-  const profileTargets: Record<string, number | null> = profile ? {
-    tempC: profile.tair_c, rh: profile.rh_percent, vpdKpa: profile.vpd_air_kpa,
-    ppfd: profile.ppfd_umol, co2: profile.co2_ppm,
+  const profileTargets: Record<string, number | null> = targets ? {
+    tempC: targets.tempC, rh: targets.rh, vpdKpa: targets.vpdKpa,
+    ppfd: targets.ppfd, dliMol: targets.dliMol, co2: targets.co2,
   } : {};
 
   const allFlags: GasFlag[] = [];
@@ -398,7 +399,7 @@ function localEvalFlags(intake: IntakePayload): GasFlag[] {
 
       let min = rule.min, max = rule.max;
       const metricKeyMap: Record<string, string> = {
-        "canopy temp": "tempC", rh: "rh", vpd: "vpdKpa", ppfd: "ppfd", co2: "co2",
+        "canopy temp": "tempC", rh: "rh", vpd: "vpdKpa", ppfd: "ppfd", dli: "dliMol", co2: "co2",
       };
       const pKey = metricKeyMap[normName];
       if (pKey && profileTargets[pKey] != null) {
@@ -890,7 +891,7 @@ app.use(express.json({ limit: "2mb" }));
 
 registerRunsRoutes(app);
 registerEvalRoutes(app, growroomRules);
-registerIrrRoutes(app);
+registerIrrRoutes(app, growroomRules);
 
 /* --- Health & Info --- */
 
@@ -902,7 +903,8 @@ app.get("/whoami", (_req: Request, res: Response) => {
   res.json({
     version: VERSION,
     solver_version: SOLVER_VERSION,
-    sop_bundle_version: "2026-05-24.1",
+    sop_bundle_version: loadSopBundle("Athena Pro")?.version ?? null,
+    sop_bundles: listSopBundles().map((b) => ({ profile: b.profile, version: b.current_version })),
     gasUrlConfigured: Boolean(GAS_URL),
     gasMethod: GAS_METHOD,
     llmEnabled: LLM_ENABLED,
@@ -988,7 +990,7 @@ app.post("/coach/stream", async (req: Request, res: Response) => {
   try {
     const flags = localEvalFlags(intake);
     const stage = intake.stagePhase || "unspecified";
-    const targets = { targets: { stage } };
+    const targets = { targets: { stage, sop: stageTargetsFor(intake) } };
 
     send("flags", { flags, stage });
 
@@ -1,45 +1,187 @@
 import type { Express, Request, Response } from "express";
 import {
   solveIrr,
+  simulateVwc,
+  sweepSensitivity,
+  deriveSchedule,
+  buildCropCalendar,
+  fitDrybackModel,
+  solveRoom,
+  buildSchedule,
+  scheduleToCsv,
+  scheduleToIcs,
   buildRealityDelta,
   flattenSolvePlan,
   loadSopBundle,
+  listSopBundles,
+  listSopBundleVersions,
+  reloadSopBundles,
+  resolveSopBundleDef,
+  profileKey,
+  steeringMode,
   SOLVER_VERSION,
   normalizeContainerGal,
+  blendMedia,
+  MEDIA_LIBRARY,
   type IntakeIrr,
+  type ContainerGeometry,
+  type MediaDef,
+  type SopBundleDef,
   type DirtyField,
+  type DrybackFit,
+  type DemandModel,
+  type VwcReading,
+  type RoomZone,
+  type SweepAxis,
 } from "../packages/irr-physics/src/index.ts";
+import {
+  galToL,
+  localizeUnits,
+  normalizeIntakeUnits,
+  resolveUnitPrefs,
+  type UnitPrefs,
+} from "../packages/units/src/index.ts";
+import { resolveStageTargets, type GrowroomRules } from "../packages/growroom-engine/src/index.ts";
+import { getDrybackFit, saveDrybackFit } from "./dryback-store.ts";
+import { getCustomMedia, listCustomMedia, saveCustomMedia } from "./media-store.ts";
+import { getRun } from "./runs-store.ts";
 
 let lastSolveBody: { intake: IntakeIrr; plan: ReturnType<typeof solveIrr> } | null = null;
+let stageProfiles: GrowroomRules["stageProfiles"] = [];
 
-function mapDraftToIntake(body: Record<string, unknown>): IntakeIrr {
-  return {
+function mapDraftToIntake(raw: Record<string, unknown>, units?: UnitPrefs): IntakeIrr {
+  const body = normalizeIntakeUnits(raw, units);
+  return withNightClimate({
     stage: String(body.stage ?? body.stagePhase ?? "mid bloom"),
     medium: String(body.medium ?? "coco"),
     container: normalizeContainerGal(
       String(body.container ?? body.containerSize ?? "1"),
     ),
+    containerL: num(body.containerL),
+    geometry: mapGeometry(body.geometry),
+    dimsCm: mapDims(body.dimsCm ?? body.dims),
+    plantsPerContainer: num(body.plantsPerContainer),
+    mediaDef: resolveCustomMedia(body),
     profile: String(body.profile ?? "Athena Pro"),
     mode: body.mode != null ? String(body.mode) : undefined,
+    steering: steeringMode(body.steering ?? body.steeringMode),
     photoperiodH: num(body.photoperiodH),
     tempC: num(body.tempC),
     vpdKpa: num(body.vpdKpa ?? body.vpd),
     dliMol: num(body.dliMol ?? body.dli),
+    rh: num(body.rh),
+    ppfd: num(body.ppfd),
+    canopyM2: num(body.canopyM2),
     co2: num(body.co2),
     co2Mode: body.co2Mode != null ? String(body.co2Mode) : undefined,
+    nightTempC: num(body.nightTempC),
+    nightRh: num(body.nightRh),
+    nightVpdKpa: num(body.nightVpdKpa ?? body.nightVpd),
+    nightCo2: num(body.nightCo2),
     runoffPct: num(body.runoffPct),
     drybackPct24h: num(body.drybackPct24h),
     targetAtFirst: num(body.targetAtFirst),
     vwcAtLastIrr: num(body.vwcAtLastIrr),
+    feedEc: num(body.feedEc ?? body.reservoirEc),
+    runoffEc: num(body.runoffEc),
+    pwec: num(body.pwec),
     p1Events: num(body.p1Events),
     p1IntervalMin: num(body.p1IntervalMin),
     p1Pct: num(body.p1Pct),
     p1MlPerEvent: num(body.p1MlPerEvent),
     p2Events: num(body.p2Events),
     p2IntervalMin: num(body.p2IntervalMin),
+    p2StartMin: num(body.p2StartMin),
     p2Pct: num(body.p2Pct),
     p2MlPerEvent: num(body.p2MlPerEvent),
+    emittersPerPlant: num(body.emittersPerPlant),
+    emitterFlowMlMin: num(body.emitterFlowMlMin),
+    emitterFlowGph: num(body.emitterFlowGph),
     weekIndex: num(body.weekIndex),
+  });
+}
+
+/** Fill the lights-off climate from stageProfiles unless the request sent any night field. */
+function withNightClimate(intake: IntakeIrr): IntakeIrr {
+  if ([intake.nightTempC, intake.nightRh, intake.nightVpdKpa].some((v) => v != null)) return intake;
+  const night = resolveStageTargets({ stageProfiles }, {
+    stage: intake.stage,
+    profile: intake.profile || "Athena Pro",
+    lightcycle: "night",
+    photoperiodH: intake.photoperiodH,
+    co2Mode: intake.co2Mode,
+    weekIndex: intake.weekIndex,
+  });
+  if (!night) return intake;
+  return {
+    ...intake,
+    nightTempC: night.tempC ?? undefined,
+    nightRh: night.rh ?? undefined,
+    nightVpdKpa: night.vpdKpa ?? undefined,
+    nightCo2: intake.nightCo2 ?? night.co2 ?? undefined,
+    nightProfileKey: night.key,
+  };
+}
+
+function mapZone(raw: Record<string, unknown>, units?: UnitPrefs): RoomZone {
+  const z = normalizeIntakeUnits(raw, units);
+  return {
+    id: z.id != null ? String(z.id) : undefined,
+    container: z.container != null ? normalizeContainerGal(String(z.container)) : undefined,
+    containerL: num(z.containerL),
+    geometry: mapGeometry(z.geometry),
+    dimsCm: mapDims(z.dimsCm ?? z.dims),
+    plantsPerContainer: num(z.plantsPerContainer),
+    medium: z.medium != null ? String(z.medium) : undefined,
+    mediaDef: resolveCustomMedia(z),
+    stage: z.stage != null ? String(z.stage) : undefined,
+    plantCount: num(z.plantCount),
+    emittersPerPlant: num(z.emittersPerPlant),
+    emitterFlowMlMin: num(z.emitterFlowMlMin),
+    emitterFlowGph: num(z.emitterFlowGph),
+  };
+}
+
+function mapGeometry(v: unknown): ContainerGeometry | undefined {
+  const g = String(v ?? "").trim().toLowerCase();
+  return g === "pot" || g === "slab" || g === "block" ? g : undefined;
+}
+
+/** Slab/block dimensions as `{ l, w, h }` or "100x15x7.5" (cm). */
+function mapDims(v: unknown): IntakeIrr["dimsCm"] {
+  const parts =
+    v && typeof v === "object"
+      ? [(v as Record<string, unknown>).l, (v as Record<string, unknown>).w, (v as Record<string, unknown>).h]
+      : String(v ?? "").split(/\s*[x×*]\s*/i);
+  const [l, w, h] = parts.map(num);
+  return l && w && h && l > 0 && w > 0 && h > 0 ? { l, w, h } : undefined;
+}
+
+/** Inline `mediaDef`, a `blend` of library substrates, or a saved custom medium named by `medium`. */
+function resolveCustomMedia(body: Record<string, unknown>): MediaDef | undefined {
+  if (body.mediaDef && typeof body.mediaDef === "object") return parseMediaDef(body.mediaDef as Record<string, unknown>) ?? undefined;
+  if (body.blend && typeof body.blend === "object") return blendMedia(body.blend as Record<string, number>) ?? undefined;
+  if (body.medium == null) return undefined;
+  return getCustomMedia(String(body.medium).trim().toLowerCase()) ?? undefined;
+}
+
+function parseMediaDef(raw: Record<string, unknown>): MediaDef | null {
+  if (raw.blend && typeof raw.blend === "object") {
+    const blend = blendMedia(raw.blend as Record<string, number>);
+    if (!blend) return null;
+    return { ...blend, id: raw.id != null ? String(raw.id).trim().toLowerCase() : blend.id, label: raw.label != null ? String(raw.label) : undefined };
+  }
+  const fc = num(raw.fc_vwc ?? raw.fcVwc);
+  const floor = num(raw.vwc_floor ?? raw.vwcFloor);
+  if (raw.id == null || fc == null || floor == null || fc <= floor) return null;
+  return {
+    id: String(raw.id).trim().toLowerCase(),
+    label: raw.label != null ? String(raw.label) : undefined,
+    fc_vwc: fc,
+    vwc_floor: floor,
+    fill_factor: num(raw.fill_factor ?? raw.fillFactor) ?? 1,
+    // Without one, borrow coco's baselines, as an unknown library medium does.
+    sop_medium: raw.sop_medium ?? raw.sopMedium ? String(raw.sop_medium ?? raw.sopMedium).trim().toLowerCase() : "coco",
   };
 }
 
@@ -48,18 +190,95 @@ function num(v: unknown): number | undefined {
   return Number.isFinite(n) ? n : undefined;
 }
 
-function resolveBundle(intake: IntakeIrr) {
-  const bundle = loadSopBundle(intake.profile || "Athena Pro");
+/** Unit preferences when the request names them (`units: "imperial"` or `{ temp: "F", ... }`). */
+function unitPrefs(body: Record<string, unknown>): UnitPrefs | undefined {
+  return body.units != null ? resolveUnitPrefs(body.units) : undefined;
+}
+
+/** Convert a canonical response into the request's units; untouched when none were asked for. */
+function present<T>(payload: T, body: Record<string, unknown>): T {
+  const units = unitPrefs(body);
+  return units ? localizeUnits(payload, units) : payload;
+}
+
+/**
+ * Inline `sopBundle` definition (a user SOP extending a stored profile), else the requested
+ * `sopBundleVersion`, else the version the named run is pinned to, else the current bundle.
+ * `profile` is the one the intake must solve under: irr keys carry the profile, so an inline
+ * bundle is solved against its own keys.
+ */
+function resolveBundle(intake: IntakeIrr, body: Record<string, unknown> = {}) {
+  if (body.sopBundle && typeof body.sopBundle === "object") {
+    const resolved = resolveSopBundleDef(body.sopBundle as SopBundleDef);
+    if (!resolved.ok) return { ok: false as const, error: `Invalid sopBundle: ${resolved.error}` };
+    return { ok: true as const, bundle: resolved.bundle, profile: resolved.bundle.profile };
+  }
+  const profile = intake.profile || "Athena Pro";
+  const version = pinnedVersion(profile, body);
+  const bundle = loadSopBundle(profile, undefined, version);
   if (!bundle) {
     return {
       ok: false as const,
-      error: `SOP bundle not found for profile: ${intake.profile}`,
+      error: version
+        ? `SOP bundle version ${version} not found for profile: ${intake.profile}`
+        : `SOP bundle not found for profile: ${intake.profile}`,
     };
   }
-  return { ok: true as const, bundle };
+  return { ok: true as const, bundle, profile: intake.profile };
+}
+
+function pinnedVersion(profile: string, body: Record<string, unknown>): string | undefined {
+  if (body.sopBundleVersion != null && body.sopBundleVersion !== "") return String(body.sopBundleVersion);
+  if (body.runId == null || body.runId === "") return undefined;
+  const pin = getRun(String(body.runId))?.sop;
+  return pin && profileKey(pin.profile) === profileKey(profile) ? pin.version : undefined;
 }
 
-export function registerIrrRoutes(app: Express) {
+/** Stored per-room dryback fit, when the request names a room. */
+function resolveDrybackFit(body: Record<string, unknown>): DrybackFit | undefined {
+  const roomId = body.roomId ?? (body.intake as Record<string, unknown> | undefined)?.roomId;
+  if (roomId == null || roomId === "") return undefined;
+  return getDrybackFit(String(roomId))?.fit;
+}
+
+function resolveDemandModel(body: Record<string, unknown>): DemandModel {
+  return body.demandModel === "penman-monteith" ? "penman-monteith" : "heuristic";
+}
+
+/** `axes: [{ input, from, to, steps } | { input, values }]`, or `sweep: "vpdKpa"` / `["vpdKpa", "p2Events"]`. */
+function mapSweepAxes(raw: unknown): SweepAxis[] {
+  const list = Array.isArray(raw) ? raw : raw != null ? [raw] : [];
+  return list.map((a) => {
+    if (typeof a === "string") return { input: a as SweepAxis["input"] };
+    const r = (a ?? {}) as Record<string, unknown>;
+    return {
+      input: String(r.input ?? r.field ?? "") as SweepAxis["input"],
+      values: Array.isArray(r.values) ? r.values.map(Number) : undefined,
+      from: num(r.from),
+      to: num(r.to),
+      steps: num(r.steps),
+    };
+  });
+}
+
+/** Accept {t, vwc} rows or /v1/sensors readings ({metric: "VWC (%)", value, capturedAt}). */
+function mapVwcReadings(rows: unknown): VwcReading[] {
+  if (!Array.isArray(rows)) return [];
+  const out: VwcReading[] = [];
+  for (const row of rows as Array<Record<string, unknown>>) {
+    if (!row || typeof row !== "object") continue;
+    if (row.metric != null && !/vwc/i.test(String(row.metric))) continue;
+    const vwc = num(row.vwc ?? row.value);
+    const t = row.t ?? row.capturedAt ?? row.createdAt;
+    if (vwc == null || t == null) continue;
+    out.push({ t: typeof t === "number" ? t : String(t), vwc });
+  }
+  return out;
+}
+
+export function registerIrrRoutes(app: Express, rules?: GrowroomRules) {
+  stageProfiles = rules?.stageProfiles ?? [];
+
   app.get("/__version", (_req, res) => {
     res.json({ version: `v6.0.0-unified-${SOLVER_VERSION}` });
   });
@@ -70,28 +289,287 @@ export function registerIrrRoutes(app: Express) {
       const body = (req.body || {}) as Record<string, unknown>;
       const intake: IntakeIrr =
         body.intake && typeof body.intake === "object"
-          ? mapDraftToIntake(body.intake as Record<string, unknown>)
-          : mapDraftToIntake(body);
+          ? mapDraftToIntake(body.intake as Record<string, unknown>, unitPrefs(body))
+          : mapDraftToIntake(body, unitPrefs(body));
       const dirty = Array.isArray(body.dirty) ? (body.dirty as DirtyField[]) : undefined;
 
-      const resolved = resolveBundle(intake);
+      const resolved = resolveBundle(intake, body);
       if (!resolved.ok) {
         res.status(422).json(resolved);
         return;
       }
+      intake.profile = resolved.profile;
 
-      const plan = solveIrr({ intake, sopBundle: resolved.bundle, dirty });
+      const plan = solveIrr({
+        intake,
+        sopBundle: resolved.bundle,
+        dirty,
+        drybackFit: resolveDrybackFit(body),
+        demandModel: resolveDemandModel(body),
+        saltDays: num(body.saltDays),
+      });
       lastSolveBody = { intake, plan };
 
       res.set("Cache-Control", "no-store");
       res.set("X-Timing", String(Date.now() - t0));
       res.set("X-Sidecar-Version", SOLVER_VERSION);
-      res.json(flattenSolvePlan(plan));
+      res.json(present(flattenSolvePlan(plan), body));
+    } catch (e: unknown) {
+      res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
+    }
+  });
+
+  app.post("/sheet/irr/deriveSchedule", (req: Request, res: Response) => {
+    const t0 = Date.now();
+    try {
+      const body = (req.body || {}) as Record<string, unknown>;
+      const intake: IntakeIrr =
+        body.intake && typeof body.intake === "object"
+          ? mapDraftToIntake(body.intake as Record<string, unknown>, unitPrefs(body))
+          : mapDraftToIntake(body, unitPrefs(body));
+
+      const resolved = resolveBundle(intake, body);
+      if (!resolved.ok) {
+        res.status(422).json(resolved);
+        return;
+      }
+      intake.profile = resolved.profile;
+
+      const plan = deriveSchedule({
+        intake,
+        sopBundle: resolved.bundle,
+        drybackFit: resolveDrybackFit(body),
+        pumpMinMl: num(body.pumpMinMl ?? body.pump_min_ml),
+        pumpMaxMl: num(body.pumpMaxMl ?? body.pump_max_ml),
+        minP2IntervalMin: num(body.minP2IntervalMin ?? body.min_p2_interval_min),
+      });
+
+      res.set("Cache-Control", "no-store");
+      res.set("X-Timing", String(Date.now() - t0));
+      res.set("X-Sidecar-Version", SOLVER_VERSION);
+      res.json(present(plan, body));
     } catch (e: unknown) {
       res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
     }
   });
 
+  app.post("/sheet/irr/simulate", (req: Request, res: Response) => {
+    const t0 = Date.now();
+    try {
+      const body = (req.body || {}) as Record<string, unknown>;
+      const intake: IntakeIrr =
+        body.intake && typeof body.intake === "object"
+          ? mapDraftToIntake(body.intake as Record<string, unknown>, unitPrefs(body))
+          : mapDraftToIntake(body, unitPrefs(body));
+
+      const resolved = resolveBundle(intake, body);
+      if (!resolved.ok) {
+        res.status(422).json(resolved);
+        return;
+      }
+      intake.profile = resolved.profile;
+
+      const sim = simulateVwc({
+        intake,
+        sopBundle: resolved.bundle,
+        drybackFit: resolveDrybackFit(body),
+        demandModel: resolveDemandModel(body),
+        days: num(body.days),
+        stepMin: num(body.stepMin) === 1 ? 1 : 5,
+        p1OffsetMin: num(body.p1OffsetMin),
+        schedule: body.schedule === "reconciled" ? "reconciled" : "user",
+      });
+
+      res.set("Cache-Control", "no-store");
+      res.set("X-Timing", String(Date.now() - t0));
+      res.set("X-Sidecar-Version", SOLVER_VERSION);
+      res.json(present(sim, body));
+    } catch (e: unknown) {
+      res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
+    }
+  });
+
+  app.post("/sheet/irr/sensitivity", (req: Request, res: Response) => {
+    const t0 = Date.now();
+    try {
+      const body = (req.body || {}) as Record<string, unknown>;
+      const intake: IntakeIrr =
+        body.intake && typeof body.intake === "object"
+          ? mapDraftToIntake(body.intake as Record<string, unknown>, unitPrefs(body))
+          : mapDraftToIntake(body, unitPrefs(body));
+
+      const resolved = resolveBundle(intake, body);
+      if (!resolved.ok) {
+        res.status(422).json(resolved);
+        return;
+      }
+      intake.profile = resolved.profile;
+
+      const result = sweepSensitivity({
+        intake,
+        sopBundle: resolved.bundle,
+        dirty: Array.isArray(body.dirty) ? (body.dirty as DirtyField[]) : undefined,
+        drybackFit: resolveDrybackFit(body),
+        demandModel: resolveDemandModel(body),
+        axes: mapSweepAxes(body.axes ?? body.sweep),
+      });
+      if (!result.ok) {
+        res.status(422).json(result);
+        return;
+      }
+
+      res.set("Cache-Control", "no-store");
+      res.set("X-Timing", String(Date.now() - t0));
+      res.set("X-Sidecar-Version", SOLVER_VERSION);
+      res.json(present(result, body));
+    } catch (e: unknown) {
+      res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
+    }
+  });
+
+  app.post("/sheet/irr/calendar", (req: Request, res: Response) => {
+    handleCalendar(req, res);
+  });
+
+  app.get("/sheet/irr/calendar", (req: Request, res: Response) => {
+    handleCalendar(req, res);
+  });
+
+  app.post("/sheet/irr/room", (req: Request, res: Response) => {
+    const t0 = Date.now();
+    try {
+      const body = (req.body || {}) as Record<string, unknown>;
+      const intake: IntakeIrr =
+        body.intake && typeof body.intake === "object"
+          ? mapDraftToIntake(body.intake as Record<string, unknown>, unitPrefs(body))
+          : mapDraftToIntake(body, unitPrefs(body));
+      const zones = Array.isArray(body.zones)
+        ? (body.zones as Array<Record<string, unknown>>).map((z) => mapZone(z, unitPrefs(body)))
+        : [];
+
+      const resolved = resolveBundle(intake, body);
+      if (!resolved.ok) {
+        res.status(422).json(resolved);
+        return;
+      }
+      intake.profile = resolved.profile;
+
+      const room = solveRoom({
+        intake,
+        zones,
+        sopBundle: resolved.bundle,
+        drybackFit: resolveDrybackFit(body),
+        demandModel: resolveDemandModel(body),
+        reservoirL: num(normalizeIntakeUnits(body, unitPrefs(body)).reservoirL),
+        pumpMaxLpm: num(body.pumpMaxLpm) ?? (num(body.pumpMaxGpm) != null ? galToL(num(body.pumpMaxGpm)!) : undefined),
+      });
+
+      res.set("Cache-Control", "no-store");
+      res.set("X-Timing", String(Date.now() - t0));
+      res.set("X-Sidecar-Version", SOLVER_VERSION);
+      res.status(room.ok ? 200 : 400).json(present(room, body));
+    } catch (e: unknown) {
+      res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
+    }
+  });
+
+  app.post("/sheet/irr/dryback/fit", (req: Request, res: Response) => {
+    try {
+      const body = (req.body || {}) as Record<string, unknown>;
+      const intake: IntakeIrr =
+        body.intake && typeof body.intake === "object"
+          ? mapDraftToIntake(body.intake as Record<string, unknown>, unitPrefs(body))
+          : mapDraftToIntake(body, unitPrefs(body));
+      const resolved = resolveBundle(intake, body);
+      if (resolved.ok) intake.profile = resolved.profile;
+      const fit = fitDrybackModel({
+        readings: mapVwcReadings(body.readings),
+        intake,
+        sopBundle: resolved.ok ? resolved.bundle : undefined,
+      });
+      if (!fit.ok) {
+        res.status(422).json(fit);
+        return;
+      }
+      const roomId = body.roomId != null && body.roomId !== "" ? String(body.roomId) : null;
+      const record = roomId ? saveDrybackFit(roomId, fit) : null;
+      res.json({ ...fit, roomId, fittedAt: record?.fittedAt });
+    } catch (e: unknown) {
+      res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
+    }
+  });
+
+  app.get("/sheet/sop-bundles", (_req: Request, res: Response) => {
+    res.json({ ok: true, bundles: listSopBundles() });
+  });
+
+  app.get("/sheet/sop-bundles/:profile/versions", (req: Request, res: Response) => {
+    const info = listSopBundleVersions(String(req.params.profile));
+    if (!info.versions.length) {
+      res.status(404).json({ ok: false, error: `SOP bundle not found for profile: ${req.params.profile}` });
+      return;
+    }
+    res.json({ ok: true, ...info });
+  });
+
+  app.get("/sheet/sop-bundles/:profile", (req: Request, res: Response) => {
+    const version = req.query.version != null ? String(req.query.version) : undefined;
+    const bundle = loadSopBundle(String(req.params.profile), undefined, version);
+    if (!bundle) {
+      res.status(404).json({ ok: false, error: `SOP bundle not found for profile: ${req.params.profile}` });
+      return;
+    }
+    res.json({ ok: true, bundle });
+  });
+
+  app.post("/sheet/sop-bundles/resolve", (req: Request, res: Response) => {
+    const resolved = resolveSopBundleDef((req.body || {}) as SopBundleDef);
+    if (!resolved.ok) {
+      res.status(422).json(resolved);
+      return;
+    }
+    res.json(resolved);
+  });
+
+  app.post("/sheet/sop-bundles/reload", (_req: Request, res: Response) => {
+    try {
+      res.set("Cache-Control", "no-store");
+      res.json({ ok: true, reloadedAt: new Date().toISOString(), bundles: reloadSopBundles() });
+    } catch (e: unknown) {
+      res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
+    }
+  });
+
+  app.get("/sheet/irr/media", (_req: Request, res: Response) => {
+    res.json({ ok: true, builtin: MEDIA_LIBRARY, custom: listCustomMedia() });
+  });
+
+  app.post("/sheet/irr/media", (req: Request, res: Response) => {
+    try {
+      const def = parseMediaDef((req.body || {}) as Record<string, unknown>);
+      if (!def) {
+        res.status(422).json({ ok: false, error: "media needs id plus fc_vwc > vwc_floor, or a blend of known media" });
+        return;
+      }
+      if (MEDIA_LIBRARY[def.id]) {
+        res.status(409).json({ ok: false, error: `built-in media id: ${def.id}` });
+        return;
+      }
+      res.json({ ok: true, media: saveCustomMedia(def) });
+    } catch (e: unknown) {
+      res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
+    }
+  });
+
+  app.get("/sheet/irr/dryback/:roomId", (req: Request, res: Response) => {
+    const record = getDrybackFit(String(req.params.roomId));
+    if (!record) {
+      res.status(404).json({ ok: false, error: "dryback fit not found" });
+      return;
+    }
+    res.json({ ok: true, ...record });
+  });
+
   app.post("/sheet/reality-delta", (req: Request, res: Response) => {
     handleRealityDelta(req, res);
   });
@@ -100,23 +578,92 @@ export function registerIrrRoutes(app: Express) {
     handleRealityDelta(req, res);
   });
 
+  app.post("/sheet/irr/schedule", (req: Request, res: Response) => {
+    const t0 = Date.now();
+    try {
+      const body = (req.body || {}) as Record<string, unknown>;
+      const intake: IntakeIrr =
+        body.intake && typeof body.intake === "object"
+          ? mapDraftToIntake(body.intake as Record<string, unknown>, unitPrefs(body))
+          : mapDraftToIntake(body, unitPrefs(body));
+      const dirty = Array.isArray(body.dirty) ? (body.dirty as DirtyField[]) : undefined;
+
+      const resolved = resolveBundle(intake, body);
+      if (!resolved.ok) {
+        res.status(422).json(resolved);
+        return;
+      }
+      intake.profile = resolved.profile;
+
+      const plan = solveIrr({
+        intake,
+        sopBundle: resolved.bundle,
+        dirty,
+        drybackFit: resolveDrybackFit(body),
+        demandModel: resolveDemandModel(body),
+      });
+      const schedule = buildSchedule(plan, {
+        lightsOn: String(body.lightsOn ?? "06:00"),
+        date: body.date != null ? String(body.date) : undefined,
+        days: num(body.days),
+        p1OffsetMin: num(body.p1OffsetMin),
+        source: body.source === "user" ? "user" : "reconciled",
+      });
+
+      res.set("Cache-Control", "no-store");
+      res.set("X-Timing", String(Date.now() - t0));
+      res.set("X-Sidecar-Version", SOLVER_VERSION);
+      if (!schedule.ok) {
+        res.status(400).json(schedule);
+        return;
+      }
+      const format = String(body.format ?? "json").toLowerCase();
+      const filename = `irr-schedule-${schedule.events[0]?.date ?? "plan"}`;
+      if (format === "csv") {
+        res.type("text/csv");
+        res.set("Content-Disposition", `attachment; filename="${filename}.csv"`);
+        res.send(scheduleToCsv(schedule));
+      } else if (format === "ics" || format === "ical") {
+        res.type("text/calendar");
+        res.set("Content-Disposition", `attachment; filename="${filename}.ics"`);
+        res.send(scheduleToIcs(schedule));
+      } else {
+        res.json(present(schedule, body));
+      }
+    } catch (e: unknown) {
+      res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
+    }
+  });
+
   app.post("/sheet/irr/apply", (req: Request, res: Response) => {
     try {
       const body = (req.body || {}) as Record<string, unknown>;
-      const intake = mapDraftToIntake(body);
+      const intake = mapDraftToIntake(body, unitPrefs(body));
       const dirty = Array.isArray(body.dirty) ? (body.dirty as DirtyField[]) : undefined;
-      const resolved = resolveBundle(intake);
+      const resolved = resolveBundle(intake, body);
       if (!resolved.ok) {
         res.status(422).json(resolved);
         return;
       }
-      const plan = solveIrr({ intake, sopBundle: resolved.bundle, dirty });
-      res.json({
-        ok: true,
-        applied: true,
-        ...flattenSolvePlan(plan),
-        intake: plan.actions.applyReconciled,
+      intake.profile = resolved.profile;
+      const plan = solveIrr({
+        intake,
+        sopBundle: resolved.bundle,
+        dirty,
+        drybackFit: resolveDrybackFit(body),
+        demandModel: resolveDemandModel(body),
       });
+      res.json(
+        present(
+          {
+            ok: true,
+            applied: true,
+            ...flattenSolvePlan(plan),
+            intake: plan.actions.applyReconciled,
+          },
+          body
+        )
+      );
     } catch (e: unknown) {
       res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
     }
@@ -131,7 +678,7 @@ function handleRealityDelta(req: Request, res: Response) {
     if (body?.intake && typeof body.intake === "object") {
       intake = body.intake as IntakeIrr;
     } else if (body && Object.keys(body).length) {
-      intake = mapDraftToIntake(body);
+      intake = mapDraftToIntake(body, unitPrefs(body));
     } else if (lastSolveBody) {
       intake = lastSolveBody.intake;
     }
@@ -141,19 +688,60 @@ function handleRealityDelta(req: Request, res: Response) {
       return;
     }
 
-    const resolved = resolveBundle(intake);
+    const resolved = resolveBundle(intake, body ?? {});
     if (!resolved.ok) {
       res.status(422).json(resolved);
       return;
     }
+    intake.profile = resolved.profile;
 
-    const plan = solveIrr({ intake, sopBundle: resolved.bundle });
+    const plan = solveIrr({
+      intake,
+      sopBundle: resolved.bundle,
+      drybackFit: resolveDrybackFit(body ?? {}),
+      demandModel: resolveDemandModel(body ?? {}),
+    });
     const delta = buildRealityDelta(plan);
 
     res.set("Cache-Control", "no-store");
     res.set("X-Timing", String(Date.now() - t0));
     res.set("X-Sidecar-Version", SOLVER_VERSION);
-    res.json(delta);
+    res.json(present(delta, body ?? {}));
+  } catch (e: unknown) {
+    res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
+  }
+}
+
+function handleCalendar(req: Request, res: Response) {
+  try {
+    const src = {
+      ...(req.query as Record<string, unknown>),
+      ...((req.body || {}) as Record<string, unknown>),
+    };
+    const profile = String(src.profile ?? "Athena Pro");
+    const resolved = resolveBundle({ profile }, src);
+    if (!resolved.ok) {
+      res.status(422).json(resolved);
+      return;
+    }
+    const bundle = resolved.bundle;
+
+    const calendar = buildCropCalendar({
+      sopBundle: bundle,
+      startDate: src.startDate != null ? String(src.startDate) : undefined,
+      flipDate: src.flipDate != null ? String(src.flipDate) : undefined,
+      container: normalizeContainerGal(String(src.container ?? src.containerSize ?? "1")),
+      medium: String(src.medium ?? "coco"),
+      profile: bundle.profile,
+    });
+    if (!calendar.ok) {
+      res.status(400).json(calendar);
+      return;
+    }
+
+    res.set("Cache-Control", "no-store");
+    res.set("X-Sidecar-Version", SOLVER_VERSION);
+    res.json(calendar);
   } catch (e: unknown) {
     res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
   }
@@ -0,0 +1,27 @@
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from "node:fs";
+import { dirname, join } from "node:path";
+import type { MediaDef } from "../packages/irr-physics/src/index.ts";
+
+const LIBRARY_PATH = join(process.cwd(), "data", "media-library.json");
+
+/** User-defined substrates keyed by id; built-ins live in irr-physics MEDIA_LIBRARY. */
+export function listCustomMedia(): Record<string, MediaDef> {
+  if (!existsSync(LIBRARY_PATH)) return {};
+  try {
+    return JSON.parse(readFileSync(LIBRARY_PATH, "utf8")) as Record<string, MediaDef>;
+  } catch {
+    return {};
+  }
+}
+
+export function getCustomMedia(id: string): MediaDef | null {
+  return listCustomMedia()[id] ?? null;
+}
+
+export function saveCustomMedia(def: MediaDef): MediaDef {
+  const library = listCustomMedia();
+  library[def.id] = def;
+  mkdirSync(dirname(LIBRARY_PATH), { recursive: true });
+  writeFileSync(LIBRARY_PATH, JSON.stringify(library, null, 2), "utf8");
+  return def;
+}
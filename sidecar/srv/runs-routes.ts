@@ -1,10 +1,20 @@
 import type { Express, Request, Response } from "express";
-import { getRun, listRecent, saveRun } from "./runs-store.ts";
+import { archiveSopBundle, loadSopBundle } from "../packages/irr-physics/src/index.ts";
+import { getRun, listRecent, pinRunSop, requestedPin, saveRun } from "./runs-store.ts";
 
 export function registerRunsRoutes(app: Express) {
   app.post("/v1/runs", (req: Request, res: Response) => {
     try {
-      const record = saveRun((req.body || {}) as Record<string, unknown>);
+      const body = (req.body || {}) as Record<string, unknown>;
+      const pin = requestedPin(body);
+      const bundle = pin ? loadSopBundle(pin.profile, undefined, pin.version) : null;
+      if (pin && !bundle) {
+        res.status(422).json({ ok: false, error: `SOP bundle ${pin.version} not found for profile: ${pin.profile}` });
+        return;
+      }
+      // Keep the pinned version resolvable after the live bundle file is replaced.
+      if (bundle) archiveSopBundle(bundle);
+      const record = saveRun(body, bundle ? { profile: bundle.profile, version: bundle.version } : undefined);
       res.status(201).json({ ok: true, id: record.id, run: record });
     } catch (e: unknown) {
       res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
@@ -25,6 +35,29 @@ export function registerRunsRoutes(app: Express) {
     res.json({ ok: true, run });
   });
 
+  app.put("/v1/runs/:id/sop", (req: Request, res: Response) => {
+    try {
+      const body = (req.body || {}) as Record<string, unknown>;
+      const run = getRun(String(req.params.id));
+      if (!run) {
+        res.status(404).json({ ok: false, error: "run not found" });
+        return;
+      }
+      const profile = String(body.profile ?? run.sop?.profile ?? run.intake.profile ?? "Athena Pro");
+      const version = body.version != null ? String(body.version) : undefined;
+      const bundle = loadSopBundle(profile, undefined, version);
+      if (!bundle) {
+        res.status(422).json({ ok: false, error: `SOP bundle ${version ?? "current"} not found for profile: ${profile}` });
+        return;
+      }
+      // Keep the pinned version resolvable after the live bundle file is replaced.
+      archiveSopBundle(bundle);
+      res.json({ ok: true, run: pinRunSop(run.id, bundle.profile, bundle.version) });
+    } catch (e: unknown) {
+      res.status(500).json({ ok: false, error: String((e as Error)?.message || e) });
+    }
+  });
+
   app.get("/v1/runs", (_req: Request, res: Response) => {
     res.json({ ok: true, runs: listRecent(50) });
   });
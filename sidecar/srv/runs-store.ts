@@ -2,10 +2,20 @@ import { mkdirSync, readFileSync, writeFileSync, existsSync, readdirSync } from
 import { join } from "node:path";
 import { randomUUID } from "node:crypto";
 
+/** SOP bundle a run is planned against; re-solves for the run use this version, not the latest. */
+export type RunSopPin = {
+  profile: string;
+  version: string;
+  pinnedAt: string;
+};
+
 export type RunRecord = {
   id: string;
   createdAt: string;
+  roomId?: string;
   intake: Record<string, unknown>;
+  sop?: RunSopPin;
+  sopHistory?: RunSopPin[];
   evaluate?: unknown;
   irrPlan?: unknown;
   realityDelta?: unknown;
@@ -17,13 +27,18 @@ function ensureDir() {
   if (!existsSync(RUNS_DIR)) mkdirSync(RUNS_DIR, { recursive: true });
 }
 
-export function saveRun(body: Record<string, unknown>): RunRecord {
+/** `sop` is the validated pin (see requestedPin); omit it for a run without one. */
+export function saveRun(body: Record<string, unknown>, sop?: { profile: string; version: string }): RunRecord {
   ensureDir();
   const id = randomUUID();
+  const intake = (body.intake as Record<string, unknown>) || {};
+  const roomId = body.roomId ?? intake.roomId;
   const record: RunRecord = {
     id,
     createdAt: new Date().toISOString(),
-    intake: (body.intake as Record<string, unknown>) || {},
+    roomId: roomId != null && roomId !== "" ? String(roomId) : undefined,
+    intake,
+    sop: sop ? { ...sop, pinnedAt: new Date().toISOString() } : undefined,
     evaluate: body.evaluate,
     irrPlan: body.irrPlan,
     realityDelta: body.realityDelta,
@@ -32,6 +47,29 @@ export function saveRun(body: Record<string, unknown>): RunRecord {
   return record;
 }
 
+/** Explicit `sop: { profile, version }`, else the version the submitted plan was solved with. */
+export function requestedPin(body: Record<string, unknown>): { profile: string; version: string } | undefined {
+  const sop = (body.sop ?? {}) as Record<string, unknown>;
+  const intake = (body.intake ?? {}) as Record<string, unknown>;
+  const plan = (body.irrPlan ?? {}) as Record<string, unknown>;
+  const version = sop.version ?? body.sopBundleVersion ?? plan.sop_bundle_version;
+  if (version == null || version === "") return undefined;
+  return { profile: String(sop.profile ?? intake.profile ?? "Athena Pro"), version: String(version) };
+}
+
+/**
+ * Re-pin a run to another bundle version. Earlier pins move to `sopHistory`; stored plans keep the
+ * `sop_bundle_version` they were solved with.
+ */
+export function pinRunSop(id: string, profile: string, version: string): RunRecord | null {
+  const record = getRun(id);
+  if (!record) return null;
+  if (record.sop) record.sopHistory = [...(record.sopHistory ?? []), record.sop];
+  record.sop = { profile, version, pinnedAt: new Date().toISOString() };
+  writeFileSync(join(RUNS_DIR, `${id}.json`), JSON.stringify(record, null, 2), "utf8");
+  return record;
+}
+
 export function getRun(id: string): RunRecord | null {
   const path = join(RUNS_DIR, `${id}.json`);
   if (!existsSync(path)) return null;
@@ -43,8 +81,21 @@ export function getRun(id: string): RunRecord | null {
 }
 
 export function listRecent(limit = 20): RunRecord[] {
+  return readAll().sort((a, b) => b.createdAt.localeCompare(a.createdAt)).slice(0, limit);
+}
+
+/** The room's latest `limit` runs, oldest first, matched on `roomId` or `intake.roomId`. */
+export function listRunsForRoom(roomId: string, limit = 30): RunRecord[] {
+  return readAll()
+    .filter((r) => String(r.roomId ?? r.intake?.roomId ?? "") === roomId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit)
+    .reverse();
+}
+
+function readAll(): RunRecord[] {
   ensureDir();
-  const files = readdirSync(RUNS_DIR)
+  return readdirSync(RUNS_DIR)
     .filter((f) => f.endsWith(".json"))
     .map((f) => {
       try {
@@ -55,5 +106,4 @@ export function listRecent(limit = 20): RunRecord[] {
       }
     })
     .filter((r): r is RunRecord => r != null);
-  return files.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).slice(0, limit);
 }
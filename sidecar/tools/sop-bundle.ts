@@ -0,0 +1,158 @@
+/**
+ * SOP bundle toolchain.
+ *
+ *   npm run sop:bundle -- validate [bundle...] [--strict]   schema + semantic checks (all bundles by default)
+ *   npm run sop:bundle -- lint <bundle>                     missing / unrecognised irr keys
+ *   npm run sop:bundle -- diff <from> <to>                  baseline and setting changes between versions
+ *   npm run sop:bundle -- archive <bundle>                  copy the current bundle into versions/ before replacing it
+ *
+ * A bundle is a file path, a profile name or `profile@version` resolved in data/sop-bundles.
+ * Add --json for machine output.
+ * validate exits 1 on errors (and on warnings with --strict) so it can gate a bundle release.
+ */
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { basename, join } from "node:path";
+import {
+  archiveSopBundle,
+  diffBundles,
+  lintBundle,
+  profileKey,
+  resolveSopBundleDef,
+  sopBundleDir,
+  validateBundle,
+  type SopBundle,
+  type SopBundleDef,
+} from "../packages/irr-physics/src/index.ts";
+
+const args = process.argv.slice(2);
+const flags = new Set(args.filter((a) => a.startsWith("--")));
+const [command, ...targets] = args.filter((a) => !a.startsWith("--"));
+const asJson = flags.has("--json");
+
+function resolvePath(target: string): string {
+  if (existsSync(target)) return target;
+  const [profile, version] = target.split("@");
+  if (version) return join(sopBundleDir(), "versions", profileKey(profile!), `${version}.json`);
+  return join(sopBundleDir(), `${profileKey(target)}.json`);
+}
+
+/** Parsed file with its `extends` chain resolved, so every command sees effective values. */
+function readBundle(path: string): { raw?: unknown; error?: string } {
+  let raw: SopBundleDef;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8")) as SopBundleDef;
+  } catch (e) {
+    return { error: (e as Error).message };
+  }
+  if (!raw?.extends || raw.lineage) return { raw };
+  const resolved = resolveSopBundleDef(raw, sopBundleDir());
+  return resolved.ok ? { raw: resolved.bundle } : { error: resolved.error };
+}
+
+function allBundles(): string[] {
+  const dir = sopBundleDir();
+  const json = (d: string) => readdirSync(d).filter((f) => f.endsWith(".json") && f !== "schema.json").map((f) => join(d, f));
+  const versions = join(dir, "versions");
+  const archived = existsSync(versions) ? readdirSync(versions).flatMap((pk) => json(join(versions, pk))) : [];
+  return [...json(dir), ...archived];
+}
+
+function validate(paths: string[]): number {
+  let failed = false;
+  const reports = paths.map((path) => {
+    const { raw, error } = readBundle(path);
+    const report = error
+      ? { ok: false, errors: [{ severity: "error" as const, code: "PARSE", path: "", message: error }], warnings: [] }
+      : validateBundle(raw, sopBundleDir());
+    if (!report.ok || (flags.has("--strict") && report.warnings.length)) failed = true;
+    return { file: basename(path), ...report };
+  });
+  if (asJson) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    for (const r of reports) {
+      console.log(`${r.ok ? "ok  " : "FAIL"} ${r.file}${"version" in r && r.version ? ` (${r.version})` : ""}`);
+      for (const e of r.errors) console.log(`  error ${e.code} ${e.path}: ${e.message}`);
+      for (const w of r.warnings) console.log(`  warn  ${w.code} ${w.path}: ${w.message}`);
+    }
+  }
+  return failed ? 1 : 0;
+}
+
+function lint(path: string): number {
+  const { raw, error } = readBundle(path);
+  if (error) {
+    console.error(`${basename(path)}: ${error}`);
+    return 1;
+  }
+  const report = lintBundle(raw as SopBundle);
+  if (asJson) {
+    console.log(JSON.stringify(report, null, 2));
+    return 0;
+  }
+  console.log(`${basename(path)}: ${report.stages.length} stages × ${report.sizes.join(", ")} gal × ${report.media.join(", ")}`);
+  if (!report.missing_irr.length && !report.unknown_irr.length) console.log("  irr grid complete");
+  for (const key of report.missing_irr) console.log(`  missing ${key}`);
+  for (const key of report.unknown_irr) console.log(`  unknown ${key}`);
+  return 0;
+}
+
+function fmt(n: number | null): string {
+  return n == null ? "—" : String(n);
+}
+
+function diff(fromPath: string, toPath: string): number {
+  const a = readBundle(fromPath);
+  const b = readBundle(toPath);
+  if (a.error || b.error) {
+    console.error(a.error ?? b.error);
+    return 1;
+  }
+  const d = diffBundles(a.raw as SopBundle, b.raw as SopBundle);
+  if (asJson) {
+    console.log(JSON.stringify(d, null, 2));
+    return 0;
+  }
+  console.log(`${d.from_version ?? basename(fromPath)} → ${d.to_version ?? basename(toPath)}`);
+  for (const key of d.added) console.log(`  + ${key}`);
+  for (const key of d.removed) console.log(`  - ${key}`);
+  for (const c of [...d.settings, ...d.changed]) {
+    const pct = c.pct != null ? ` (${c.pct > 0 ? "+" : ""}${c.pct}%)` : "";
+    console.log(`  ~ ${c.key} ${c.field}: ${fmt(c.from)} → ${fmt(c.to)}${pct}`);
+  }
+  if (!d.added.length && !d.removed.length && !d.changed.length && !d.settings.length) console.log("  no changes");
+  return 0;
+}
+
+function archive(path: string): number {
+  const { raw, error } = readBundle(path);
+  const report = error ? null : validateBundle(raw, sopBundleDir());
+  if (!report?.ok) {
+    console.error(`${basename(path)}: ${error ?? report!.errors.map((e) => e.message).join("; ")}`);
+    return 1;
+  }
+  console.log(archiveSopBundle(raw as SopBundle));
+  return 0;
+}
+
+function usage(): number {
+  console.error("usage: sop-bundle validate [bundle...] [--strict] | lint <bundle> | diff <from> <to> | archive <bundle>  [--json]");
+  return 2;
+}
+
+function main(): number {
+  switch (command) {
+    case "validate":
+      return validate(targets.length ? targets.map(resolvePath) : allBundles());
+    case "lint":
+      return targets[0] ? lint(resolvePath(targets[0])) : usage();
+    case "diff":
+      return targets.length === 2 ? diff(resolvePath(targets[0]!), resolvePath(targets[1]!)) : usage();
+    case "archive":
+      return targets[0] ? archive(resolvePath(targets[0])) : usage();
+    default:
+      return usage();
+  }
+}
+
+process.exitCode = main();